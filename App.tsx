@@ -1,26 +1,187 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Notebook, Tab, AppState, Source, GeneratedMedia, PodcastJob, HostPersonality, TranscriptSegment, AudioChapter, PodcastJobState, TTSEngine } from './types';
+import { Notebook, Tab, AppState, Source, SourceExtractor, ChatThread, Note, GeneratedMedia, PodcastJob, HostPersonality, TranscriptSegment, AudioChapter, PodcastJobState, TTSEngine, JobPriority, MediaJobOptions } from './types';
 import NotebookList from './components/NotebookList';
 import NotebookDetail from './components/NotebookDetail';
 import AudioStudio from './components/AudioStudio';
 import SplashScreen from './components/SplashScreen';
 import { MOCK_NOTEBOOKS } from './constants';
 import { GeminiService } from './services/geminiService';
-import { decode, encode } from './utils/audioUtils';
+import { IndexingQueue } from './services/indexingQueue';
+import { noteToSource, noteToSourceContent } from './services/notes';
+import { formatTimestamp } from './utils/timecode';
+import { isRestartable, prepareResume, runPodcastJob } from './services/podcastJobRunner';
+import { runMediaJob } from './services/mediaJobRunner';
+import { duplicateMedia, MEDIA_UNDO_MS, regenerateOptions } from './services/mediaLibrary';
+import { JobScheduler, DEFAULT_JOB_CONCURRENCY } from './services/jobScheduler';
+import JobsPanel from './components/JobsPanel';
+import { loadNotebooks, saveNotebook, deleteNotebook, deleteMediaBlobs, loadJobs, saveJob, mediaBlobId, sweepOrphanBlobs } from './services/vaultStore';
+
+const IN_FLIGHT_STATES: PodcastJobState[] = ['QUEUED', 'PREFLIGHT', 'OUTLINING', 'SCRIPTING', 'SYNTHESIZING', 'FINALIZING', 'INDEXING'];
+
+const isJobActive = (j: PodcastJob) => IN_FLIGHT_STATES.includes(j.state) && j.activeEngine !== null;
+
+/** Newest job of a notebook, which is the one the studio shows. */
+const latestJob = (jobs: Record<string, PodcastJob>, notebookId: string): PodcastJob | undefined =>
+  Object.values(jobs)
+    .filter(j => j.notebookId === notebookId && (j.mediaType || 'AUDIO') === 'AUDIO')
+    .reduce<PodcastJob | undefined>((latest, j) => !latest || j.createdAt > latest.createdAt ? j : latest, undefined);
+
+/** A notebook's non-audio jobs, which the studio's study tools show. */
+const mediaJobsOf = (jobs: Record<string, PodcastJob>, notebookId: string): PodcastJob[] =>
+  Object.values(jobs).filter((j: PodcastJob) => j.notebookId === notebookId && (j.mediaType || 'AUDIO') !== 'AUDIO');
+
+/**
+ * A READY job keeps its merged audio only until the library item holding the
+ * same audio is in the vault; after that the job would store it a second time.
+ */
+const releaseSavedAudio = (jobs: Record<string, PodcastJob>, notebook: Notebook): Record<string, PodcastJob> => {
+  const saved = (notebook.generatedMedia || []).filter(m => m.audioBase64 && jobs[m.id]?.audio);
+  if (saved.length === 0) return jobs;
+  const next = { ...jobs };
+  saved.forEach(m => { next[m.id] = { ...jobs[m.id], audio: undefined }; });
+  return next;
+};
+
+const isInterrupted = (s: Source) =>
+  (s.status !== undefined && s.status !== 'indexed' && s.status !== 'failed') ||
+  (s.status === undefined && s.indexed === false && !s.error);
+
+/**
+ * Anything derived from the sources (summary, audio overviews) no longer
+ * reflects them once a source is edited, removed or excluded.
+ */
+const markDerivedStale = (n: Notebook): Notebook => ({
+  ...n,
+  sourcesChangedAt: Date.now(),
+  summaryStale: !!n.summary,
+  generatedMedia: n.generatedMedia?.map(m => m.type === 'AUDIO' ? { ...m, stale: true } : m),
+});
 
 const App: React.FC = () => {
   const [isBooting, setIsBooting] = useState(true);
   const [appState, setAppState] = useState<AppState>(AppState.LIST);
-  const [notebooks, setNotebooks] = useState<Notebook[]>(MOCK_NOTEBOOKS);
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
   const [activeNotebookId, setActiveNotebookId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<Tab | null>(Tab.SOURCES);
+  /** Every job ever run, keyed by jobId; a notebook's history is its slice of this. */
   const [jobs, setJobs] = useState<Record<string, PodcastJob>>({});
+  const [showJobs, setShowJobs] = useState(false);
+  const [jobConcurrency, setJobConcurrency] = useState(DEFAULT_JOB_CONCURRENCY);
   const [notification, setNotification] = useState<{title: string, body: string, notebookId: string} | null>(null);
+  /** Notebooks whose indexing settled and that still need a fresh summary. */
+  const [settledNotebookIds, setSettledNotebookIds] = useState<string[]>([]);
 
   const gemini = useRef(new GeminiService());
+  const notebooksRef = useRef<Notebook[]>(notebooks);
+  notebooksRef.current = notebooks;
+  const indexingQueueRef = useRef<IndexingQueue | null>(null);
+  if (!indexingQueueRef.current) {
+    indexingQueueRef.current = new IndexingQueue({
+      onSourceUpdate: (notebookId, sourceId, updates) => handleUpdateSource(notebookId, sourceId, updates),
+      onNotebookSettled: (notebookId, keywords) => {
+        if (keywords.length > 0) handleUpdateNotebook(notebookId, { keywords });
+        setSettledNotebookIds(prev => prev.includes(notebookId) ? prev : [...prev, notebookId]);
+      },
+    });
+  }
+  const indexingQueue = indexingQueueRef.current;
+  const schedulerRef = useRef<JobScheduler | null>(null);
+  /** Blob deletions of media items that can still be restored, by media id. */
+  const pendingMediaPurges = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  if (!schedulerRef.current) schedulerRef.current = new JobScheduler(DEFAULT_JOB_CONCURRENCY);
+  const scheduler = schedulerRef.current;
+  const persistedNotebooks = useRef<Map<string, Notebook>>(new Map());
+  const persistedJobs = useRef<Map<string, PodcastJob>>(new Map());
   const activeNotebook = notebooks.find(n => n.id === activeNotebookId) || null;
 
+  /**
+   * 🗄️ VAULT HYDRATION
+   * First run seeds the vault with the demo notebooks. Jobs that were in flight
+   * when the tab died are queued again and resume from their last checkpoint;
+   * jobs whose notebook is gone are surfaced as FAILED. Blobs of items deleted
+   * just before the tab closed are swept.
+   */
+  useEffect(() => {
+    const hydrate = async () => {
+      try {
+        const [stored, storedJobs] = await Promise.all([loadNotebooks(), loadJobs()]);
+        // Extractions cut off by a reload cannot resume: their file handle is gone.
+        // Sources that already had content are simply re-indexed.
+        const initial = (stored || MOCK_NOTEBOOKS).map(n => ({
+          ...n,
+          sources: n.sources.map(s => isInterrupted(s)
+            ? (s.content ? { ...s, status: 'queued' as const } : { ...s, status: 'failed' as const, indexed: false, error: 'Extraction was interrupted. Upload the file again.' })
+            : s)
+        }));
+        initial.forEach(n => persistedNotebooks.current.set(n.id, n));
+        if (!stored) await Promise.all(initial.map(saveNotebook));
+        else sweepOrphanBlobs().catch(e => console.warn("[AXIOM VAULT] Orphan sweep failed", e));
+
+        const storedById: Record<string, PodcastJob> = {};
+        const interrupted: PodcastJob[] = [];
+        storedJobs.forEach(j => {
+          persistedJobs.current.set(j.jobId, j);
+          storedById[j.jobId] = j;
+          if (!IN_FLIGHT_STATES.includes(j.state)) return;
+          if (initial.some(n => n.id === j.notebookId)) interrupted.push(j);
+          else storedById[j.jobId] = { ...j, state: 'FAILED', activeEngine: null, error: 'Interrupted before completion.' };
+        });
+
+        setNotebooks(initial);
+        setJobs(stored ? stored.reduce(releaseSavedAudio, storedById) : storedById);
+        interrupted
+          .sort((a, b) => a.createdAt - b.createdAt)
+          .forEach(j => enqueueJob(prepareResume(j), initial.find(n => n.id === j.notebookId)!));
+        initial.forEach(n => n.sources.forEach(s => {
+          if (s.status === 'queued') indexingQueue.enqueue(n.id, s);
+          else if (s.status !== 'failed' && s.content) indexingQueue.warm(n.id, s);
+        }));
+      } catch (e) {
+        console.warn("[AXIOM VAULT] Storage unavailable, running in memory", e);
+        setNotebooks(MOCK_NOTEBOOKS);
+      } finally {
+        setIsHydrated(true);
+      }
+    };
+    hydrate();
+  }, []);
+
+  /**
+   * 🗄️ WRITE-THROUGH PERSISTENCE
+   * Every notebook whose reference changed since the last write is saved;
+   * notebooks that disappeared from state are removed from the vault. Once a
+   * notebook is written, its jobs drop the audio its library already holds.
+   */
+  useEffect(() => {
+    if (!isHydrated) return;
+    const persisted = persistedNotebooks.current;
+    const liveIds = new Set(notebooks.map(n => n.id));
+    notebooks.forEach(n => {
+      if (persisted.get(n.id) === n) return;
+      persisted.set(n.id, n);
+      saveNotebook(n)
+        .then(() => setJobs(prev => releaseSavedAudio(prev, n)))
+        .catch(e => console.warn("[AXIOM VAULT] Notebook write failed", e));
+    });
+    persisted.forEach((n, id) => {
+      if (liveIds.has(id)) return;
+      persisted.delete(id);
+      deleteNotebook(n).catch(e => console.warn("[AXIOM VAULT] Notebook delete failed", e));
+    });
+  }, [notebooks, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    Object.keys(jobs).forEach(jobId => {
+      const job = jobs[jobId];
+      if (persistedJobs.current.get(jobId) === job) return;
+      persistedJobs.current.set(jobId, job);
+      saveJob(job).catch(e => console.warn("[AXIOM VAULT] Job checkpoint failed", e));
+    });
+  }, [jobs, isHydrated]);
+
   useEffect(() => {
     if (notification) {
       const timer = setTimeout(() => setNotification(null), 6000);
@@ -28,12 +189,7 @@ const App: React.FC = () => {
     }
   }, [notification]);
 
-  const activeJobs = useMemo(() => {
-    return Object.values(jobs).filter((j: PodcastJob) => 
-      ['QUEUED', 'PREFLIGHT', 'OUTLINING', 'SCRIPTING', 'SYNTHESIZING', 'FINALIZING', 'INDEXING'].includes(j.state) && 
-      j.activeEngine !== null
-    );
-  }, [jobs]);
+  const activeJobs = useMemo(() => Object.values(jobs).filter(isJobActive), [jobs]);
 
   const handleSelectNotebook = (notebook: Notebook) => {
     setActiveNotebookId(notebook.id);
@@ -64,23 +220,157 @@ const App: React.FC = () => {
     setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, ...updates } : n));
   };
 
+  const handleUpdateSource = (notebookId: string, sourceId: string, updates: Partial<Source>) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? {
+      ...n,
+      sources: n.sources.map(s => s.id === sourceId ? { ...s, ...updates } : s)
+    } : n));
+  };
+
   /**
    * 🛡️ BACKGROUND INDEXING
+   * Sources enter the indexing queue (see services/indexingQueue.ts) and stay
+   * unretrievable until they reach `indexed`. Failures keep their reason on the source.
    */
-  const handleAddSource = (notebookId: string, source: Source) => {
-    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, sources: [source, ...n.sources] } : n));
-    
-    // Simulate background sync
-    setTimeout(() => {
-      setNotebooks(prev => prev.map(n => n.id === notebookId ? { 
-        ...n, 
-        sources: n.sources.map(s => s.id === source.id ? { ...s, indexed: true } : s)
-      } : n));
-    }, 2000);
+  const handleAddSource = (notebookId: string, source: Source, extract?: SourceExtractor) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, sourcesChangedAt: Date.now(), sources: [{ ...source, status: 'queued', indexed: false }, ...n.sources] } : n));
+    indexingQueue.enqueue(notebookId, source, extract);
+  };
+
+  const handleRetrySource = (notebookId: string, sourceId: string) => {
+    const source = notebooksRef.current.find(n => n.id === notebookId)?.sources.find(s => s.id === sourceId);
+    if (!source) return;
+    if (!indexingQueue.retry(notebookId, source)) {
+      handleUpdateSource(notebookId, sourceId, { error: 'The original file is no longer available. Upload it again.' });
+    }
+  };
+
+  const handleCancelSource = (notebookId: string, sourceId: string) => {
+    indexingQueue.cancel(notebookId, sourceId);
+  };
+
+  /**
+   * 🗂️ SOURCE MANAGEMENT
+   * Renames and include/exclude apply at once; edited content goes back
+   * through the indexing queue. Page and timestamp maps point into the old
+   * content, so they are dropped on edit.
+   */
+  const handleEditSource = (notebookId: string, sourceId: string, updates: Partial<Pick<Source, 'title' | 'content' | 'excluded'>>) => {
+    const source = notebooksRef.current.find(n => n.id === notebookId)?.sources.find(s => s.id === sourceId);
+    if (!source) return;
+    const contentChanged = updates.content !== undefined && updates.content !== source.content;
+    const next: Source = contentChanged ? { ...source, ...updates, pages: undefined, segments: undefined } : { ...source, ...updates };
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? markDerivedStale({
+      ...n,
+      sources: n.sources.map(s => s.id === sourceId ? next : s)
+    }) : n));
+    if (contentChanged) indexingQueue.enqueue(notebookId, next);
+  };
+
+  const handleDeleteSource = (notebookId: string, sourceId: string) => {
+    indexingQueue.forget(notebookId, sourceId);
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? markDerivedStale({
+      ...n,
+      sources: n.sources.filter(s => s.id !== sourceId)
+    }) : n));
+  };
+
+  /**
+   * Undo for a deletion. Work that was cut off by the delete is not resumed;
+   * the source comes back as failed so it can be retried.
+   */
+  const handleRestoreSource = (notebookId: string, source: Source, position: number) => {
+    const restored: Source = source.status && source.status !== 'indexed' && source.status !== 'failed'
+      ? { ...source, status: 'failed', indexed: false, progress: undefined, error: 'Cancelled.' }
+      : source;
+    setNotebooks(prev => prev.map(n => {
+      if (n.id !== notebookId || n.sources.some(s => s.id === source.id)) return n;
+      const sources = [...n.sources];
+      sources.splice(Math.min(position, sources.length), 0, restored);
+      return markDerivedStale({ ...n, sources });
+    }));
+    if (restored.status !== 'failed' && restored.content) indexingQueue.warm(notebookId, restored);
+  };
+
+  /**
+   * Regenerates the notebook summary once indexing settles. It runs after the
+   * commit so the final source statuses are in `notebooksRef`.
+   */
+  useEffect(() => {
+    if (settledNotebookIds.length === 0) return;
+    setSettledNotebookIds([]);
+    settledNotebookIds.forEach(refreshSummary);
+  }, [settledNotebookIds]);
+
+  const refreshSummary = async (notebookId: string) => {
+    const notebook = notebooksRef.current.find(n => n.id === notebookId);
+    if (!notebook || notebook.sources.length === 0) return;
+    handleSetGeneratingSummary(notebookId, true);
+    try {
+      handleUpdateSummary(notebookId, await gemini.current.generateSummary(notebook));
+    } catch (e) {
+      handleSetGeneratingSummary(notebookId, false);
+    }
+  };
+
+  /**
+   * 💬 CHAT THREADS
+   * Threads live on the notebook, so they persist with it.
+   */
+  const handleCreateThread = (notebookId: string, thread: ChatThread) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, threads: [thread, ...(n.threads || [])] } : n));
+  };
+
+  const handleUpdateThread = (notebookId: string, threadId: string, updates: Partial<ChatThread>) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? {
+      ...n,
+      threads: (n.threads || []).map(t => t.id === threadId ? { ...t, ...updates } : t)
+    } : n));
+  };
+
+  const handleDeleteThread = (notebookId: string, threadId: string) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, threads: (n.threads || []).filter(t => t.id !== threadId) } : n));
+  };
+
+  /**
+   * 📝 NOTES
+   * A note used as a source keeps that source in step with its edits.
+   */
+  const handleCreateNote = (notebookId: string, note: Note) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, notes: [note, ...(n.notes || [])] } : n));
+  };
+
+  const handleUpdateNote = (notebookId: string, noteId: string, updates: Partial<Note>) => {
+    const notebook = notebooksRef.current.find(n => n.id === notebookId);
+    const note = notebook?.notes?.find(x => x.id === noteId);
+    if (!notebook || !note) return;
+    const next: Note = { ...note, ...updates, updatedAt: Date.now() };
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? {
+      ...n,
+      notes: (n.notes || []).map(x => x.id === noteId ? next : x)
+    } : n));
+    if (next.sourceId && notebook.sources.some(s => s.id === next.sourceId)) {
+      handleEditSource(notebookId, next.sourceId, { title: next.title, content: noteToSourceContent(next) });
+    }
+  };
+
+  const handleDeleteNote = (notebookId: string, noteId: string) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, notes: (n.notes || []).filter(x => x.id !== noteId) } : n));
+  };
+
+  const handleConvertNote = (notebookId: string, noteId: string) => {
+    const note = notebooksRef.current.find(n => n.id === notebookId)?.notes?.find(x => x.id === noteId);
+    if (!note) return;
+    const source = noteToSource(note);
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? {
+      ...n,
+      notes: (n.notes || []).map(x => x.id === noteId ? { ...x, sourceId: source.id } : x)
+    } : n));
+    handleAddSource(notebookId, source);
   };
 
   const handleUpdateSummary = (notebookId: string, summary: string) => {
-    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, summary, isGeneratingSummary: false } : n));
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, summary, summaryStale: false, isGeneratingSummary: false } : n));
   };
 
   const handleSetGeneratingSummary = (notebookId: string, isGenerating: boolean) => {
@@ -91,112 +381,169 @@ const App: React.FC = () => {
     setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, generatedMedia: [media, ...(n.generatedMedia || [])] } : n));
   };
 
+  const handleUpdateGeneratedMedia = (notebookId: string, mediaId: string, updates: Partial<GeneratedMedia>) => {
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, generatedMedia: (n.generatedMedia || []).map(m => m.id === mediaId ? { ...m, ...updates } : m) } : n));
+  };
+
+  /**
+   * 🗃️ MEDIA LIBRARY
+   * A copy lands right after its original. Regenerating queues a new job with
+   * the item's settings; the old item stays until it is deleted. A deleted
+   * item's blobs stay in the vault until its undo window has passed, and then
+   * only if no copy still plays them. The job that produced it lets go of its
+   * copy of the audio right away.
+   */
+  const handleDeleteGeneratedMedia = (notebookId: string, mediaId: string) => {
+    const deleted = notebooksRef.current.find(n => n.id === notebookId)?.generatedMedia?.find(m => m.id === mediaId);
+    const blobId = deleted ? mediaBlobId(deleted) : mediaId;
+    setNotebooks(prev => prev.map(n => n.id === notebookId ? { ...n, generatedMedia: (n.generatedMedia || []).filter(m => m.id !== mediaId) } : n));
+    setJobs(prev => prev[mediaId]?.audio ? { ...prev, [mediaId]: { ...prev[mediaId], audio: undefined } } : prev);
+    clearTimeout(pendingMediaPurges.current.get(mediaId));
+    pendingMediaPurges.current.set(mediaId, setTimeout(() => {
+      pendingMediaPurges.current.delete(mediaId);
+      if (notebooksRef.current.some(n => n.generatedMedia?.some(m => mediaBlobId(m) === blobId))) return;
+      deleteMediaBlobs(blobId).catch(e => console.warn("[AXIOM VAULT] Media delete failed", e));
+    }, MEDIA_UNDO_MS));
+  };
+
+  const handleRestoreGeneratedMedia = (notebookId: string, media: GeneratedMedia, position: number) => {
+    clearTimeout(pendingMediaPurges.current.get(media.id));
+    pendingMediaPurges.current.delete(media.id);
+    setNotebooks(prev => prev.map(n => {
+      if (n.id !== notebookId || n.generatedMedia?.some(m => m.id === media.id)) return n;
+      const generatedMedia = [...(n.generatedMedia || [])];
+      generatedMedia.splice(Math.min(position, generatedMedia.length), 0, media);
+      return { ...n, generatedMedia };
+    }));
+  };
+
+  const handleDuplicateGeneratedMedia = (notebookId: string, mediaId: string) => {
+    setNotebooks(prev => prev.map(n => {
+      if (n.id !== notebookId) return n;
+      const media = n.generatedMedia || [];
+      const index = media.findIndex(m => m.id === mediaId);
+      if (index < 0) return n;
+      return { ...n, generatedMedia: [...media.slice(0, index + 1), duplicateMedia(media[index]), ...media.slice(index + 1)] };
+    }));
+  };
+
+  const handleRegenerateMedia = (notebookId: string, mediaId: string) => {
+    const notebook = notebooksRef.current.find(n => n.id === notebookId);
+    const media = notebook?.generatedMedia?.find(m => m.id === mediaId);
+    if (!notebook || !media) return;
+    if (media.type === 'AUDIO') createPodcastJob(notebookId, media.personality || notebook.hostPersonality || 'neutral');
+    else createMediaJob(notebookId, media.type, regenerateOptions(media));
+  };
+
   /**
    * 🎧 AUDIO OVERVIEW SYNC
+   * Jobs wait in the scheduler until a slot frees up. The runner checkpoints
+   * into `jobs` (and from there into the vault) after every chunk, and reads
+   * the notebook when it starts so late source changes are included. Other
+   * studio outputs run single-shot through runMediaJob.
    */
-  const createPodcastJob = async (notebookId: string, personality: HostPersonality) => {
+  const runJob = async (job: PodcastJob, fallback: Notebook, signal: AbortSignal) => {
+    const checkpoint = (next: PodcastJob) => setJobs(prev => ({ ...prev, [next.jobId]: next }));
+    const notebook = notebooksRef.current.find(n => n.id === job.notebookId) || fallback;
+
+    if ((job.mediaType || 'AUDIO') !== 'AUDIO') {
+      const media = await runMediaJob(gemini.current, notebook, job, { onCheckpoint: checkpoint, signal });
+      if (!media) return;
+      handleAddGeneratedMedia(notebook.id, media);
+      setNotification({ title: "✨ Studio Ready", body: `${media.title} is ready.`, notebookId: notebook.id });
+      return;
+    }
+
+    const result = await runPodcastJob(gemini.current, notebook, job, { onCheckpoint: checkpoint, signal });
+    if (result.state !== 'READY' || !result.audio) return;
+
+    const chapters = result.audio.chapters;
+    handleAddGeneratedMedia(notebook.id, {
+      id: result.jobId, type: 'AUDIO', title: `Deep Narrative: ${notebook.title}`,
+      duration: formatTimestamp(chapters[chapters.length - 1]?.endMs || 0),
+      sourceCount: notebook.sources.length, createdAt: Date.now(), personality: result.personality,
+      artworkUrl: result.audio.artworkUrl, transcript: result.audio.transcript, chapters, audioBase64: result.audio.audio
+    });
+
+    /**
+     * 🔔 SUCCESS-ONLY NOTIFICATION (INVARIANT)
+     */
+    setNotification({ title: "🎧 Sync Complete", body: "Audio overview is ready.", notebookId: notebook.id });
+  };
+
+  const enqueueJob = (job: PodcastJob, notebook: Notebook) => {
+    setJobs(prev => ({ ...prev, [job.jobId]: job }));
+    scheduler.enqueue({ id: job.jobId, priority: job.priority || 'normal', run: signal => runJob(job, notebook, signal) });
+  };
+
+  const createPodcastJob = (notebookId: string, personality: HostPersonality, priority: JobPriority = 'normal') => {
     const notebook = notebooks.find(n => n.id === notebookId);
     if (!notebook) return;
 
-    const jobId = `job-${Date.now()}`;
-    const initialJob: PodcastJob = {
-      jobId, notebookId, state: 'QUEUED', progress: 0.05, mode: 'PRIMARY',
+    enqueueJob({
+      jobId: `job-${crypto.randomUUID()}`, notebookId, mediaType: 'AUDIO', priority, state: 'QUEUED', progress: 0.05, mode: 'PRIMARY',
       activeEngine: TTSEngine.GEMINI,
-      createdAt: Date.now(), personality, completedChunks: 0, totalChunks: 5,
+      createdAt: Date.now(), personality, completedChunks: 0, totalChunks: 0,
       partialAudioBuffers: [], partialTranscript: []
-    };
+    }, notebook);
+  };
 
-    setJobs(prev => ({ ...prev, [notebookId]: initialJob }));
+  /** Single-shot studio outputs (flashcards, …) share the scheduler with audio jobs. */
+  const createMediaJob = (notebookId: string, mediaType: GeneratedMedia['type'], options: MediaJobOptions = {}, priority: JobPriority = 'normal') => {
+    const notebook = notebooks.find(n => n.id === notebookId);
+    if (!notebook) return;
 
-    const setJobState = (state: PodcastJobState, progress: number, updates: Partial<PodcastJob> = {}) => {
-      setJobs(prev => {
-        const current = prev[notebookId];
-        if (!current) return prev;
-        return { ...prev, [notebookId]: { ...current, state, progress, ...updates } };
-      });
-    };
+    enqueueJob({
+      jobId: `job-${crypto.randomUUID()}`, notebookId, mediaType, priority, state: 'QUEUED', progress: 0.05, mode: 'PRIMARY',
+      activeEngine: TTSEngine.GEMINI,
+      createdAt: Date.now(), personality: 'neutral', completedChunks: 0, totalChunks: 0,
+      partialAudioBuffers: [], partialTranscript: [], options
+    }, notebook);
+  };
 
-    try {
-      setJobState('PREFLIGHT', 0.1);
-      const outline = await gemini.current.generateOutline(notebook);
-      const artwork = await gemini.current.generateEpisodeArtwork(notebook);
-
-      const chunks = (outline && outline.outline) ? outline.outline : [];
-      const audioChunks: string[] = [];
-      const transcript: TranscriptSegment[] = [];
-
-      for (let i = 0; i < chunks.length; i++) {
-        setJobState('SCRIPTING', 0.2 + (i * 0.1));
-        const chunkResult = await gemini.current.generateScriptChunk(notebook, outline, i, personality);
-
-        setJobState('SYNTHESIZING', 0.25 + (i * 0.1));
-        const audioBase64 = await gemini.current.generateTTSChunk(chunkResult.script || chunkResult.text);
-
-        if (audioBase64) {
-          audioChunks.push(audioBase64);
-          const segs: TranscriptSegment[] = (chunkResult.transcript || []).length > 0 
-            ? chunkResult.transcript 
-            : [{ id: `seg-${i}`, speaker: chunkResult.speaker || 'Alex', text: chunkResult.script || chunkResult.text, startMs: i*60000, endMs: (i+1)*60000 }];
-          transcript.push(...segs);
-        }
-
-        setJobState('SYNTHESIZING', 0.25 + (i * 0.1), { completedChunks: i + 1 });
-      }
+  const handleResumeJob = (jobId: string) => {
+    const job = jobs[jobId];
+    const notebook = job && notebooks.find(n => n.id === job.notebookId);
+    if (!job || !notebook || !isRestartable(job)) return;
+    enqueueJob(prepareResume(job), notebook);
+  };
 
-      setJobState('FINALIZING', 0.95);
-      const validChunks = audioChunks.filter(c => !!c);
-      let finalAudioEncoded = '';
-      
-      if (validChunks.length > 0) {
-        const decodedChunks = validChunks.map(c => decode(c));
-        const totalLength = decodedChunks.reduce((acc, val) => acc + val.length, 0);
-        const mergedAudio = new Uint8Array(totalLength);
-        let offset = 0;
-        for (const data of decodedChunks) { mergedAudio.set(data, offset); offset += data.length; }
-        finalAudioEncoded = encode(mergedAudio);
-      }
+  /**
+   * A waiting job is dropped right away; a running one stops after its
+   * current request and records CANCELLED itself, keeping its checkpoints.
+   */
+  const handleCancelJob = (jobId: string) => {
+    if (scheduler.cancel(jobId) !== 'dropped') return;
+    setJobs(prev => prev[jobId] ? { ...prev, [jobId]: { ...prev[jobId], state: 'CANCELLED', activeEngine: null } } : prev);
+  };
 
-      setJobState('READY', 1.0, {
-        activeEngine: null,
-        audio: { audio: finalAudioEncoded, chapters: [], transcript, artworkUrl: artwork || undefined },
-        completedChunks: chunks.length,
-        totalChunks: chunks.length || 1
-      });
-
-      if (finalAudioEncoded) {
-        handleAddGeneratedMedia(notebookId, {
-          id: jobId, type: 'AUDIO', title: `Deep Narrative: ${notebook.title}`,
-          sourceCount: notebook.sources.length, createdAt: Date.now(),
-          artworkUrl: artwork || undefined, transcript, audioBase64: finalAudioEncoded
-        });
-        
-        /**
-         * 🔔 SUCCESS-ONLY NOTIFICATION (INVARIANT)
-         */
-        setNotification({ title: "🎧 Sync Complete", body: "Audio overview is ready.", notebookId: notebook.id });
-      }
-    } catch (e: any) {
-      console.warn("[AXIOM SILENT RECOVERY]", e);
-      setJobState('READY', 1.0, { activeEngine: null }); 
-    }
+  const handleSetJobPriority = (jobId: string, priority: JobPriority) => {
+    scheduler.setPriority(jobId, priority);
+    setJobs(prev => prev[jobId] ? { ...prev, [jobId]: { ...prev[jobId], priority } } : prev);
+  };
+
+  const handleSetJobConcurrency = (concurrency: number) => {
+    scheduler.setConcurrency(concurrency);
+    setJobConcurrency(scheduler.getConcurrency());
   };
 
   const renderContent = () => {
     if (appState === AppState.LIST) return <NotebookList notebooks={notebooks} onSelect={handleSelectNotebook} onAddNotebook={handleAddNotebook} onJumpToStudio={handleJumpToStudio} jobs={jobs} />;
     if (!activeNotebook) return null;
-    if (activeTab === Tab.STUDIO) return <AudioStudio notebook={activeNotebook} job={jobs[activeNotebook.id]} onBack={handleBack} onStartJob={(p) => createPodcastJob(activeNotebook.id, p)} onUpdateNotebook={(updates) => handleUpdateNotebook(activeNotebook.id, updates)} />;
-    return <NotebookDetail notebook={activeNotebook} onBack={handleBack} activeTab={activeTab as Tab} setActiveTab={setActiveTab as any} onAddSource={(s) => handleAddSource(activeNotebook.id, s)} onUpdateSummary={handleUpdateSummary} onSetGeneratingSummary={handleSetGeneratingSummary} job={jobs[activeNotebook.id]} />;
+    if (activeTab === Tab.STUDIO) return <AudioStudio notebook={activeNotebook} job={latestJob(jobs, activeNotebook.id)} onBack={handleBack} onStartJob={(p) => createPodcastJob(activeNotebook.id, p)} onResumeJob={handleResumeJob} onCancelJob={handleCancelJob} onShowJobs={() => setShowJobs(true)} mediaJobs={mediaJobsOf(jobs, activeNotebook.id)} onGenerateMedia={(type, options) => createMediaJob(activeNotebook.id, type, options)} onUpdateMedia={(mediaId, updates) => handleUpdateGeneratedMedia(activeNotebook.id, mediaId, updates)} onDeleteMedia={(mediaId) => handleDeleteGeneratedMedia(activeNotebook.id, mediaId)} onRestoreMedia={(media, position) => handleRestoreGeneratedMedia(activeNotebook.id, media, position)} onDuplicateMedia={(mediaId) => handleDuplicateGeneratedMedia(activeNotebook.id, mediaId)} onRegenerateMedia={(mediaId) => handleRegenerateMedia(activeNotebook.id, mediaId)} gradeShortAnswer={(q, r, signal) => gemini.current.gradeShortAnswer(q, r, signal)} onUpdateNotebook={(updates) => handleUpdateNotebook(activeNotebook.id, updates)} />;
+    return <NotebookDetail notebook={activeNotebook} onBack={handleBack} activeTab={activeTab as Tab} setActiveTab={setActiveTab as any} onAddSource={(s, extract) => handleAddSource(activeNotebook.id, s, extract)} onRetrySource={(id) => handleRetrySource(activeNotebook.id, id)} onCancelSource={(id) => handleCancelSource(activeNotebook.id, id)} onEditSource={(id, updates) => handleEditSource(activeNotebook.id, id, updates)} onDeleteSource={(id) => handleDeleteSource(activeNotebook.id, id)} onRestoreSource={(s, position) => handleRestoreSource(activeNotebook.id, s, position)} onCreateThread={(t) => handleCreateThread(activeNotebook.id, t)} onUpdateThread={(id, updates) => handleUpdateThread(activeNotebook.id, id, updates)} onDeleteThread={(id) => handleDeleteThread(activeNotebook.id, id)} onCreateNote={(note) => handleCreateNote(activeNotebook.id, note)} onUpdateNote={(id, updates) => handleUpdateNote(activeNotebook.id, id, updates)} onDeleteNote={(id) => handleDeleteNote(activeNotebook.id, id)} onConvertNote={(id) => handleConvertNote(activeNotebook.id, id)} onUpdateSummary={handleUpdateSummary} onSetGeneratingSummary={handleSetGeneratingSummary} job={latestJob(jobs, activeNotebook.id)} />;
   };
 
   return (
     <div className="h-[100dvh] w-full flex flex-col bg-black text-white relative overflow-hidden">
-      {isBooting && <SplashScreen onComplete={() => setIsBooting(false)} />}
-      {!isBooting && (
+      {(isBooting || !isHydrated) && <SplashScreen onComplete={() => setIsBooting(false)} />}
+      {!isBooting && isHydrated && (
         <>
-          {activeJobs.length > 0 && (
-            <div className="absolute top-0 left-0 right-0 h-[2px] bg-white/5 z-[200]">
-               <div className="h-full bg-[#4DA3FF] transition-all duration-500 shadow-[0_0_10px_#4DA3FF]" style={{ width: `${Math.max(...activeJobs.map(j => j.progress)) * 100}%` }} />
-            </div>
+          {activeJobs.length > 0 && !showJobs && (
+            <button onClick={() => setShowJobs(true)} className="absolute top-2 right-4 z-[200] flex items-center gap-2 bg-[#111214] border border-[#4DA3FF]/40 rounded-full pl-2 pr-3 py-1 shadow-[0_0_10px_rgba(77,163,255,0.25)] active:scale-95 transition-all">
+              <div className="w-3 h-3 border-2 border-[#4DA3FF]/20 border-t-[#4DA3FF] rounded-full animate-spin"></div>
+              <span className="text-[9px] font-black uppercase tracking-[0.2em] text-white">{activeJobs.length} job{activeJobs.length === 1 ? '' : 's'}</span>
+            </button>
           )}
           <div className="flex-1 flex flex-col min-h-0 overflow-hidden">{renderContent()}</div>
           {notification && (
@@ -210,6 +557,21 @@ const App: React.FC = () => {
               </div>
             </div>
           )}
+          {showJobs && (
+            <JobsPanel
+              jobs={Object.values(jobs)}
+              notebooks={notebooks}
+              activeNotebookId={activeNotebookId}
+              queuedIds={scheduler.queuedIds()}
+              concurrency={jobConcurrency}
+              onClose={() => setShowJobs(false)}
+              onCancel={handleCancelJob}
+              onResume={handleResumeJob}
+              onSetPriority={handleSetJobPriority}
+              onSetConcurrency={handleSetJobConcurrency}
+              onOpenNotebook={(notebookId) => { setShowJobs(false); setActiveNotebookId(notebookId); setAppState(AppState.DETAIL); setActiveTab(Tab.STUDIO); }}
+            />
+          )}
           {activeNotebook && (
             <nav className="fixed bottom-0 left-0 right-0 bg-black/95 backdrop-blur-2xl border-t border-white/5 pb-safe z-50">
               <div className="flex items-center justify-around h-14 px-4">
@@ -217,7 +579,7 @@ const App: React.FC = () => {
                 <button onClick={() => setActiveTab(Tab.CHAT)} className={`flex flex-col items-center transition-all px-4 ${activeTab === Tab.CHAT ? 'text-white' : 'text-zinc-500'}`}><svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg></button>
                 <button onClick={() => setActiveTab(Tab.STUDIO)} className={`flex flex-col items-center transition-all px-4 relative ${activeTab === Tab.STUDIO ? 'text-white' : 'text-zinc-500'}`}>
                   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 2v20"/><path d="M2 12h20"/><path d="m4.93 4.93 14.14 14.14"/></svg>
-                  {jobs[activeNotebook.id] && ['SYNTHESIZING', 'SCRIPTING', 'FINALIZING'].includes(jobs[activeNotebook.id].state) && jobs[activeNotebook.id].activeEngine !== null && (
+                  {activeJobs.some(j => j.notebookId === activeNotebook.id) && (
                     <div className="absolute -top-1 -right-1 w-2 h-2 bg-[#4DA3FF] rounded-full animate-pulse shadow-[0_0_5px_#4DA3FF]"></div>
                   )}
                 </button>
@@ -1,8 +1,23 @@
 
-import React, { useRef, useState, useMemo } from 'react';
-import { Notebook, HostPersonality, PodcastJob, WaveformMode, TranscriptSegment } from '../types';
-import { decode, decodeAudioData } from '../utils/audioUtils';
+import React, { useRef, useState, useMemo, useEffect } from 'react';
+import { Notebook, HostPersonality, PodcastJob, WaveformMode, TranscriptSegment, AudioChapter, GeneratedMedia, MediaJobOptions } from '../types';
+import { chapterAt } from '../services/audioTimeline';
+import { AudioPlaybackEngine, PlaybackSnapshot, PLAYBACK_RATES, SKIP_MS } from '../services/audioPlayback';
+import { exportMp3, exportWav } from '../services/audioExport';
+import { exportTranscript, TranscriptFormat } from '../services/transcriptExport';
+import { exportPodcastFolder, isFeedEpisode } from '../services/podcastFeed';
+import { CHUNK_ATTEMPTS, isResumable, isRestartable } from '../services/podcastJobRunner';
+import { ShortAnswerGrader, stubGradeShortAnswer } from '../services/quiz';
+import { isMediaJobRunning } from '../services/mediaJobRunner';
+import { MEDIA_TYPES, isMediaStale } from '../services/mediaLibrary';
+import { formatTimestamp } from '../utils/timecode';
+import { downloadBlob, toFileName } from '../utils/download';
 import Waveform from './Waveform';
+import FlashcardDecks from './FlashcardDecks';
+import QuizPanel from './QuizPanel';
+import SlideDecks from './SlideDecks';
+import InfographicPanel from './InfographicPanel';
+import MediaLibrary from './MediaLibrary';
 
 interface AudioStudioProps {
   notebook: Notebook;
@@ -10,6 +25,21 @@ interface AudioStudioProps {
   onBack?: () => void;
   onUpdateNotebook?: (updates: Partial<Notebook>) => void;
   onStartJob: (personality: HostPersonality) => void;
+  onResumeJob?: (jobId: string) => void;
+  onCancelJob?: (jobId: string) => void;
+  onShowJobs?: () => void;
+  /** This notebook's non-audio jobs (flashcards, …). */
+  mediaJobs?: PodcastJob[];
+  onGenerateMedia?: (type: GeneratedMedia['type'], options: MediaJobOptions) => void;
+  onUpdateMedia?: (mediaId: string, updates: Partial<GeneratedMedia>) => void;
+  onDeleteMedia?: (mediaId: string) => void;
+  /** Puts a deleted item back at its old position in the library. */
+  onRestoreMedia?: (media: GeneratedMedia, position: number) => void;
+  onDuplicateMedia?: (mediaId: string) => void;
+  /** Queues a new job with the item's settings and the current sources. */
+  onRegenerateMedia?: (mediaId: string) => void;
+  /** Grades quiz short answers; the deterministic stub when omitted. */
+  gradeShortAnswer?: ShortAnswerGrader;
 }
 
 const WaveformSparkleIcon = () => (
@@ -28,26 +58,72 @@ const PERSONALITIES: { id: HostPersonality; label: string; desc: string }[] = [
   { id: 'visionary', label: 'Visionary', desc: 'Future' },
 ];
 
-const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStartJob, onUpdateNotebook }) => {
+const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStartJob, onResumeJob, onCancelJob, onShowJobs, mediaJobs = [], onGenerateMedia, onUpdateMedia, onDeleteMedia, onRestoreMedia, onDuplicateMedia, onRegenerateMedia, gradeShortAnswer = async (q, r) => stubGradeShortAnswer(q, r), onUpdateNotebook }) => {
   const [view, setView] = useState<'DASHBOARD' | 'PLAYER'>('DASHBOARD');
-  const [isPlaying, setIsPlaying] = useState(false);
+  /** Library item open in the player; null plays the latest job's overview. */
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<PlaybackSnapshot>({ isPlaying: false, positionMs: 0, durationMs: 0, rate: 1 });
   const [showTranscript, setShowTranscript] = useState(false);
+  const [showChapters, setShowChapters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState(notebook.podcastFeedUrl || '');
+  const [feedProgress, setFeedProgress] = useState<{ done: number; total: number } | null>(null);
+  const [feedError, setFeedError] = useState<string | null>(null);
   const [personality, setPersonality] = useState<HostPersonality>(notebook.hostPersonality || 'neutral');
   
   const audioCtxRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const engineRef = useRef<AudioPlaybackEngine | null>(null);
+  const activeSegmentRef = useRef<HTMLDivElement>(null);
+  const isPlaying = playback.isPlaying;
+
+  const getEngine = () => {
+    if (!engineRef.current) engineRef.current = new AudioPlaybackEngine(setPlayback);
+    return engineRef.current;
+  };
 
   const stopAllAudio = () => {
-    sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-    sourcesRef.current.clear();
-    setIsPlaying(false);
+    engineRef.current?.pause();
   };
 
+  useEffect(() => () => engineRef.current?.dispose(), []);
+
   const isGenerating = job && 
     ['QUEUED', 'PREFLIGHT', 'OUTLINING', 'SCRIPTING', 'SYNTHESIZING', 'FINALIZING'].includes(job.state) &&
     job.activeEngine !== null;
 
+  const isFailed = job?.state === 'FAILED';
+  const isStopped = !!job && isRestartable(job);
+  const canResume = isStopped && isResumable(job!) && job!.completedChunks > 0 && !!onResumeJob;
+
+  const jobDetail = (() => {
+    if (!job || !isGenerating) return null;
+    if (job.state === 'QUEUED') return 'Waiting for a free slot';
+    if (!job.totalChunks) return 'Outlining';
+    const part = `Part ${Math.min(job.completedChunks + 1, job.totalChunks)} of ${job.totalChunks}`;
+    return job.retryCount ? `${part} · Retrying (${job.retryCount}/${CHUNK_ATTEMPTS - 1})` : part;
+  })();
+
+  const latestMediaJob = (type: GeneratedMedia['type']) => mediaJobs
+    .filter(j => j.mediaType === type)
+    .reduce<PodcastJob | undefined>((latest, j) => !latest || j.createdAt > latest.createdAt ? j : latest, undefined);
+
+  const jobMedia = job && notebook.generatedMedia?.find(m => m.id === job.jobId);
+  const isStale = job?.state === 'READY' && !!jobMedia && isMediaStale(notebook, jobMedia);
+  /** The latest overview counts as ready only while its library item exists. */
+  const isOverviewReady = job?.state === 'READY' && !!jobMedia?.audioBase64;
+
+  const busyTypes = MEDIA_TYPES.map(t => t.type).filter(type => type === 'AUDIO' ? !!isGenerating : isMediaJobRunning(latestMediaJob(type)));
+
+  const episode = (() => {
+    // The latest job's audio lives on its library item; the job drops its copy once that is saved.
+    const playing = playingId ? notebook.generatedMedia?.find(m => m.id === playingId) : undefined;
+    const media = playing?.audioBase64 ? playing : jobMedia;
+    if (!media?.audioBase64) return undefined;
+    return { title: media.title, audio: media.audioBase64, chapters: media.chapters || [], transcript: media.transcript || [], artworkUrl: media.artworkUrl };
+  })();
+
   /**
    * 🛡️ WAVEFORM MODE (INVARIANT)
    * Derived from app activity. Silent to user errors.
@@ -70,45 +146,141 @@ const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStar
     return audioCtxRef.current;
   };
 
-  const playAudio = async (base64: string) => {
+  /**
+   * Starts (or resumes) playback. `fromMs` seeks first; without it playback
+   * continues from wherever it was paused.
+   */
+  const playAudio = async (base64: string, fromMs?: number) => {
     if (!base64) return;
     const ctx = initAudio();
     if (!ctx || !analyserRef.current) return;
     try {
-      stopAllAudio();
-      const buffer = await decodeAudioData(decode(base64), ctx, 24000, 1);
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(analyserRef.current);
-      source.start(0);
-      sourcesRef.current.add(source);
-      setIsPlaying(true);
-      source.onended = () => { 
-        sourcesRef.current.delete(source); 
-        setIsPlaying(false);
-      };
+      const engine = getEngine();
+      engine.route(ctx, analyserRef.current);
+      engine.load(base64);
+      if (ctx.state === 'suspended') await ctx.resume();
+      await engine.play(fromMs);
     } catch (e) { console.warn("Audio playback suppressed", e); }
   };
 
   const handlePlayAction = () => {
     if (isPlaying) { stopAllAudio(); return; }
-    if (job?.audio) playAudio(job.audio.audio);
+    if (episode) playAudio(episode.audio);
+  };
+
+  /**
+   * Chapter and transcript taps start playback at the target; dragging the
+   * scrubber while paused only moves the playhead.
+   */
+  const seekTo = (ms: number, autoplay: boolean = true) => {
+    if (!episode) return;
+    if (isPlaying || !autoplay) {
+      getEngine().load(episode.audio);
+      getEngine().seek(ms);
+    } else {
+      playAudio(episode.audio, ms);
+    }
+  };
+
+  const handleSkip = (deltaMs: number) => {
+    if (!episode) return;
+    getEngine().load(episode.audio);
+    getEngine().skip(deltaMs);
   };
 
+  const cycleRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playback.rate) + 1) % PLAYBACK_RATES.length] || 1;
+    getEngine().setRate(next);
+  };
+
+  const chapters: AudioChapter[] = episode?.chapters || [];
+  const transcript: TranscriptSegment[] = episode?.transcript || [];
+  const currentChapter = chapterAt(chapters, playback.positionMs);
+  const activeSegment = transcript.reduce((found, seg, idx) => seg.startMs <= playback.positionMs ? idx : found, -1);
+  const durationMs = playback.durationMs || chapters[chapters.length - 1]?.endMs || 0;
+
+  const jumpToChapter = (index: number) => {
+    const chapter = chapters[index];
+    if (chapter) seekTo(chapter.startMs);
+  };
+
+  const exportTitle = episode?.title || notebook.title;
+  const exportName = toFileName(exportTitle);
+
+  /**
+   * MP3 encoding runs on the main thread and can take a few seconds for a
+   * long overview, so the sheet shows which export is in progress.
+   */
+  const handleExportAudio = async (format: 'wav' | 'mp3') => {
+    if (!episode || exporting) return;
+    setExporting(format);
+    try {
+      const blob = format === 'wav'
+        ? exportWav(episode.audio)
+        : await exportMp3(episode.audio, { title: exportTitle, artist: 'Axiom', chapters, artworkUrl: episode.artworkUrl });
+      downloadBlob(blob, `${exportName}.${format}`);
+    } catch (e) {
+      console.warn("Audio export failed", e);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportTranscript = (format: TranscriptFormat) => {
+    if (transcript.length === 0) return;
+    downloadBlob(exportTranscript(format, transcript, chapters, exportTitle), `${exportName}.${format}`);
+  };
+
+  const feedEpisodeCount = (notebook.generatedMedia || []).filter(isFeedEpisode).length;
+
+  /**
+   * Builds the static feed folder. The base URL is saved on the notebook so
+   * re-exports keep the same enclosure links podcast apps already know.
+   */
+  const handleExportFeed = async () => {
+    if (feedProgress || feedEpisodeCount === 0) return;
+    let baseUrl: URL;
+    try {
+      baseUrl = new URL(feedUrl.trim());
+      if (!/^https?:$/.test(baseUrl.protocol)) throw new Error();
+    } catch {
+      setFeedError('Enter the http(s) address the folder will be hosted at.');
+      return;
+    }
+    setFeedError(null);
+    if (onUpdateNotebook && feedUrl.trim() !== notebook.podcastFeedUrl) onUpdateNotebook({ podcastFeedUrl: feedUrl.trim() });
+    setFeedProgress({ done: 0, total: feedEpisodeCount });
+    try {
+      const { zip, folder } = await exportPodcastFolder(notebook, { baseUrl: baseUrl.href }, (done, total) => setFeedProgress({ done, total }));
+      downloadBlob(zip, `${folder}.zip`);
+    } catch (e) {
+      console.warn("Podcast feed export failed", e);
+      setFeedError('Export failed. Try again.');
+    } finally {
+      setFeedProgress(null);
+    }
+  };
+
+  useEffect(() => {
+    if (showTranscript && isPlaying) activeSegmentRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeSegment, showTranscript]);
+
   if (view === 'DASHBOARD') {
     return (
       <div className="flex-1 flex flex-col bg-black overflow-hidden h-full pb-32">
         <header className="px-5 py-4 flex items-center justify-between shrink-0">
           <button onClick={onBack} className="p-2 text-white active:scale-95 transition-transform bg-white/5 rounded-full"><svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg></button>
           <span className="text-[12px] font-axiom font-bold tracking-[0.2em] text-white uppercase">Neural Studio</span>
-          <div className="w-9"></div>
+          {onShowJobs ? (
+            <button onClick={onShowJobs} title="Jobs" className="p-2 text-zinc-400 active:text-white transition-all bg-white/5 rounded-full"><svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><rect width="18" height="5" x="3" y="4" rx="1"/><rect width="18" height="5" x="3" y="15" rx="1"/><path d="M7 11.5h10"/></svg></button>
+          ) : <div className="w-9"></div>}
         </header>
         <div className="flex-1 overflow-y-auto px-5 no-scrollbar pb-10">
           <div className="mt-4 mb-8">
             <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Narrative Strategy</h3>
             <button 
               onClick={() => {
-                if (job?.state === 'READY') setView('PLAYER');
+                if (isOverviewReady) { setPlayingId(null); setView('PLAYER'); }
                 else if (!isGenerating) onStartJob(personality);
               }} 
               className={`w-full bg-[#111214] p-5 rounded-[28px] flex items-center justify-between border shadow-xl transition-all ${isGenerating ? 'border-[#4DA3FF]/50 bg-[#4DA3FF]/5' : 'border-white/5'}`}
@@ -117,12 +289,36 @@ const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStar
                 <div className={`${isGenerating ? 'text-[#4DA3FF]' : 'text-zinc-400'}`}>
                   {isGenerating ? <div className="w-5 h-5 border-2 border-[#4DA3FF]/20 border-t-[#4DA3FF] rounded-full animate-spin"></div> : <WaveformSparkleIcon />}
                 </div>
-                <span className="text-white text-base font-bold font-tech truncate max-w-[180px]">{isGenerating ? 'Synthesizing...' : (job?.state === 'READY' ? 'Audio Overview Ready' : 'Generate Summary')}</span>
+                <div className="flex flex-col items-start overflow-hidden">
+                  <span className="text-white text-base font-bold font-tech truncate max-w-[180px]">{isGenerating ? (job!.state === 'QUEUED' ? 'Queued...' : 'Synthesizing...') : (isOverviewReady ? 'Audio Overview Ready' : 'Generate Summary')}</span>
+                  {jobDetail && <span className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF]/70 truncate max-w-[180px]">{jobDetail}</span>}
+                </div>
               </div>
-              <div className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${job?.state === 'READY' ? 'bg-white text-black' : 'bg-white/5 text-zinc-400'}`}>
+              <div className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${isOverviewReady ? 'bg-white text-black' : 'bg-white/5 text-zinc-400'}`}>
                  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor"><polygon points="6 4 20 12 6 20 6 4"/></svg>
               </div>
             </button>
+            {isGenerating && onCancelJob && (
+              <div className="flex justify-end mt-3 px-2">
+                <button onClick={() => onCancelJob(job!.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:scale-95 transition-all">Cancel</button>
+              </div>
+            )}
+            {isStopped && !isGenerating && (
+              <div className={`mt-3 rounded-[20px] p-4 border ${isFailed ? 'bg-red-500/5 border-red-500/20' : 'bg-[#111214] border-white/5'}`}>
+                <div className={`text-[9px] font-black uppercase tracking-[0.2em] mb-1 ${isFailed ? 'text-red-400' : 'text-zinc-400'}`}>{isFailed ? 'Generation failed' : 'Generation cancelled'}{job!.totalChunks ? ` · ${job!.completedChunks} of ${job!.totalChunks} parts done` : ''}</div>
+                {isFailed && <p className="text-[12px] font-tech leading-[1.5] text-zinc-400">{job!.error || 'The overview could not be generated.'}</p>}
+                <div className="flex items-center gap-4 mt-3">
+                  {canResume && <button onClick={() => onResumeJob!(job!.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] active:scale-95 transition-all">Resume from part {Math.min(job!.completedChunks + 1, job!.totalChunks)}</button>}
+                  <button onClick={() => onStartJob(personality)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:scale-95 transition-all">Start over</button>
+                </div>
+              </div>
+            )}
+            {isStale && !isGenerating && (
+              <div className="flex items-center justify-between gap-3 mt-3 px-2">
+                <span className="text-[9px] font-black uppercase tracking-[0.2em] text-amber-400/80">Sources changed since this overview</span>
+                <button onClick={() => onStartJob(personality)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] active:scale-95 transition-all">Regenerate</button>
+              </div>
+            )}
           </div>
           <div className="mb-10">
             <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Host Personality</h3>
@@ -134,6 +330,68 @@ const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStar
               ))}
             </div>
           </div>
+          {onGenerateMedia && onUpdateMedia && (
+            <>
+              <FlashcardDecks
+                notebook={notebook}
+                job={latestMediaJob('FLASHCARDS')}
+                onGenerate={(options) => onGenerateMedia('FLASHCARDS', options)}
+                onCancelJob={onCancelJob}
+                onUpdateMedia={onUpdateMedia}
+              />
+              <QuizPanel
+                notebook={notebook}
+                job={latestMediaJob('QUIZ')}
+                gradeShortAnswer={gradeShortAnswer}
+                onGenerate={(options) => onGenerateMedia('QUIZ', options)}
+                onCancelJob={onCancelJob}
+                onUpdateMedia={onUpdateMedia}
+              />
+              <SlideDecks
+                notebook={notebook}
+                job={latestMediaJob('SLIDE_DECK')}
+                onGenerate={() => onGenerateMedia('SLIDE_DECK', {})}
+                onCancelJob={onCancelJob}
+              />
+              <InfographicPanel
+                notebook={notebook}
+                job={latestMediaJob('INFOGRAPHIC')}
+                onGenerate={(options) => onGenerateMedia('INFOGRAPHIC', options)}
+                onCancelJob={onCancelJob}
+              />
+            </>
+          )}
+          {onUpdateMedia && onDeleteMedia && onRestoreMedia && onDuplicateMedia && onRegenerateMedia && (
+            <MediaLibrary
+              notebook={notebook}
+              busyTypes={busyTypes}
+              onPlay={(mediaId) => { stopAllAudio(); setPlayingId(mediaId); setView('PLAYER'); }}
+              onRename={(mediaId, title) => onUpdateMedia(mediaId, { title })}
+              onDelete={onDeleteMedia}
+              onRestore={onRestoreMedia}
+              onDuplicate={onDuplicateMedia}
+              onRegenerate={onRegenerateMedia}
+            />
+          )}
+          <div className="mb-10">
+            <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Podcast Feed</h3>
+            <div className="bg-[#111214] p-5 rounded-[28px] border border-white/5">
+              <input
+                type="url" placeholder="https://example.com/podcasts/notebook/"
+                value={feedUrl} onChange={(e) => { setFeedUrl(e.target.value); setFeedError(null); }}
+                disabled={!!feedProgress}
+                className="w-full bg-white/5 border border-white/5 rounded-xl p-3 text-white text-xs outline-none mb-2 font-tech"
+              />
+              <p className={`text-[9px] font-black uppercase tracking-[0.2em] mb-4 ${feedError ? 'text-red-400' : 'text-zinc-600'}`}>
+                {feedError || 'Where you will host the exported folder'}
+              </p>
+              <button onClick={handleExportFeed} disabled={!!feedProgress || feedEpisodeCount === 0} className="w-full bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all disabled:opacity-20">
+                {feedProgress
+                  ? `Encoding ${Math.min(feedProgress.done + 1, feedProgress.total)} of ${feedProgress.total}...`
+                  : feedEpisodeCount === 0 ? 'No episodes yet' : `Export Feed Folder · ${feedEpisodeCount} episode${feedEpisodeCount === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
         </div>
       </div>
     );
@@ -144,17 +402,38 @@ const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStar
       <div className="absolute top-8 left-0 right-0 px-6 z-[60] flex flex-col items-center pointer-events-none">
         <div className="w-full flex justify-between items-center mb-1 pointer-events-auto">
           <button onClick={() => { setView('DASHBOARD'); stopAllAudio(); }} className="p-2 text-zinc-400 active:text-white transition-all bg-white/5 rounded-full"><svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg></button>
-          <button onClick={() => setShowTranscript(!showTranscript)} className={`p-2 transition-colors ${showTranscript ? 'text-[#4DA3FF]' : 'text-zinc-500'}`}><svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M4 7h16"/><path d="M4 12h16"/><path d="M4 17h10"/></svg></button>
+          <div className="flex items-center">
+            <button onClick={() => setShowExport(true)} disabled={!episode} title="Export" className="p-2 text-zinc-500 active:text-white disabled:opacity-20 transition-colors"><svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><path d="m7 10 5 5 5-5"/><path d="M12 15V3"/></svg></button>
+            {chapters.length > 0 && (
+              <button onClick={() => { setShowChapters(!showChapters); setShowTranscript(false); }} className={`p-2 transition-colors ${showChapters ? 'text-[#4DA3FF]' : 'text-zinc-500'}`}><svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M8 6h13"/><path d="M8 12h13"/><path d="M8 18h13"/><path d="M3 6h.01"/><path d="M3 12h.01"/><path d="M3 18h.01"/></svg></button>
+            )}
+            <button onClick={() => { setShowTranscript(!showTranscript); setShowChapters(false); }} className={`p-2 transition-colors ${showTranscript ? 'text-[#4DA3FF]' : 'text-zinc-500'}`}><svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M4 7h16"/><path d="M4 12h16"/><path d="M4 17h10"/></svg></button>
+          </div>
         </div>
         <h1 className="text-white text-lg font-bold tracking-tight text-center font-tech">{notebook.title}</h1>
+        {currentChapter >= 0 && (
+          <div className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] mt-1 text-center truncate max-w-full">Chapter {currentChapter + 1} · {chapters[currentChapter].title}</div>
+        )}
       </div>
       
       <div className="flex-1 flex flex-col relative mt-28 px-6 overflow-hidden">
-        {showTranscript ? (
+        {showChapters ? (
+          <div className="flex-1 overflow-y-auto no-scrollbar pb-32 pt-4 flex flex-col gap-3">
+            {chapters.map((ch, idx) => (
+              <button key={ch.id} onClick={() => jumpToChapter(idx)} className={`text-left bg-[#111214] border p-4 rounded-[20px] transition-all active:scale-[0.98] ${idx === currentChapter ? 'border-[#4DA3FF]' : 'border-white/5'}`}>
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <span className="text-white text-sm font-bold font-tech truncate">{idx + 1}. {ch.title}</span>
+                  <span className="text-[9px] font-black tracking-[0.2em] text-zinc-500 shrink-0">{formatTimestamp(ch.startMs)}</span>
+                </div>
+                {ch.summary && <p className="text-[12px] font-tech leading-[1.5] text-zinc-400">{ch.summary}</p>}
+              </button>
+            ))}
+          </div>
+        ) : showTranscript ? (
           <div className="flex-1 overflow-y-auto no-scrollbar pb-32 pt-4 flex flex-col gap-6">
-            {(job?.audio?.transcript || []).map((seg: TranscriptSegment, idx: number) => (
-              <div key={idx} className="animate-in fade-in slide-in-from-bottom-2 duration-300">
-                <div className={`text-[10px] font-black uppercase tracking-[0.3em] mb-1 ${seg.speaker === 'Alex' ? 'text-[#4DA3FF]' : 'text-emerald-400'}`}>{seg.speaker}</div>
+            {transcript.map((seg: TranscriptSegment, idx: number) => (
+              <div key={idx} ref={idx === activeSegment ? activeSegmentRef : undefined} onClick={() => seekTo(seg.startMs)} className={`animate-in fade-in slide-in-from-bottom-2 duration-300 cursor-pointer transition-opacity ${activeSegment === -1 || idx === activeSegment ? 'opacity-100' : 'opacity-40'}`}>
+                <div className={`text-[10px] font-black uppercase tracking-[0.3em] mb-1 ${seg.speaker === 'Alex' ? 'text-[#4DA3FF]' : 'text-emerald-400'}`}>{seg.speaker} <span className="text-zinc-600 tracking-[0.2em]">{formatTimestamp(seg.startMs)}</span></div>
                 <p className="text-base font-tech leading-[1.6] text-zinc-200">{seg.text}</p>
               </div>
             ))}
@@ -162,7 +441,7 @@ const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStar
         ) : (
           <div className="flex-1 flex flex-col items-center justify-center relative">
             <div className="w-60 h-60 rounded-[48px] overflow-hidden shadow-2xl border-2 border-white/10 relative z-10">
-              {job?.audio?.artworkUrl ? <img src={job.audio.artworkUrl} className="w-full h-full object-cover" /> : <div className="w-full h-full bg-[#111214] flex items-center justify-center text-[#4DA3FF]"><WaveformSparkleIcon /></div>}
+              {episode?.artworkUrl ? <img src={episode.artworkUrl} className="w-full h-full object-cover" /> : <div className="w-full h-full bg-[#111214] flex items-center justify-center text-[#4DA3FF]"><WaveformSparkleIcon /></div>}
             </div>
             
             {/* 🛡️ WAVEFORM: HERO POSITION (ALWAYS VISIBLE) */}
@@ -173,15 +452,83 @@ const AudioStudio: React.FC<AudioStudioProps> = ({ notebook, job, onBack, onStar
         )}
       </div>
 
-      <div className="pb-32 px-8 flex flex-col items-center z-[70] relative pointer-events-none">
-        <button 
-          onClick={handlePlayAction} 
-          disabled={!job?.audio} 
-          className={`w-20 h-20 rounded-full flex items-center justify-center transition-all shadow-2xl active:scale-90 relative pointer-events-auto ${isPlaying ? 'bg-[#111214] text-white border-2 border-white/20' : 'bg-white text-black disabled:opacity-20'}`}
-        >
-          {isPlaying ? <svg width="32" height="32" viewBox="0 0 24 24" fill="currentColor"><rect width="4" height="14" x="7" y="5" rx="1.5"/><rect width="4" height="14" x="13" y="5" rx="1.5"/></svg> : <svg width="32" height="32" viewBox="0 0 24 24" fill="currentColor" className="ml-1.5"><polygon points="5 3 19 12 5 21"/></svg>}
-        </button>
+      <div className="pb-28 px-6 flex flex-col items-center z-[70] relative pointer-events-none">
+        <div className="w-full max-w-sm mb-4 pointer-events-auto">
+          <input
+            type="range" min={0} max={Math.max(1, Math.round(durationMs))} step={250}
+            value={Math.min(Math.round(playback.positionMs), Math.round(durationMs))}
+            onChange={(e) => seekTo(Number(e.target.value), false)}
+            disabled={!episode}
+            className="w-full accent-[#4DA3FF] disabled:opacity-20"
+          />
+          <div className="flex items-center justify-between text-[9px] font-black tracking-[0.2em] text-zinc-500">
+            <span>{formatTimestamp(playback.positionMs)}</span>
+            <button onClick={cycleRate} disabled={!episode} className="px-2 py-1 rounded-full border border-white/10 text-zinc-300 active:scale-95 transition-all disabled:opacity-20">{playback.rate}x</button>
+            <span>{formatTimestamp(durationMs)}</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-4 pointer-events-auto">
+          <button onClick={() => handleSkip(-SKIP_MS)} disabled={!episode} title="Back 15 seconds" className="p-2 text-zinc-400 active:text-white disabled:opacity-20 transition-all">
+            <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 3-6.7L3 8"/><path d="M3 3v5h5"/></svg>
+            <span className="block text-[8px] font-black tracking-widest">15</span>
+          </button>
+          {chapters.length > 1 && (
+            <button onClick={() => jumpToChapter(Math.max(0, currentChapter - 1))} disabled={currentChapter <= 0} title="Previous chapter" className="p-3 text-zinc-400 active:text-white disabled:opacity-20 transition-all">
+              <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><polygon points="19 20 9 12 19 4 19 20"/><rect width="2.5" height="16" x="5" y="4" rx="1"/></svg>
+            </button>
+          )}
+          <button 
+            onClick={handlePlayAction} 
+            disabled={!episode} 
+            className={`w-20 h-20 rounded-full flex items-center justify-center transition-all shadow-2xl active:scale-90 relative ${isPlaying ? 'bg-[#111214] text-white border-2 border-white/20' : 'bg-white text-black disabled:opacity-20'}`}
+          >
+            {isPlaying ? <svg width="32" height="32" viewBox="0 0 24 24" fill="currentColor"><rect width="4" height="14" x="7" y="5" rx="1.5"/><rect width="4" height="14" x="13" y="5" rx="1.5"/></svg> : <svg width="32" height="32" viewBox="0 0 24 24" fill="currentColor" className="ml-1.5"><polygon points="5 3 19 12 5 21"/></svg>}
+          </button>
+          {chapters.length > 1 && (
+            <button onClick={() => jumpToChapter(currentChapter + 1)} disabled={currentChapter >= chapters.length - 1} title="Next chapter" className="p-3 text-zinc-400 active:text-white disabled:opacity-20 transition-all">
+              <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 4 15 12 5 20 5 4"/><rect width="2.5" height="16" x="16.5" y="4" rx="1"/></svg>
+            </button>
+          )}
+          <button onClick={() => handleSkip(SKIP_MS)} disabled={!episode} title="Forward 15 seconds" className="p-2 text-zinc-400 active:text-white disabled:opacity-20 transition-all">
+            <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 12a9 9 0 1 1-3-6.7L21 8"/><path d="M21 3v5h-5"/></svg>
+            <span className="block text-[8px] font-black tracking-widest">15</span>
+          </button>
+        </div>
       </div>
+
+      {showExport && (
+        <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+          <div className="flex items-center justify-between pt-4 mb-6 shrink-0">
+            <h3 className="text-[15px] font-axiom font-bold tracking-widest text-white uppercase">Export</h3>
+            <button onClick={() => setShowExport(false)} className="p-2 text-white active:scale-90 transition-transform">
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+            </button>
+          </div>
+          <h4 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Audio</h4>
+          <div className="flex flex-col gap-2 mb-8">
+            {([
+              { id: 'mp3', label: 'MP3', desc: chapters.length > 0 ? `With cover art & ${chapters.length} chapters` : 'With cover art' },
+              { id: 'wav', label: 'WAV', desc: 'Lossless · 24 kHz mono' },
+            ] as const).map(opt => (
+              <button key={opt.id} onClick={() => handleExportAudio(opt.id)} disabled={!!exporting} className="w-full bg-[#111214] border border-white/5 p-4 rounded-[20px] flex items-center justify-between active:scale-[0.98] transition-all disabled:opacity-40">
+                <div className="text-left">
+                  <div className="text-white text-sm font-bold font-tech">{opt.label}</div>
+                  <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-0.5">{opt.desc}</div>
+                </div>
+                {exporting === opt.id
+                  ? <div className="w-4 h-4 border-2 border-[#4DA3FF]/20 border-t-[#4DA3FF] rounded-full animate-spin"></div>
+                  : <span className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF]">Download</span>}
+              </button>
+            ))}
+          </div>
+          <h4 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Transcript</h4>
+          <div className="grid grid-cols-3 gap-2">
+            {(['srt', 'vtt', 'txt'] as TranscriptFormat[]).map(format => (
+              <button key={format} onClick={() => handleExportTranscript(format)} disabled={transcript.length === 0} className="bg-[#111214] border border-white/5 py-4 rounded-[20px] text-[10px] font-black uppercase tracking-widest text-white active:scale-95 transition-all disabled:opacity-20">{format}</button>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Citation, Notebook } from '../types';
+import { describeLocation } from '../services/citations';
+
+interface CitationExcerptProps {
+  notebook: Notebook;
+  citation: Citation;
+}
+
+/**
+ * 📎 CITATION EXCERPT
+ * Source line plus the cited passage, for study tools that show where an
+ * answer comes from.
+ */
+const CitationExcerpt: React.FC<CitationExcerptProps> = ({ notebook, citation }) => {
+  const source = notebook.sources.find(s => s.id === citation.sourceId);
+  return (
+    <div>
+      <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.3em] mb-1 truncate">
+        {citation.sourceTitle}{describeLocation(citation) ? ` · ${describeLocation(citation)}` : ''}
+      </div>
+      {source
+        ? <p className="text-[12px] leading-[19px] text-zinc-400 font-tech whitespace-pre-wrap">{source.content.slice(citation.start, citation.end).trim()}</p>
+        : <p className="text-zinc-600 text-[9px] font-black uppercase tracking-[0.2em] italic">Cited source is no longer in this vault.</p>}
+    </div>
+  );
+};
+
+export default CitationExcerpt;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { GeneratedMedia, MediaJobOptions, Notebook, PodcastJob } from '../types';
+import { AnkiFormat, DEFAULT_FLASHCARD_COUNT, FLASHCARD_COUNTS, toAnkiText } from '../services/flashcards';
+import { dueCards } from '../services/spacedRepetition';
+import { isMediaJobRunning } from '../services/mediaJobRunner';
+import { downloadBlob, toFileName } from '../utils/download';
+import FlashcardReview from './FlashcardReview';
+
+interface FlashcardDecksProps {
+  notebook: Notebook;
+  /** Newest flashcard job of this notebook, if any. */
+  job?: PodcastJob;
+  onGenerate: (options: MediaJobOptions) => void;
+  onCancelJob?: (jobId: string) => void;
+  onUpdateMedia: (mediaId: string, updates: Partial<GeneratedMedia>) => void;
+}
+
+/**
+ * 🃏 FLASHCARD DECKS
+ * Studio section for generating decks, reviewing what is due and exporting
+ * a deck for Anki.
+ */
+const FlashcardDecks: React.FC<FlashcardDecksProps> = ({ notebook, job, onGenerate, onCancelJob, onUpdateMedia }) => {
+  const [count, setCount] = useState(DEFAULT_FLASHCARD_COUNT);
+  const [focus, setFocus] = useState('');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const decks = (notebook.generatedMedia || []).filter(m => m.type === 'FLASHCARDS' && m.flashcards);
+  const reviewing = decks.find(d => d.id === reviewingId);
+  const generating = isMediaJobRunning(job);
+
+  const handleExport = (deck: GeneratedMedia, format: AnkiFormat) => {
+    const text = toAnkiText(deck.flashcards!, format, toFileName(notebook.title, 'axiom'));
+    downloadBlob(new Blob([text], { type: format === 'csv' ? 'text/csv' : 'text/tab-separated-values' }), `${toFileName(deck.title, 'flashcards')}.${format}`);
+  };
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Flashcards</h3>
+      <div className="bg-[#111214] p-5 rounded-[28px] border border-white/5 mb-2">
+        <div className="flex gap-2 mb-3">
+          {FLASHCARD_COUNTS.map(n => (
+            <button key={n} onClick={() => setCount(n)} disabled={generating} className={`flex-1 py-2 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${count === n ? 'bg-[#4DA3FF]/10 border-[#4DA3FF] text-white' : 'bg-white/5 border-white/5 text-zinc-400'}`}>{n} cards</button>
+          ))}
+        </div>
+        <input
+          type="text" placeholder="Focus (optional), e.g. key definitions"
+          value={focus} onChange={(e) => setFocus(e.target.value)}
+          disabled={generating}
+          className="w-full bg-white/5 border border-white/5 rounded-xl p-3 text-white text-xs outline-none mb-4 font-tech"
+        />
+        <button onClick={() => onGenerate({ count, focus: focus.trim() || undefined })} disabled={generating} className="w-full bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all disabled:opacity-20">
+          {generating ? (job!.state === 'QUEUED' ? 'Queued...' : 'Writing cards...') : 'Generate Deck'}
+        </button>
+        {generating && onCancelJob && (
+          <div className="flex justify-end mt-3">
+            <button onClick={() => onCancelJob(job!.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:scale-95 transition-all">Cancel</button>
+          </div>
+        )}
+        {job?.state === 'FAILED' && <p className="text-[9px] font-black uppercase tracking-[0.2em] text-red-400 mt-3">{job.error || 'The deck could not be generated.'}</p>}
+      </div>
+
+      {decks.map(deck => {
+        const due = dueCards(deck.flashcards!).length;
+        return (
+          <div key={deck.id} className="bg-[#111214] border border-white/5 p-4 rounded-[20px] mb-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="overflow-hidden">
+                <div className="text-white text-sm font-bold font-tech truncate">{deck.title}</div>
+                <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-0.5">
+                  {deck.flashcards!.length} cards · <span className={due ? 'text-[#4DA3FF]' : ''}>{due} due</span>
+                </div>
+              </div>
+              <button onClick={() => setReviewingId(deck.id)} className="shrink-0 bg-white/5 text-white px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-[0.2em] active:scale-95 transition-all">Review</button>
+            </div>
+            <div className="flex items-center gap-4 mt-3">
+              <span className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600">Anki</span>
+              <button onClick={() => handleExport(deck, 'csv')} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">CSV</button>
+              <button onClick={() => handleExport(deck, 'tsv')} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">TSV</button>
+            </div>
+          </div>
+        );
+      })}
+
+      {reviewing && (
+        <FlashcardReview
+          notebook={notebook}
+          deck={reviewing}
+          onUpdate={(updates) => onUpdateMedia(reviewing.id, updates)}
+          onClose={() => setReviewingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FlashcardDecks;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { CardReview, Flashcard, GeneratedMedia, Notebook, ReviewGrade } from '../types';
+import { REVIEW_BUTTONS, applyReview, dueCards, formatInterval, scheduleReview } from '../services/spacedRepetition';
+import CitationExcerpt from './CitationExcerpt';
+
+interface FlashcardReviewProps {
+  notebook: Notebook;
+  deck: GeneratedMedia;
+  onUpdate: (updates: Partial<GeneratedMedia>) => void;
+  onClose: () => void;
+}
+
+/**
+ * 🃏 FLASHCARD REVIEW
+ * One session over the cards due now. "Again" puts a card back at the end of
+ * the session so it comes round once more before the session ends; every
+ * answer is saved straight away.
+ */
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ notebook, deck, onUpdate, onClose }) => {
+  const [cards, setCards] = useState<Flashcard[]>(deck.flashcards || []);
+  const [log, setLog] = useState<CardReview[]>(deck.reviewLog || []);
+  const [queue, setQueue] = useState<string[]>(() => dueCards(deck.flashcards || []).map(c => c.id));
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const card = cards.find(c => c.id === queue[0]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    const next = applyReview(cards, log, card.id, grade);
+    setCards(next.cards);
+    setLog(next.log);
+    onUpdate({ flashcards: next.cards, reviewLog: next.log });
+    setQueue(prev => grade < 3 ? [...prev.slice(1), card.id] : prev.slice(1));
+    setReviewed(r => r + 1);
+    setRevealed(false);
+  };
+
+  const nextDue = cards.reduce<number | null>((soonest, c) => c.schedule && (soonest === null || c.schedule.dueAt < soonest) ? c.schedule.dueAt : soonest, null);
+
+  return (
+    <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+      <div className="flex items-center justify-between pt-4 mb-4 shrink-0">
+        <div className="overflow-hidden">
+          <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.3em] mb-1">{card ? `${queue.length} left · ${reviewed} reviewed` : 'Review'}</div>
+          <h3 className="text-white text-sm font-bold font-tech truncate">{deck.title}</h3>
+        </div>
+        <button onClick={onClose} className="p-2 text-white active:scale-90 transition-transform shrink-0">
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      {!card ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-center pb-24">
+          <div className="text-white text-base font-bold font-tech mb-2">All caught up</div>
+          <p className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500">
+            {nextDue ? `Next card due ${new Date(nextDue).toLocaleDateString([], { month: 'short', day: 'numeric' })}` : 'No cards in this deck'}
+          </p>
+          <button onClick={onClose} className="mt-8 bg-white text-black px-8 py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all">Done</button>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto no-scrollbar pb-6">
+            <button onClick={() => setRevealed(true)} disabled={revealed} className="w-full text-left bg-[#111214] border border-white/5 rounded-[28px] p-6 mb-4">
+              <div className="text-zinc-500 text-[9px] font-black uppercase tracking-[0.2em] mb-3">Question</div>
+              <p className="text-white text-[17px] leading-[26px] font-tech">{card.front}</p>
+              {!revealed && <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.2em] mt-6">Tap to show answer</div>}
+            </button>
+            {revealed && (
+              <div className="bg-[#111214] border border-[#4DA3FF]/30 rounded-[28px] p-6">
+                <div className="text-zinc-500 text-[9px] font-black uppercase tracking-[0.2em] mb-3">Answer</div>
+                <p className="text-white text-[15px] leading-[24px] font-tech mb-5">{card.back}</p>
+                <CitationExcerpt notebook={notebook} citation={card.citation} />
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-4 gap-2 pb-10 shrink-0">
+            {REVIEW_BUTTONS.map(b => (
+              <button key={b.label} onClick={() => handleGrade(b.grade)} disabled={!revealed} className={`flex flex-col items-center py-3 rounded-2xl border transition-all active:scale-95 disabled:opacity-20 ${b.grade < 3 ? 'border-red-500/30 text-red-400' : 'border-white/10 text-white'} bg-[#111214]`}>
+                <span className="text-[10px] font-black uppercase tracking-widest">{b.label}</span>
+                <span className="text-[9px] font-tech text-zinc-500 mt-1">{formatInterval(scheduleReview(card.schedule, b.grade).intervalDays)}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardReview;
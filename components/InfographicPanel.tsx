@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { GeneratedMedia, MediaJobOptions, Notebook, PodcastJob } from '../types';
+import { isMediaJobRunning } from '../services/mediaJobRunner';
+import { rasterizeSvg, renderInfographicSvg } from '../services/infographicSvg';
+import { downloadBlob, toFileName } from '../utils/download';
+import InfographicViewer from './InfographicViewer';
+
+interface InfographicPanelProps {
+  notebook: Notebook;
+  /** Newest infographic job of this notebook, if any. */
+  job?: PodcastJob;
+  onGenerate: (options: MediaJobOptions) => void;
+  onCancelJob?: (jobId: string) => void;
+}
+
+/**
+ * 📊 INFOGRAPHICS
+ * Studio section for extracting cited figures, comparisons and timelines
+ * into an infographic, viewing it and downloading SVG or PNG.
+ */
+const InfographicPanel: React.FC<InfographicPanelProps> = ({ notebook, job, onGenerate, onCancelJob }) => {
+  const [focus, setFocus] = useState('');
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const items = (notebook.generatedMedia || []).filter(m => m.type === 'INFOGRAPHIC' && m.infographic);
+  const viewing = items.find(m => m.id === viewingId);
+  const generating = isMediaJobRunning(job);
+
+  const handleExport = async (item: GeneratedMedia, format: 'svg' | 'png') => {
+    if (exporting) return;
+    setExporting(true);
+    try {
+      const rendered = renderInfographicSvg(item.infographic!);
+      const blob = format === 'svg' ? new Blob([rendered.svg], { type: 'image/svg+xml' }) : await rasterizeSvg(rendered);
+      downloadBlob(blob, `${toFileName(item.title, 'infographic')}.${format}`);
+    } catch (e) {
+      console.warn("Infographic export failed", e);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Infographics</h3>
+      <div className="bg-[#111214] p-5 rounded-[28px] border border-white/5 mb-2">
+        <input
+          type="text" placeholder="Focus (optional), e.g. market growth"
+          value={focus} onChange={(e) => setFocus(e.target.value)}
+          disabled={generating}
+          className="w-full bg-white/5 border border-white/5 rounded-xl p-3 text-white text-xs outline-none mb-4 font-tech"
+        />
+        <button onClick={() => onGenerate({ focus: focus.trim() || undefined })} disabled={generating} className="w-full bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all disabled:opacity-20">
+          {generating ? (job!.state === 'QUEUED' ? 'Queued...' : 'Extracting figures...') : 'Generate Infographic'}
+        </button>
+        {generating && onCancelJob && (
+          <div className="flex justify-end mt-3">
+            <button onClick={() => onCancelJob(job!.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:scale-95 transition-all">Cancel</button>
+          </div>
+        )}
+        {job?.state === 'FAILED' && <p className="text-[9px] font-black uppercase tracking-[0.2em] text-red-400 mt-3">{job.error || 'The infographic could not be generated.'}</p>}
+      </div>
+
+      {items.map(item => {
+        const spec = item.infographic!;
+        return (
+          <div key={item.id} className="bg-[#111214] border border-white/5 p-4 rounded-[20px] mb-2">
+            <div className="text-white text-sm font-bold font-tech truncate">{item.title}</div>
+            <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-0.5">
+              {spec.stats.length} figures · {spec.comparisons.length} charts · {spec.timeline.length} events
+            </div>
+            <div className="flex items-center gap-4 mt-2">
+              <button onClick={() => setViewingId(item.id)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] active:scale-95 transition-all">View</button>
+              <button onClick={() => handleExport(item, 'svg')} disabled={exporting} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors disabled:opacity-30">SVG</button>
+              <button onClick={() => handleExport(item, 'png')} disabled={exporting} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors disabled:opacity-30">PNG</button>
+            </div>
+          </div>
+        );
+      })}
+
+      {viewing && (
+        <InfographicViewer
+          notebook={notebook}
+          media={viewing}
+          exporting={exporting}
+          onExport={(format) => handleExport(viewing, format)}
+          onClose={() => setViewingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default InfographicPanel;
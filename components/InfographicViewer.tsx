@@ -0,0 +1,61 @@
+import React, { useEffect, useMemo } from 'react';
+import { GeneratedMedia, Notebook } from '../types';
+import { infographicSources } from '../services/infographic';
+import { renderInfographicSvg } from '../services/infographicSvg';
+import CitationExcerpt from './CitationExcerpt';
+
+interface InfographicViewerProps {
+  notebook: Notebook;
+  media: GeneratedMedia;
+  exporting: boolean;
+  onExport: (format: 'svg' | 'png') => void;
+  onClose: () => void;
+}
+
+/**
+ * 📊 INFOGRAPHIC VIEWER
+ * Full-screen infographic with the passages behind its numbered sources.
+ */
+const InfographicViewer: React.FC<InfographicViewerProps> = ({ notebook, media, exporting, onExport, onClose }) => {
+  const rendered = useMemo(() => renderInfographicSvg(media.infographic!), [media.infographic]);
+  const src = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(rendered.svg)}`, [rendered]);
+  const sources = infographicSources(media.infographic!);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+      <div className="flex items-center justify-between pt-4 mb-4 shrink-0">
+        <div className="overflow-hidden">
+          <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.3em] mb-1">Infographic</div>
+          <h3 className="text-white text-sm font-bold font-tech truncate">{media.title}</h3>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <button onClick={() => onExport('svg')} disabled={exporting} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors disabled:opacity-30">SVG</button>
+          <button onClick={() => onExport('png')} disabled={exporting} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors disabled:opacity-30">PNG</button>
+          <button onClick={onClose} className="p-2 text-white active:scale-90 transition-transform">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto no-scrollbar pb-16">
+        <img src={src} alt={media.title} className="w-full h-auto rounded-2xl border border-white/10 mb-6" />
+        <h4 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Sources</h4>
+        <div className="flex flex-col gap-2">
+          {sources.map((c, i) => (
+            <div key={c.label} className="bg-[#111214] border border-white/5 rounded-[20px] p-4 flex gap-3">
+              <span className="text-white text-[12px] font-black font-tech shrink-0">[{i + 1}]</span>
+              <div className="overflow-hidden"><CitationExcerpt notebook={notebook} citation={c} /></div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InfographicViewer;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { JobPriority, Notebook, PodcastJob, PodcastJobState } from '../types';
+import { JOB_PRIORITIES, MAX_JOB_CONCURRENCY } from '../services/jobScheduler';
+import { isResumable, isRestartable } from '../services/podcastJobRunner';
+
+interface JobsPanelProps {
+  jobs: PodcastJob[];
+  notebooks: Notebook[];
+  activeNotebookId: string | null;
+  /** Waiting job ids in start order. */
+  queuedIds: string[];
+  concurrency: number;
+  onClose: () => void;
+  onCancel: (jobId: string) => void;
+  onResume: (jobId: string) => void;
+  onSetPriority: (jobId: string, priority: JobPriority) => void;
+  onSetConcurrency: (concurrency: number) => void;
+  onOpenNotebook: (notebookId: string) => void;
+}
+
+const STATE_LABELS: Record<PodcastJobState, string> = {
+  QUEUED: 'Queued',
+  PREFLIGHT: 'Preparing',
+  OUTLINING: 'Outlining',
+  SCRIPTING: 'Scripting',
+  SYNTHESIZING: 'Synthesizing',
+  FINALIZING: 'Finalizing',
+  READY: 'Ready',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+  INDEXING: 'Indexing',
+};
+
+const MEDIA_LABELS: Record<string, string> = {
+  AUDIO: 'Audio Overview',
+  FLASHCARDS: 'Flashcards',
+  QUIZ: 'Quiz',
+  INFOGRAPHIC: 'Infographic',
+  SLIDE_DECK: 'Slide Deck',
+};
+
+const STATE_COLORS: Partial<Record<PodcastJobState, string>> = {
+  READY: 'text-emerald-400',
+  FAILED: 'text-red-400',
+  CANCELLED: 'text-zinc-500',
+};
+
+const isFinished = (j: PodcastJob) => j.state === 'READY' || j.state === 'FAILED' || j.state === 'CANCELLED';
+
+/**
+ * 🗂️ JOBS PANEL
+ * Every generation job across notebooks: running and waiting work first,
+ * then each notebook's history, newest first.
+ */
+const JobsPanel: React.FC<JobsPanelProps> = ({ jobs, notebooks, activeNotebookId, queuedIds, concurrency, onClose, onCancel, onResume, onSetPriority, onSetConcurrency, onOpenNotebook }) => {
+  const titleOf = (notebookId: string) => notebooks.find(n => n.id === notebookId)?.title || 'Deleted notebook';
+
+  const inFlight = jobs
+    .filter(j => !isFinished(j))
+    .sort((a, b) => {
+      const qa = queuedIds.indexOf(a.jobId);
+      const qb = queuedIds.indexOf(b.jobId);
+      // Running jobs (not in the queue) first, then the queue in start order.
+      if ((qa === -1) !== (qb === -1)) return qa === -1 ? -1 : 1;
+      return qa - qb || a.createdAt - b.createdAt;
+    });
+
+  const history = new Map<string, PodcastJob[]>();
+  jobs.filter(isFinished).sort((a, b) => b.createdAt - a.createdAt).forEach(j => {
+    history.set(j.notebookId, [...(history.get(j.notebookId) || []), j]);
+  });
+  const historyOrder = Array.from(history.keys()).sort((a, b) => (a === activeNotebookId ? -1 : b === activeNotebookId ? 1 : 0));
+
+  const renderJob = (job: PodcastJob, showNotebook: boolean) => {
+    const queuePosition = queuedIds.indexOf(job.jobId);
+    const running = !isFinished(job) && queuePosition === -1;
+    const priority = job.priority || 'normal';
+    const nextPriority = JOB_PRIORITIES[(JOB_PRIORITIES.indexOf(priority) + 1) % JOB_PRIORITIES.length];
+    const detail = queuePosition >= 0
+      ? `#${queuePosition + 1} in queue`
+      : running && job.totalChunks ? `Part ${Math.min(job.completedChunks + 1, job.totalChunks)} of ${job.totalChunks}` : '';
+
+    return (
+      <div key={job.jobId} className="bg-[#111214] border border-white/5 p-4 rounded-[20px]">
+        <div className="flex items-center justify-between gap-3">
+          <div className="overflow-hidden">
+            <div className="text-white text-sm font-bold font-tech truncate">{MEDIA_LABELS[job.mediaType || 'AUDIO']}</div>
+            <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-0.5 truncate">
+              {showNotebook && <button onClick={() => onOpenNotebook(job.notebookId)} className="text-zinc-400 underline mr-1">{titleOf(job.notebookId)}</button>}
+              {showNotebook && '· '}{new Date(job.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </div>
+          </div>
+          <span className={`text-[9px] font-black uppercase tracking-[0.2em] shrink-0 ${STATE_COLORS[job.state] || 'text-[#4DA3FF]'}`}>{STATE_LABELS[job.state]}</span>
+        </div>
+        {running && (
+          <div className="h-[2px] bg-white/5 rounded-full mt-3 overflow-hidden">
+            <div className="h-full bg-[#4DA3FF] transition-all duration-500 shadow-[0_0_10px_#4DA3FF]" style={{ width: `${job.progress * 100}%` }} />
+          </div>
+        )}
+        {job.state === 'FAILED' && job.error && <p className="text-[12px] font-tech leading-[1.5] text-zinc-400 mt-2">{job.error}</p>}
+        <div className="flex items-center gap-4 mt-3 empty:hidden">
+          {detail && <span className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500">{detail}</span>}
+          {queuePosition >= 0 && (
+            <button onClick={() => onSetPriority(job.jobId, nextPriority)} className={`text-[9px] font-black uppercase tracking-[0.2em] px-2 py-1 rounded-full border active:scale-95 transition-all ${priority === 'high' ? 'border-[#4DA3FF] text-[#4DA3FF]' : 'border-white/10 text-zinc-400'}`}>{priority} priority</button>
+          )}
+          {!isFinished(job) && <button onClick={() => onCancel(job.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:scale-95 transition-all ml-auto">Cancel</button>}
+          {isRestartable(job) && (
+            <button onClick={() => onResume(job.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] active:scale-95 transition-all ml-auto">
+              {isResumable(job) && job.completedChunks > 0 ? `Resume from part ${job.completedChunks + 1}` : 'Retry'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+      <div className="flex items-center justify-between pt-4 mb-4 shrink-0">
+        <h3 className="text-[15px] font-axiom font-bold tracking-widest text-white uppercase">Jobs</h3>
+        <button onClick={onClose} className="p-2 text-white active:scale-90 transition-transform">
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between bg-[#111214] border border-white/5 rounded-[20px] px-4 py-3 mb-6 shrink-0">
+        <span className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400">Run at once</span>
+        <div className="flex items-center gap-3">
+          <button onClick={() => onSetConcurrency(concurrency - 1)} disabled={concurrency <= 1} className="w-7 h-7 rounded-full bg-white/5 text-white font-black disabled:opacity-20 active:scale-90 transition-all">−</button>
+          <span className="text-white text-sm font-bold font-tech w-4 text-center">{concurrency}</span>
+          <button onClick={() => onSetConcurrency(concurrency + 1)} disabled={concurrency >= MAX_JOB_CONCURRENCY} className="w-7 h-7 rounded-full bg-white/5 text-white font-black disabled:opacity-20 active:scale-90 transition-all">+</button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar pb-10">
+        <h4 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">In progress</h4>
+        <div className="flex flex-col gap-2 mb-8">
+          {inFlight.length === 0
+            ? <p className="text-[12px] font-tech text-zinc-600">Nothing running.</p>
+            : inFlight.map(j => renderJob(j, true))}
+        </div>
+
+        {historyOrder.map(notebookId => (
+          <div key={notebookId} className="mb-8">
+            <button onClick={() => onOpenNotebook(notebookId)} className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3 truncate max-w-full text-left active:text-white transition-colors">{titleOf(notebookId)}</button>
+            <div className="flex flex-col gap-2">
+              {history.get(notebookId)!.map(j => renderJob(j, false))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default JobsPanel;
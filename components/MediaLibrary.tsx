@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedMedia, Notebook } from '../types';
+import { MEDIA_TYPES, MEDIA_UNDO_MS, describeMedia, isMediaStale } from '../services/mediaLibrary';
+
+interface MediaLibraryProps {
+  notebook: Notebook;
+  /** Types with a job in flight; their items cannot be regenerated until it ends. */
+  busyTypes: GeneratedMedia['type'][];
+  onPlay: (mediaId: string) => void;
+  onRename: (mediaId: string, title: string) => void;
+  onDelete: (mediaId: string) => void;
+  onRestore: (media: GeneratedMedia, position: number) => void;
+  onDuplicate: (mediaId: string) => void;
+  onRegenerate: (mediaId: string) => void;
+}
+
+/**
+ * 🗃️ LIBRARY
+ * Every generated item of the notebook by type. Audio overviews play from
+ * here, including ones older than the latest job. A delete can be undone
+ * until its toast goes away.
+ */
+const MediaLibrary: React.FC<MediaLibraryProps> = ({ notebook, busyTypes, onPlay, onRename, onDelete, onRestore, onDuplicate, onRegenerate }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [lastDeleted, setLastDeleted] = useState<{ media: GeneratedMedia; position: number } | null>(null);
+
+  const media = notebook.generatedMedia || [];
+  const groups = MEDIA_TYPES.map(t => ({ ...t, items: media.filter(m => m.type === t.type) })).filter(g => g.items.length > 0);
+
+  useEffect(() => {
+    if (lastDeleted) {
+      const timer = setTimeout(() => setLastDeleted(null), MEDIA_UNDO_MS);
+      return () => clearTimeout(timer);
+    }
+  }, [lastDeleted]);
+
+  const handleDelete = (item: GeneratedMedia) => {
+    setLastDeleted({ media: item, position: media.findIndex(m => m.id === item.id) });
+    onDelete(item.id);
+  };
+
+  const handleUndoDelete = () => {
+    if (!lastDeleted) return;
+    onRestore(lastDeleted.media, lastDeleted.position);
+    setLastDeleted(null);
+  };
+
+  const commitRename = () => {
+    const item = media.find(m => m.id === renamingId);
+    if (item && renameValue.trim() && renameValue.trim() !== item.title) onRename(item.id, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Library</h3>
+      {groups.length === 0 && (
+        <div className="bg-[#111214] p-5 rounded-[28px] border border-white/5 text-zinc-600 text-[9px] font-black uppercase tracking-[0.2em] text-center italic">Nothing generated yet.</div>
+      )}
+      {groups.map(group => (
+        <div key={group.type} className="mb-4">
+          <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mb-2 px-1">{group.label} · {group.items.length}</div>
+          {group.items.map(item => {
+            const playable = item.type === 'AUDIO' && !!item.audioBase64;
+            const stale = isMediaStale(notebook, item);
+            return (
+              <div key={item.id} className="bg-[#111214] border border-white/5 p-4 rounded-[20px] mb-2">
+                <div className="flex items-center gap-3">
+                  <div className={`flex-1 overflow-hidden ${playable ? 'cursor-pointer' : ''}`} onClick={() => playable && renamingId !== item.id && onPlay(item.id)}>
+                    {renamingId === item.id ? (
+                      <input
+                        autoFocus value={renameValue} onChange={(e) => setRenameValue(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                        className="w-full bg-white/5 border border-[#4DA3FF]/40 rounded-lg px-2 py-0.5 font-bold text-sm text-zinc-100 font-tech outline-none"
+                      />
+                    ) : (
+                      <div className="text-white text-sm font-bold font-tech truncate">{item.title}</div>
+                    )}
+                    <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-0.5 truncate">
+                      {[describeMedia(item), new Date(item.createdAt).toLocaleDateString()].filter(Boolean).join(' · ')}
+                      {stale && <span className="text-amber-400/80"> · Sources changed</span>}
+                    </div>
+                  </div>
+                  {playable && (
+                    <button onClick={() => onPlay(item.id)} title="Play" className="w-9 h-9 rounded-full bg-white text-black flex items-center justify-center active:scale-90 transition-all shrink-0">
+                      <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor"><polygon points="6 4 20 12 6 20 6 4"/></svg>
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-4 mt-3">
+                  <button onClick={() => onRegenerate(item.id)} disabled={busyTypes.includes(item.type)} className={`text-[9px] font-black uppercase tracking-[0.2em] active:scale-95 transition-all disabled:opacity-30 ${stale ? 'text-[#4DA3FF]' : 'text-zinc-400'}`}>Regenerate</button>
+                  <button onClick={() => { setRenamingId(item.id); setRenameValue(item.title); }} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">Rename</button>
+                  <button onClick={() => onDuplicate(item.id)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">Duplicate</button>
+                  <button onClick={() => handleDelete(item)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-red-400 transition-colors ml-auto">Delete</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+      {lastDeleted && (
+        <div className="fixed bottom-40 left-0 right-0 flex justify-center z-40 px-6">
+          <div className="bg-[#111214] border border-white/10 rounded-full pl-5 pr-2 py-2 flex items-center gap-4 shadow-2xl max-w-sm w-full">
+            <span className="flex-1 text-[10px] font-tech text-zinc-300 truncate">Removed "{lastDeleted.media.title}"</span>
+            <button onClick={handleUndoDelete} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] px-3 py-2 active:scale-95 transition-all">Undo</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaLibrary;
@@ -1,7 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Notebook, Tab, Message, Source } from '../types';
+import { Notebook, Tab, Message, Source, Citation, SourceExtractor, ChatThread, Note } from '../types';
 import { GeminiService, SearchResult } from '../services/geminiService';
+import { CITATION_MARKER, describeLocation } from '../services/citations';
+import { extractPdf } from '../services/pdfExtraction';
+import { ingestUrl } from '../services/urlIngestion';
+import { ingestYouTube } from '../services/youtubeTranscript';
+import { transcribeAudioFile, createGeminiTranscriptionProvider } from '../services/audioTranscription';
+import { ingestImage } from '../services/imageIngestion';
+import { isGroundingSource } from '../services/retrieval';
+import { createNoteFromMessage, pruneCitations } from '../services/notes';
+import { regenerationTarget } from '../services/chatMemory';
+import { formatTimestamp } from '../utils/timecode';
 import AudioStudio from './AudioStudio';
 
 interface NotebookDetailProps {
@@ -9,7 +19,19 @@ interface NotebookDetailProps {
   onBack: () => void;
   activeTab: Tab;
   setActiveTab: (tab: Tab) => void;
-  onAddSource: (source: Source) => void;
+  onAddSource: (source: Source, extract?: SourceExtractor) => void;
+  onRetrySource: (sourceId: string) => void;
+  onCancelSource: (sourceId: string) => void;
+  onEditSource: (sourceId: string, updates: Partial<Pick<Source, 'title' | 'content' | 'excluded'>>) => void;
+  onDeleteSource: (sourceId: string) => void;
+  onRestoreSource: (source: Source, position: number) => void;
+  onCreateThread: (thread: ChatThread) => void;
+  onUpdateThread: (threadId: string, updates: Partial<ChatThread>) => void;
+  onDeleteThread: (threadId: string) => void;
+  onCreateNote: (note: Note) => void;
+  onUpdateNote: (noteId: string, updates: Partial<Note>) => void;
+  onDeleteNote: (noteId: string) => void;
+  onConvertNote: (noteId: string) => void;
   onUpdateSummary: (notebookId: string, summary: string) => void;
   onSetGeneratingSummary: (notebookId: string, isGenerating: boolean) => void;
 }
@@ -113,10 +135,36 @@ export function parseMarkdownLite(input: string): Block[] {
   return blocks;
 }
 
+/**
+ * 🔗 INLINE CITATIONS
+ * Replaces `[S2:p4]` markers with tappable chips. Markers without a matching
+ * citation are left out rather than rendered as raw brackets.
+ */
+function renderInline(text: string, citations?: Citation[], onCitationClick?: (citation: Citation) => void) {
+  if (!citations) return text;
+  const byLabel = new Map(citations.map(c => [c.label, c]));
+  const parts = text.split(CITATION_MARKER);
+  return parts.map((part, i) => {
+    if (i % 2 === 0) return part;
+    const citation = byLabel.get(part);
+    if (!citation) return null;
+    return (
+      <button
+        key={i}
+        onClick={() => onCitationClick?.(citation)}
+        title={describeLocation(citation) ? `${citation.sourceTitle}, ${describeLocation(citation)}` : citation.sourceTitle}
+        className="inline-flex items-center mx-0.5 px-1.5 py-[1px] rounded-full bg-[#4DA3FF]/15 border border-[#4DA3FF]/30 text-[#4DA3FF] text-[9px] font-black font-tech tracking-wider align-middle active:scale-90 transition-transform"
+      >
+        {citation.label.replace(':', ' · ')}
+      </button>
+    );
+  });
+}
+
 /**
  * ✅ REACT RENDERER
  */
-export function RichText({ content }: { content: string }) {
+export function RichText({ content, citations, onCitationClick }: { content: string; citations?: Citation[]; onCitationClick?: (citation: Citation) => void }) {
   const blocks = parseMarkdownLite(content);
 
   return (
@@ -135,7 +183,7 @@ export function RichText({ content }: { content: string }) {
           const text = block.text.length > 500 ? block.text.slice(0, 500) + '...' : block.text;
           return (
             <div key={i} style={Typography.body}>
-              {text}
+              {renderInline(text, citations, onCitationClick)}
             </div>
           );
         }
@@ -145,7 +193,7 @@ export function RichText({ content }: { content: string }) {
             <div key={i} style={{ marginBottom: '10px' }}>
               {block.items.map((item, j) => (
                 <div key={j} style={Typography.listItem}>
-                  • {item}
+                  • {renderInline(item, citations, onCitationClick)}
                 </div>
               ))}
             </div>
@@ -158,16 +206,49 @@ export function RichText({ content }: { content: string }) {
   );
 }
 
+const THREAD_TITLE_CHARS = 48;
+
+const latestThreadId = (notebook: Notebook): string | null =>
+  (notebook.threads || []).reduce<ChatThread | null>((latest, t) => !latest || t.updatedAt > latest.updatedAt ? t : latest, null)?.id || null;
+
+const isSettled = (s: Source) => !s.status || s.status === 'indexed' || s.status === 'failed';
+
+const describeSourceStatus = (s: Source): string => {
+  if (s.status === 'queued') return 'Queued';
+  if (s.status === 'indexing') return 'Indexing...';
+  const verb = s.type === 'audio' ? 'Transcribing' : s.type === 'image' ? 'Reading image' : 'Extracting';
+  return `${verb}${s.progress !== undefined ? ` ${Math.round(s.progress * 100)}%` : '...'}`;
+};
+
 const NotebookDetail: React.FC<NotebookDetailProps> = ({ 
   notebook, 
   onBack, 
   activeTab, 
   setActiveTab, 
   onAddSource,
+  onRetrySource,
+  onCancelSource,
+  onEditSource,
+  onDeleteSource,
+  onRestoreSource,
+  onCreateThread,
+  onUpdateThread,
+  onDeleteThread,
+  onCreateNote,
+  onUpdateNote,
+  onDeleteNote,
+  onConvertNote,
   onUpdateSummary,
   onSetGeneratingSummary
 }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const threads = notebook.threads || [];
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(() => latestThreadId(notebook));
+  const [draft, setDraft] = useState<{ threadId: string; messages: Message[] } | null>(null);
+  const [showThreadList, setShowThreadList] = useState(false);
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null);
+  const [threadRenameValue, setThreadRenameValue] = useState('');
+  const activeThread = threads.find(t => t.id === activeThreadId) || null;
+  const messages = draft && draft.threadId === activeThreadId ? draft.messages : (activeThread?.messages || []);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [showAddSourceOverlay, setShowAddSourceOverlay] = useState(false);
@@ -180,46 +261,203 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
   const [activeModal, setActiveModal] = useState<'WEBSITE' | 'YOUTUBE' | 'TEXT' | null>(null);
   const [modalValue, setModalValue] = useState('');
   const [modalTitle, setModalTitle] = useState('');
+  const [captionsFile, setCaptionsFile] = useState<File | null>(null);
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  const [renamingSourceId, setRenamingSourceId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [editingSource, setEditingSource] = useState<Source | null>(null);
+  const [editorValue, setEditorValue] = useState('');
+  const [lastDeleted, setLastDeleted] = useState<{ source: Source; position: number } | null>(null);
+  const notes = notebook.notes || [];
+  const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [noteTitle, setNoteTitle] = useState('');
+  const [noteBody, setNoteBody] = useState('');
+  const [notePreview, setNotePreview] = useState(true);
+  const [savedMessageKeys, setSavedMessageKeys] = useState<Set<string>>(new Set());
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const citedPassageRef = useRef<HTMLElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
   const gemini = useRef(new GeminiService());
 
-  const indexedSourceCount = notebook.sources.length;
+  const indexedSourceCount = notebook.sources.filter(isGroundingSource).length;
   const summaryReady = indexedSourceCount > 0;
   const summaryExists = !!notebook.summary && notebook.summary.trim().length > 20 && !notebook.summary.includes('Add sources');
 
-  useEffect(() => {
-    if (summaryReady && !summaryExists && !notebook.isGeneratingSummary) {
-      const autoSummary = async () => {
-        onSetGeneratingSummary(notebook.id, true);
-        try {
-          const newSummary = await gemini.current.generateSummary(notebook);
-          onUpdateSummary(notebook.id, newSummary);
-        } catch (e) {
-          onSetGeneratingSummary(notebook.id, false);
-        }
-      };
-      autoSummary();
+  const handleRefreshSummary = async () => {
+    onSetGeneratingSummary(notebook.id, true);
+    try {
+      const newSummary = await gemini.current.generateSummary(notebook);
+      onUpdateSummary(notebook.id, newSummary);
+    } catch (e) {
+      onSetGeneratingSummary(notebook.id, false);
     }
+  };
+
+  useEffect(() => {
+    if (summaryReady && !summaryExists && !notebook.isGeneratingSummary) handleRefreshSummary();
   }, [summaryReady, summaryExists, notebook.id, notebook.isGeneratingSummary]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isTyping) return;
-    const userMsg = input.trim();
-    setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
+  /**
+   * Streams a reply into a model message appended to the thread. Stopping
+   * keeps whatever arrived; a reply stopped before any text is dropped.
+   * `history` is the thread as it stood before `query` was asked. The
+   * in-progress exchange lives in `draft` and is written to the thread once.
+   */
+  const streamAnswer = async (thread: ChatThread, query: string, history: Message[]) => {
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
     setIsTyping(true);
+    let current: Message[] = [...history, { role: 'user', text: query }, { role: 'model', text: '' }];
+    const updateLast = (updates: Partial<Message>) => {
+      current = current.map((m, i) => i === current.length - 1 ? { ...m, ...updates } : m);
+      setDraft({ threadId: thread.id, messages: current });
+    };
+    setDraft({ threadId: thread.id, messages: current });
 
     try {
-      const response = await gemini.current.generateChatResponse(notebook, userMsg);
-      setMessages(prev => [...prev, { role: 'model', text: response }]);
+      for await (const answer of gemini.current.streamChatResponse(notebook, query, history, controller.signal)) updateLast(answer);
+      if (controller.signal.aborted) {
+        if (current[current.length - 1].text) updateLast({ stopped: true });
+        else current = current.slice(0, -1);
+      }
     } catch (err: any) {
-      setMessages(prev => [...prev, { role: 'model', text: 'Error generating response.' }]);
+      updateLast({ text: 'Error generating response.', citations: [] });
     } finally {
+      onUpdateThread(thread.id, { messages: current, updatedAt: Date.now() });
+      setDraft(null);
+      chatAbortRef.current = null;
       setIsTyping(false);
     }
   };
 
+  const handleSend = async () => {
+    if (!input.trim() || isTyping) return;
+    const userMsg = input.trim();
+    setInput('');
+    let thread = activeThread;
+    if (!thread) {
+      thread = { id: `thread-${Date.now()}`, title: userMsg.slice(0, THREAD_TITLE_CHARS), createdAt: Date.now(), updatedAt: Date.now(), messages: [] };
+      onCreateThread(thread);
+      setActiveThreadId(thread.id);
+    }
+    await streamAnswer(thread, userMsg, messages);
+  };
+
+  const handleStop = () => chatAbortRef.current?.abort();
+
+  const handleRegenerate = async () => {
+    if (isTyping || !activeThread) return;
+    const target = regenerationTarget(messages);
+    if (!target) return;
+    await streamAnswer(activeThread, target.query, target.history);
+  };
+
+  const handleNewThread = () => {
+    setActiveThreadId(null);
+    setShowThreadList(false);
+  };
+
+  const handleBranchThread = (index: number) => {
+    if (!activeThread || isTyping) return;
+    const thread: ChatThread = {
+      id: `thread-${Date.now()}`,
+      title: `${activeThread.title} (branch)`.slice(0, THREAD_TITLE_CHARS + 9),
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      messages: messages.slice(0, index + 1),
+      branchedFrom: activeThread.id,
+    };
+    onCreateThread(thread);
+    setActiveThreadId(thread.id);
+  };
+
+  const handleSaveNote = (index: number) => {
+    const question = messages.slice(0, index).reverse().find(m => m.role === 'user')?.text;
+    onCreateNote(createNoteFromMessage(messages[index], question));
+    setSavedMessageKeys(prev => new Set(prev).add(`${activeThreadId}:${index}`));
+  };
+
+  const openNoteEditor = (note: Note) => {
+    setEditingNote(note);
+    setNoteTitle(note.title);
+    setNoteBody(note.content);
+    setNotePreview(true);
+  };
+
+  const handleSaveNoteEdits = () => {
+    if (!editingNote) return;
+    onUpdateNote(editingNote.id, {
+      title: noteTitle.trim() || editingNote.title,
+      content: noteBody,
+      citations: pruneCitations(noteBody, editingNote.citations),
+    });
+    setEditingNote(null);
+  };
+
+  const commitThreadRename = () => {
+    const thread = threads.find(t => t.id === renamingThreadId);
+    if (thread && threadRenameValue.trim() && threadRenameValue.trim() !== thread.title) onUpdateThread(thread.id, { title: threadRenameValue.trim() });
+    setRenamingThreadId(null);
+  };
+
+  const handleDeleteThread = (threadId: string) => {
+    if (isTyping && draft?.threadId === threadId) return;
+    onDeleteThread(threadId);
+    if (activeThreadId === threadId) setActiveThreadId(null);
+  };
+
+  useEffect(() => {
+    if (activeCitation) citedPassageRef.current?.scrollIntoView({ block: 'center' });
+  }, [activeCitation]);
+
+  useEffect(() => {
+    setActiveThreadId(latestThreadId(notebook));
+    setShowThreadList(false);
+  }, [notebook.id]);
+
+  useEffect(() => {
+    if (lastDeleted) {
+      const timer = setTimeout(() => setLastDeleted(null), 6000);
+      return () => clearTimeout(timer);
+    }
+  }, [lastDeleted]);
+
+  const handleDeleteSource = (source: Source) => {
+    setLastDeleted({ source, position: notebook.sources.findIndex(s => s.id === source.id) });
+    onDeleteSource(source.id);
+  };
+
+  const handleUndoDelete = () => {
+    if (!lastDeleted) return;
+    onRestoreSource(lastDeleted.source, lastDeleted.position);
+    setLastDeleted(null);
+  };
+
+  const startRename = (source: Source) => {
+    setRenamingSourceId(source.id);
+    setRenameValue(source.title);
+  };
+
+  const commitRename = () => {
+    const source = notebook.sources.find(s => s.id === renamingSourceId);
+    if (source && renameValue.trim() && renameValue.trim() !== source.title) onEditSource(source.id, { title: renameValue.trim() });
+    setRenamingSourceId(null);
+  };
+
+  const openSourceEditor = (source: Source) => {
+    // A note's source is rebuilt from the note, so edits go through the note.
+    const note = source.noteId ? notes.find(n => n.id === source.noteId) : undefined;
+    if (note) return openNoteEditor(note);
+    setEditingSource(source);
+    setEditorValue(source.content);
+  };
+
+  const handleSaveSourceContent = () => {
+    if (editingSource && editorValue.trim()) onEditSource(editingSource.id, { content: editorValue });
+    setEditingSource(null);
+  };
+
   const handleWebSearch = async () => {
     if (!searchQuery.trim() || isSearching) return;
     setIsSearching(true);
@@ -256,12 +494,10 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
   const handleAddSelectedSources = () => {
     const selected = searchResults.filter(r => selectedSearchUris.has(r.uri));
     selected.forEach(result => {
-      onAddSource({
-        id: Math.random().toString(36).substr(2, 9),
-        type: 'url',
-        title: result.title,
-        content: `Source content from ${result.uri}. Grounded content placeholder.`,
-      });
+      onAddSource(
+        { id: Math.random().toString(36).substr(2, 9), type: 'url', title: result.title, content: '', url: result.uri },
+        (_, signal) => ingestUrl(result.uri, { signal })
+      );
     });
     setSearchResults([]);
     setSelectedSearchUris(new Set());
@@ -271,18 +507,42 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
 
   const handleAddSourceComplete = () => {
     if (!modalValue.trim()) return;
-    let type: 'text' | 'url' | 'pdf' = 'text';
-    let title = modalTitle.trim() || modalValue.trim().substring(0, 30);
-    if (activeModal === 'WEBSITE' || activeModal === 'YOUTUBE') type = 'url';
-
-    onAddSource({
-      id: Math.random().toString(36).substr(2, 9),
-      type,
-      title,
-      content: modalValue,
-    });
+    let type: Source['type'] = 'text';
+    const customTitle = modalTitle.trim();
+    let title = customTitle || modalValue.trim().substring(0, 30);
+    if (activeModal === 'WEBSITE') type = 'url';
+    if (activeModal === 'YOUTUBE') type = 'youtube';
+
+    if (activeModal === 'YOUTUBE') {
+      const url = modalValue.trim();
+      const captions = captionsFile;
+      onAddSource(
+        { id: Math.random().toString(36).substr(2, 9), type, title: customTitle || 'YouTube video', content: '', url },
+        async (_, signal) => {
+          const transcript = await ingestYouTube(url, captions ? await captions.text() : undefined, { signal });
+          return customTitle ? transcript : { ...transcript, title: captions ? captions.name.replace(/\.(vtt|srt)$/i, '') : `YouTube ${transcript.videoId}` };
+        }
+      );
+    } else if (activeModal === 'WEBSITE') {
+      const url = modalValue.trim();
+      onAddSource(
+        { id: Math.random().toString(36).substr(2, 9), type, title, content: '', url },
+        async (_, signal) => {
+          const page = await ingestUrl(url, { signal });
+          return customTitle ? { ...page, title: customTitle } : page;
+        }
+      );
+    } else {
+      onAddSource({
+        id: Math.random().toString(36).substr(2, 9),
+        type,
+        title,
+        content: modalValue,
+      });
+    }
     setModalValue('');
     setModalTitle('');
+    setCaptionsFile(null);
     setActiveModal(null);
     setShowAddSourceOverlay(false);
   };
@@ -294,16 +554,36 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
       else fileInputRef.current.accept = 'image/*';
       
       fileInputRef.current.onchange = (e: any) => {
-        const file = e.target.files?.[0];
+        const file: File | undefined = e.target.files?.[0];
         if (file) {
-          onAddSource({
-            id: Math.random().toString(36).substr(2, 9),
-            type: type === 'PDF' ? 'pdf' : 'text',
-            title: file.name,
-            content: `Uploaded file placeholder: ${file.name}`,
-          });
+          const id = Math.random().toString(36).substr(2, 9);
+          if (type === 'PDF') {
+            onAddSource(
+              { id, type: 'pdf', title: file.name.replace(/\.pdf$/i, ''), content: '' },
+              async () => {
+                const { content, pages } = await extractPdf(await file.arrayBuffer());
+                return { content, pages };
+              }
+            );
+          } else if (type === 'Audio') {
+            onAddSource(
+              { id, type: 'audio', title: file.name.replace(/\.[^.]+$/, ''), content: '' },
+              async (reportProgress, signal) => transcribeAudioFile(
+                await file.arrayBuffer(),
+                createGeminiTranscriptionProvider(gemini.current),
+                reportProgress,
+                signal
+              )
+            );
+          } else {
+            onAddSource(
+              { id, type: 'image', title: file.name.replace(/\.[^.]+$/, ''), content: '' },
+              (_, signal) => ingestImage(file, gemini.current, signal)
+            );
+          }
           setShowAddSourceOverlay(false);
         }
+        e.target.value = '';
       };
       fileInputRef.current.click();
     }
@@ -340,8 +620,15 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
               className="w-full bg-white/5 border border-white/5 rounded-xl p-3 text-white text-xs outline-none mb-4 font-tech"
             />
           )}
+          {activeModal === 'YOUTUBE' && (
+            <label className="w-full flex items-center justify-between gap-3 bg-white/5 border border-dashed border-white/10 rounded-xl p-3 mb-4 cursor-pointer">
+              <span className="text-[10px] font-tech text-zinc-400 truncate">{captionsFile ? captionsFile.name : 'Captions file (.vtt / .srt, optional)'}</span>
+              <span className="text-[9px] font-black uppercase tracking-widest text-[#4DA3FF] shrink-0">{captionsFile ? 'Replace' : 'Attach'}</span>
+              <input type="file" accept=".vtt,.srt,text/vtt" className="hidden" onChange={(e) => setCaptionsFile(e.target.files?.[0] || null)} />
+            </label>
+          )}
           <div className="flex gap-3">
-            <button onClick={() => setActiveModal(null)} className="flex-1 py-3 text-zinc-500 font-bold text-[10px] uppercase tracking-widest">Abort</button>
+            <button onClick={() => { setActiveModal(null); setCaptionsFile(null); }} className="flex-1 py-3 text-zinc-500 font-bold text-[10px] uppercase tracking-widest">Abort</button>
             <button onClick={handleAddSourceComplete} disabled={!modalValue.trim()} className="flex-1 bg-white text-black py-3 rounded-full font-bold text-[10px] uppercase tracking-widest disabled:opacity-50 transition-all active:scale-95">Incorporate</button>
           </div>
         </div>
@@ -349,6 +636,131 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
     );
   };
 
+  /**
+   * Image sources are shown inline under the answer that cites them.
+   */
+  const renderCitedImages = (citations?: Citation[]) => {
+    const images = (citations || [])
+      .map(c => ({ citation: c, source: notebook.sources.find(s => s.id === c.sourceId) }))
+      .filter(({ source }, i, all) => source?.thumbnailUrl && all.findIndex(x => x.source?.id === source.id) === i);
+    if (images.length === 0) return null;
+    return (
+      <div className="flex gap-2 mt-1 mb-2 overflow-x-auto no-scrollbar">
+        {images.map(({ citation, source }) => (
+          <button key={source!.id} onClick={() => setActiveCitation(citation)} className="shrink-0 rounded-xl overflow-hidden border border-white/10 active:scale-95 transition-transform">
+            <img src={source!.thumbnailUrl} alt={source!.title} className="h-20 w-auto object-cover" />
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderCitationViewer = () => {
+    if (!activeCitation) return null;
+    const source = notebook.sources.find(s => s.id === activeCitation.sourceId);
+
+    return (
+      <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+        <div className="flex items-center justify-between pt-4 mb-4 shrink-0">
+          <div className="overflow-hidden">
+            <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.3em] mb-1">{activeCitation.label.replace(':', ' · ')}{describeLocation(activeCitation) ? ` · ${describeLocation(activeCitation)}` : ''}</div>
+            <h3 className="text-white text-sm font-bold font-tech truncate">{activeCitation.sourceTitle}</h3>
+            {source?.videoId && activeCitation.timestampMs !== undefined && (
+              <a href={`https://www.youtube.com/watch?v=${source.videoId}&t=${Math.floor(activeCitation.timestampMs / 1000)}s`} target="_blank" rel="noreferrer" className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 underline">Watch at {formatTimestamp(activeCitation.timestampMs)}</a>
+            )}
+          </div>
+          <button onClick={() => setActiveCitation(null)} className="p-2 text-white active:scale-90 transition-transform shrink-0">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto no-scrollbar pb-16">
+          {source?.thumbnailUrl && (
+            <img src={source.thumbnailUrl} alt={source.title} className="w-full max-h-64 object-contain rounded-2xl border border-white/10 mb-4 bg-white/5" />
+          )}
+          {source ? (
+            <p className="text-[13.5px] leading-[22px] text-zinc-500 font-tech whitespace-pre-wrap">
+              {source.content.slice(0, activeCitation.start)}
+              <mark ref={citedPassageRef} className="bg-[#4DA3FF]/20 text-white rounded px-0.5">{source.content.slice(activeCitation.start, activeCitation.end)}</mark>
+              {source.content.slice(activeCitation.end)}
+            </p>
+          ) : (
+            <div className="text-zinc-600 text-[9px] font-black uppercase tracking-[0.2em] mt-16 text-center italic">Cited source is no longer in this vault.</div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderSourceEditor = () => {
+    if (!editingSource) return null;
+    const dirty = editorValue !== editingSource.content;
+    const hasLocations = !!(editingSource.pages || editingSource.segments);
+
+    return (
+      <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+        <div className="flex items-center justify-between pt-4 mb-4 shrink-0">
+          <div className="overflow-hidden">
+            <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.3em] mb-1">{editingSource.type} · {editorValue.length.toLocaleString()} chars</div>
+            <h3 className="text-white text-sm font-bold font-tech truncate">{editingSource.title}</h3>
+          </div>
+          <button onClick={() => setEditingSource(null)} className="p-2 text-white active:scale-90 transition-transform shrink-0">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+        <textarea
+          value={editorValue} onChange={(e) => setEditorValue(e.target.value)}
+          className="flex-1 w-full bg-[#111214] border border-white/5 rounded-[24px] p-4 text-[13.5px] leading-[22px] text-zinc-300 font-tech outline-none resize-none no-scrollbar focus:border-[#4DA3FF]/40"
+        />
+        {dirty && hasLocations && (
+          <div className="text-[9px] font-black uppercase tracking-[0.2em] text-amber-400/80 mt-3 text-center">Saving edits removes page and timestamp links</div>
+        )}
+        <div className="flex gap-3 py-4 pb-safe shrink-0">
+          <button onClick={() => setEditingSource(null)} className="flex-1 py-3 text-zinc-500 font-bold text-[10px] uppercase tracking-widest">{dirty ? 'Discard' : 'Close'}</button>
+          <button onClick={handleSaveSourceContent} disabled={!dirty || !editorValue.trim()} className="flex-1 bg-white text-black py-3 rounded-full font-bold text-[10px] uppercase tracking-widest disabled:opacity-50 transition-all active:scale-95">Save & Re-index</button>
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * 📝 NOTE EDITOR
+   * Notes are Markdown-Lite; the preview is the same renderer chat answers use.
+   */
+  const renderNoteEditor = () => {
+    if (!editingNote) return null;
+    const dirty = noteBody !== editingNote.content || noteTitle !== editingNote.title;
+
+    return (
+      <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[205] flex flex-col pt-safe px-6 overflow-hidden">
+        <div className="flex items-center justify-between pt-4 mb-4 shrink-0 gap-3">
+          <input
+            value={noteTitle} onChange={(e) => setNoteTitle(e.target.value)}
+            className="flex-1 bg-transparent text-white text-sm font-bold font-tech outline-none border-b border-white/10 focus:border-[#4DA3FF]/40 py-1"
+          />
+          <button onClick={() => setNotePreview(!notePreview)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] shrink-0">{notePreview ? 'Edit' : 'Preview'}</button>
+          <button onClick={() => setEditingNote(null)} className="p-2 text-white active:scale-90 transition-transform shrink-0">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+        {notePreview ? (
+          <div className="flex-1 overflow-y-auto no-scrollbar bg-[#111214] border border-white/5 rounded-[24px] p-5">
+            <RichText content={noteBody} citations={editingNote.citations} onCitationClick={setActiveCitation} />
+          </div>
+        ) : (
+          <textarea
+            value={noteBody} onChange={(e) => setNoteBody(e.target.value)}
+            placeholder={'## Section\nParagraph text\n- List item'}
+            className="flex-1 w-full bg-[#111214] border border-white/5 rounded-[24px] p-4 text-[13.5px] leading-[22px] text-zinc-300 font-tech outline-none resize-none no-scrollbar focus:border-[#4DA3FF]/40"
+          />
+        )}
+        <div className="flex gap-3 py-4 pb-safe shrink-0">
+          <button onClick={() => { onDeleteNote(editingNote.id); setEditingNote(null); }} className="flex-1 py-3 text-red-400/80 font-bold text-[10px] uppercase tracking-widest">Delete</button>
+          <button onClick={handleSaveNoteEdits} disabled={!dirty || !noteBody.trim()} className="flex-1 bg-white text-black py-3 rounded-full font-bold text-[10px] uppercase tracking-widest disabled:opacity-50 transition-all active:scale-95">Save</button>
+        </div>
+      </div>
+    );
+  };
+
   const renderAddSourceView = () => (
     <div className="fixed inset-0 bg-black z-[200] flex flex-col pt-safe px-6 overflow-hidden">
       <div className="flex justify-end pt-4 mb-6 shrink-0">
@@ -468,15 +880,98 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
            </div>
          ) : (
            notebook.sources.map(s => (
-            <div key={s.id} className="flex items-center gap-4 bg-[#111214] border border-white/5 p-4 rounded-[24px] transition-all hover:border-[#4DA3FF]/30">
-              <div className="w-10 h-10 bg-white/5 rounded-xl flex items-center justify-center shrink-0 border border-white/5">
-                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#4DA3FF" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M3 9h18"/><path d="M9 21V9"/></svg>
+            <div key={s.id} className={`flex items-center gap-4 bg-[#111214] border border-white/5 p-4 rounded-[24px] transition-all hover:border-[#4DA3FF]/30 ${s.excluded ? 'opacity-50' : ''}`}>
+              <div className="w-10 h-10 bg-white/5 rounded-xl flex items-center justify-center shrink-0 border border-white/5 overflow-hidden">
+                {s.thumbnailUrl ? (
+                  <img src={s.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#4DA3FF" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M3 9h18"/><path d="M9 21V9"/></svg>
+                )}
               </div>
-              <h4 className="font-bold text-sm text-zinc-100 truncate flex-1 font-tech tracking-tight">{s.title}</h4>
+              <div className="flex-1 overflow-hidden cursor-pointer" onClick={() => isSettled(s) && renamingSourceId !== s.id && openSourceEditor(s)}>
+                {renamingSourceId === s.id ? (
+                  <input
+                    autoFocus value={renameValue} onChange={(e) => setRenameValue(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingSourceId(null); }}
+                    className="w-full bg-white/5 border border-[#4DA3FF]/40 rounded-lg px-2 py-0.5 font-bold text-sm text-zinc-100 font-tech outline-none"
+                  />
+                ) : (
+                  <h4 className="font-bold text-sm text-zinc-100 truncate font-tech tracking-tight">{s.title}</h4>
+                )}
+                {s.error ? (
+                  <div className="text-[9px] font-black uppercase tracking-[0.15em] text-red-400 mt-0.5 line-clamp-2">{s.error}</div>
+                ) : s.status && s.status !== 'indexed' && s.status !== 'failed' ? (
+                  <div className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] mt-0.5 animate-pulse">
+                    {describeSourceStatus(s)}
+                  </div>
+                ) : s.pages ? (
+                  <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mt-0.5">{s.pages.length} pages</div>
+                ) : s.segments ? (
+                  <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mt-0.5">{s.type === 'youtube' ? 'YouTube' : `${new Set(s.segments.map(seg => seg.speaker).filter(Boolean)).size} speakers`} • {formatTimestamp(s.segments[s.segments.length - 1]?.endMs || 0)} transcript</div>
+                ) : s.type === 'note' ? (
+                  <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mt-0.5">{s.excluded ? 'Saved note • excluded from answers' : 'Saved note'}</div>
+                ) : s.excluded ? (
+                  <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mt-0.5">Excluded from answers</div>
+                ) : s.fetchedAt ? (
+                  <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mt-0.5 truncate">{s.url ? new URL(s.url).hostname : 'Web'} • fetched {new Date(s.fetchedAt).toLocaleDateString()}</div>
+                ) : null}
+              </div>
+              {!isSettled(s) ? (
+                <button onClick={() => onCancelSource(s.id)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 px-3 py-2 rounded-full border border-white/10 active:scale-95 transition-all shrink-0">Cancel</button>
+              ) : (
+                <div className="flex items-center gap-1 shrink-0">
+                  {s.status === 'failed' ? (
+                    <button onClick={() => onRetrySource(s.id)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] px-3 py-2 rounded-full border border-[#4DA3FF]/30 active:scale-95 transition-all">Retry</button>
+                  ) : (
+                    <button onClick={() => onEditSource(s.id, { excluded: !s.excluded })} title={s.excluded ? 'Include in answers' : 'Exclude from answers'} className={`p-2 rounded-full active:scale-90 transition-all ${s.excluded ? 'text-zinc-600' : 'text-[#4DA3FF]'}`}>
+                      {s.excluded
+                        ? <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M9.88 9.88a3 3 0 1 0 4.24 4.24"/><path d="M10.73 5.08A10.43 10.43 0 0 1 12 5c7 0 10 7 10 7a13.16 13.16 0 0 1-1.67 2.68"/><path d="M6.61 6.61A13.53 13.53 0 0 0 2 12s3 7 10 7a9.74 9.74 0 0 0 5.39-1.61"/><line x1="2" x2="22" y1="2" y2="22"/></svg>
+                        : <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z"/><circle cx="12" cy="12" r="3"/></svg>}
+                    </button>
+                  )}
+                  <button onClick={() => startRename(s)} title="Rename" className="p-2 rounded-full text-zinc-500 active:scale-90 transition-all">
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/></svg>
+                  </button>
+                  <button onClick={() => handleDeleteSource(s)} title="Delete" className="p-2 rounded-full text-zinc-500 active:text-red-400 active:scale-90 transition-all">
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/><path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+                  </button>
+                </div>
+              )}
             </div>
            ))
          )}
+         {notes.length > 0 && (
+           <>
+             <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mt-6">Notes</h3>
+             {notes.map(note => {
+               const linked = !!note.sourceId && notebook.sources.some(s => s.id === note.sourceId);
+               return (
+                 <div key={note.id} className="flex items-center gap-4 bg-[#111214] border border-white/5 p-4 rounded-[24px] transition-all hover:border-[#4DA3FF]/30">
+                   <div className="flex-1 overflow-hidden cursor-pointer" onClick={() => openNoteEditor(note)}>
+                     <h4 className="font-bold text-sm text-zinc-100 truncate font-tech tracking-tight">{note.title}</h4>
+                     <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mt-0.5">
+                       {note.citations.length} citation{note.citations.length === 1 ? '' : 's'} • {new Date(note.updatedAt).toLocaleDateString()}{linked ? ' • in sources' : ''}
+                     </div>
+                   </div>
+                   {!linked && (
+                     <button onClick={() => onConvertNote(note.id)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] px-3 py-2 rounded-full border border-[#4DA3FF]/30 active:scale-95 transition-all shrink-0">Use as Source</button>
+                   )}
+                 </div>
+               );
+             })}
+           </>
+         )}
        </div>
+       {lastDeleted && (
+        <div className="fixed bottom-40 left-0 right-0 flex justify-center z-40 px-6">
+          <div className="bg-[#111214] border border-white/10 rounded-full pl-5 pr-2 py-2 flex items-center gap-4 shadow-2xl max-w-sm w-full">
+            <span className="flex-1 text-[10px] font-tech text-zinc-300 truncate">Removed "{lastDeleted.source.title}"</span>
+            <button onClick={handleUndoDelete} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] px-3 py-2 active:scale-95 transition-all">Undo</button>
+          </div>
+        </div>
+       )}
        <div className="fixed bottom-20 left-0 right-0 flex justify-center items-center z-40 px-6 pb-4">
         <button onClick={() => setShowAddSourceOverlay(true)} className="bg-white text-black w-full max-w-sm py-4 rounded-full flex items-center justify-center gap-3 font-black text-[10px] uppercase tracking-[0.15em] shadow-2xl active:scale-95 transition-all shimmer-text border-2 border-white">
           <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="4" strokeLinecap="round" strokeLinejoin="round"><path d="M5 12h14"/><path d="M12 5v14"/></svg>
@@ -486,15 +981,72 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
     </div>
   );
 
+  const renderThreadList = () => {
+    if (!showThreadList) return null;
+    const sorted = [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
+    return (
+      <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+        <div className="flex items-center justify-between pt-4 mb-6 shrink-0">
+          <h3 className="text-[15px] font-axiom font-bold tracking-widest text-white uppercase">Threads</h3>
+          <button onClick={() => setShowThreadList(false)} className="p-2 text-white active:scale-90 transition-transform">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+        <button onClick={handleNewThread} className="w-full bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] mb-6 active:scale-95 transition-all shrink-0">New Thread</button>
+        <div className="flex-1 overflow-y-auto no-scrollbar pb-16 flex flex-col gap-3">
+          {sorted.length === 0 && (
+            <div className="text-zinc-600 text-[9px] font-black uppercase tracking-[0.2em] mt-16 text-center italic">No saved threads yet.</div>
+          )}
+          {sorted.map(t => (
+            <div key={t.id} className={`flex items-center gap-3 bg-[#111214] border p-4 rounded-[20px] transition-all ${t.id === activeThreadId ? 'border-[#4DA3FF]' : 'border-white/5'}`}>
+              <div className="flex-1 overflow-hidden cursor-pointer" onClick={() => { if (renamingThreadId !== t.id) { setActiveThreadId(t.id); setShowThreadList(false); } }}>
+                {renamingThreadId === t.id ? (
+                  <input
+                    autoFocus value={threadRenameValue} onChange={(e) => setThreadRenameValue(e.target.value)}
+                    onBlur={commitThreadRename}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitThreadRename(); if (e.key === 'Escape') setRenamingThreadId(null); }}
+                    className="w-full bg-white/5 border border-[#4DA3FF]/40 rounded-lg px-2 py-0.5 font-bold text-sm text-zinc-100 font-tech outline-none"
+                  />
+                ) : (
+                  <div className="text-white text-sm font-bold truncate font-tech">{t.title}</div>
+                )}
+                <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600 mt-0.5">
+                  {t.messages.filter(m => m.role === 'user').length} questions • {new Date(t.updatedAt).toLocaleDateString()}{t.branchedFrom ? ' • branch' : ''}
+                </div>
+              </div>
+              <button onClick={() => { setRenamingThreadId(t.id); setThreadRenameValue(t.title); }} title="Rename" className="p-2 rounded-full text-zinc-500 active:scale-90 transition-all shrink-0">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/></svg>
+              </button>
+              <button onClick={() => handleDeleteThread(t.id)} title="Delete" className="p-2 rounded-full text-zinc-500 active:text-red-400 active:scale-90 transition-all shrink-0">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/><path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const renderChat = () => (
     <div className="flex-1 flex flex-col bg-black overflow-hidden relative">
+      <div className="px-6 pt-3 flex items-center justify-between gap-3 shrink-0">
+        <button onClick={() => setShowThreadList(true)} className="flex items-center gap-2 overflow-hidden text-zinc-400 active:text-white transition-all">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" className="shrink-0"><path d="M4 7h16"/><path d="M4 12h16"/><path d="M4 17h10"/></svg>
+          <span className="text-[9px] font-black uppercase tracking-[0.2em] truncate">{activeThread ? activeThread.title : 'New Thread'}</span>
+          {threads.length > 0 && <span className="text-[9px] font-black text-zinc-600 shrink-0">{threads.length}</span>}
+        </button>
+        {activeThread && (
+          <button onClick={handleNewThread} disabled={isTyping} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] shrink-0 disabled:opacity-30 active:scale-95 transition-all">+ New</button>
+        )}
+      </div>
       <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-8 pb-48 no-scrollbar">
         {messages.length === 0 && (
           <div className="flex flex-col gap-6">
             <div style={Typography.title} className="font-tech text-2xl font-black">{notebook.title}</div>
             <div className="flex items-center gap-3">
               <div className="h-[1px] flex-1 bg-white/5"></div>
-              <div className="text-zinc-500 font-black text-[9px] uppercase tracking-[0.3em]">{notebook.sources.length} GROUNDED UNITS</div>
+              <div className="text-zinc-500 font-black text-[9px] uppercase tracking-[0.3em]">{indexedSourceCount} GROUNDED UNITS</div>
               <div className="h-[1px] flex-1 bg-white/5"></div>
             </div>
             <div className="mb-4">
@@ -516,19 +1068,52 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
                     <svg width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>
                   </div>
                   <RichText content={notebook.summary || ''} />
+                  {notebook.summaryStale && (
+                    <div className="flex items-center justify-between gap-3 mt-4 pt-3 border-t border-white/5">
+                      <span className="text-[9px] font-black uppercase tracking-[0.2em] text-amber-400/80">Sources changed since this summary</span>
+                      <button onClick={handleRefreshSummary} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] active:scale-95 transition-all">Refresh</button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           </div>
         )}
-        {messages.map((m, i) => (
-          <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+        {messages.map((m, i) => m.role === 'model' && !m.text ? null : (
+          <div key={i} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
             <div className={`max-w-[88%] px-5 py-3 rounded-[24px] ${m.role === 'user' ? 'bg-white text-black font-bold shadow-[0_8px_20px_rgba(255,255,255,0.08)]' : 'bg-[#111214] text-zinc-200 border border-white/5 shadow-lg'}`}>
-              <RichText content={m.text} />
+              <RichText content={m.text} citations={m.citations} onCitationClick={setActiveCitation} />
+              {renderCitedImages(m.citations)}
+              {m.unverifiedCitations && m.unverifiedCitations.length > 0 && (
+                <div className="mt-1 text-[9px] font-black uppercase tracking-[0.2em] text-amber-400/80">
+                  {m.unverifiedCitations.length} unverified citation{m.unverifiedCitations.length > 1 ? 's' : ''} removed
+                </div>
+              )}
+              {m.stopped && (
+                <div className="mt-1 text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600">Stopped</div>
+              )}
             </div>
+            {m.role === 'model' && !isTyping && (
+              <div className="mt-2 ml-2 flex items-center gap-4">
+                {i === messages.length - 1 && (
+                  <button onClick={handleRegenerate} className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 active:text-[#4DA3FF] transition-all">
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 0 1 15-6.7L21 8"/><path d="M21 3v5h-5"/></svg>
+                    Regenerate
+                  </button>
+                )}
+                <button onClick={() => handleSaveNote(i)} disabled={savedMessageKeys.has(`${activeThreadId}:${i}`)} className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 active:text-[#4DA3FF] disabled:text-[#4DA3FF] transition-all">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"/></svg>
+                  {savedMessageKeys.has(`${activeThreadId}:${i}`) ? 'Saved' : 'Save Note'}
+                </button>
+                <button onClick={() => handleBranchThread(i)} className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 active:text-[#4DA3FF] transition-all">
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><line x1="6" x2="6" y1="3" y2="15"/><circle cx="18" cy="6" r="3"/><circle cx="6" cy="18" r="3"/><path d="M18 9a9 9 0 0 1-9 9"/></svg>
+                  Branch
+                </button>
+              </div>
+            )}
           </div>
         ))}
-        {isTyping && <div className="flex justify-start"><div className="bg-[#111214] px-5 py-4 rounded-[24px] border border-white/5 flex gap-1.5"><div className="w-1.5 h-1.5 bg-zinc-600 rounded-full animate-bounce"></div><div className="w-1.5 h-1.5 bg-zinc-600 rounded-full animate-bounce [animation-delay:0.2s]"></div><div className="w-1.5 h-1.5 bg-zinc-600 rounded-full animate-bounce [animation-delay:0.4s]"></div></div></div>}
+        {isTyping && !messages[messages.length - 1]?.text && <div className="flex justify-start"><div className="bg-[#111214] px-5 py-4 rounded-[24px] border border-white/5 flex gap-1.5"><div className="w-1.5 h-1.5 bg-zinc-600 rounded-full animate-bounce"></div><div className="w-1.5 h-1.5 bg-zinc-600 rounded-full animate-bounce [animation-delay:0.2s]"></div><div className="w-1.5 h-1.5 bg-zinc-600 rounded-full animate-bounce [animation-delay:0.4s]"></div></div></div>}
       </div>
       <div className="absolute bottom-16 left-0 right-0 p-5 z-50">
         <div className="max-w-xl mx-auto flex items-center gap-2 bg-[#111214] p-1.5 pl-6 rounded-full border border-white/10 shadow-xl focus-within:border-[#4DA3FF]/40 transition-all backdrop-blur-xl">
@@ -538,7 +1123,11 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
             placeholder={`Query ${notebook.sources.length} units...`}
             className="flex-1 bg-transparent outline-none text-white text-base py-3 font-tech placeholder-zinc-700"
           />
-          {input.trim() && (
+          {isTyping ? (
+            <button onClick={handleStop} title="Stop" className="bg-white/10 text-white w-10 h-10 rounded-full flex items-center justify-center active:scale-90 transition-all mr-0.5 border border-white/10">
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor"><rect width="14" height="14" x="5" y="5" rx="2"/></svg>
+            </button>
+          ) : input.trim() && (
             <button onClick={handleSend} disabled={isTyping} className="bg-white text-black w-10 h-10 rounded-full flex items-center justify-center disabled:opacity-20 active:scale-90 transition-all mr-0.5 shadow-md">
               <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="4" strokeLinecap="round" strokeLinejoin="round"><path d="m5 12 7-7 7 7"/><path d="M12 19V5"/></svg>
             </button>
@@ -561,6 +1150,10 @@ const NotebookDetail: React.FC<NotebookDetailProps> = ({
         {activeTab === Tab.STUDIO && <AudioStudio notebook={notebook} onBack={onBack} />}
       </div>
       {showAddSourceOverlay && renderAddSourceView()}
+      {renderNoteEditor()}
+      {renderCitationViewer()}
+      {renderSourceEditor()}
+      {renderThreadList()}
     </div>
   );
 };
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { GeneratedMedia, MediaJobOptions, Notebook, PodcastJob, QuizDifficulty } from '../types';
+import { DEFAULT_QUIZ_COUNT, QUIZ_COUNTS, QUIZ_DIFFICULTIES, ShortAnswerGrader, bestScore, formatScore } from '../services/quiz';
+import { isMediaJobRunning } from '../services/mediaJobRunner';
+import QuizTaker from './QuizTaker';
+
+interface QuizPanelProps {
+  notebook: Notebook;
+  /** Newest quiz job of this notebook, if any. */
+  job?: PodcastJob;
+  gradeShortAnswer: ShortAnswerGrader;
+  onGenerate: (options: MediaJobOptions) => void;
+  onCancelJob?: (jobId: string) => void;
+  onUpdateMedia: (mediaId: string, updates: Partial<GeneratedMedia>) => void;
+}
+
+/**
+ * 📝 QUIZZES
+ * Studio section for generating quizzes, taking them and looking back over
+ * past attempts.
+ */
+const QuizPanel: React.FC<QuizPanelProps> = ({ notebook, job, gradeShortAnswer, onGenerate, onCancelJob, onUpdateMedia }) => {
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>('medium');
+  const [count, setCount] = useState(DEFAULT_QUIZ_COUNT);
+  const [focus, setFocus] = useState('');
+  const [takingId, setTakingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const quizzes = (notebook.generatedMedia || []).filter(m => m.type === 'QUIZ' && m.quiz);
+  const taking = quizzes.find(q => q.id === takingId);
+  const generating = isMediaJobRunning(job);
+
+  const chip = (active: boolean) => `flex-1 py-2 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${active ? 'bg-[#4DA3FF]/10 border-[#4DA3FF] text-white' : 'bg-white/5 border-white/5 text-zinc-400'}`;
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Quizzes</h3>
+      <div className="bg-[#111214] p-5 rounded-[28px] border border-white/5 mb-2">
+        <div className="flex gap-2 mb-2">
+          {QUIZ_DIFFICULTIES.map(d => <button key={d} onClick={() => setDifficulty(d)} disabled={generating} className={chip(difficulty === d)}>{d}</button>)}
+        </div>
+        <div className="flex gap-2 mb-3">
+          {QUIZ_COUNTS.map(n => <button key={n} onClick={() => setCount(n)} disabled={generating} className={chip(count === n)}>{n} questions</button>)}
+        </div>
+        <input
+          type="text" placeholder="Focus (optional), e.g. chapter 2"
+          value={focus} onChange={(e) => setFocus(e.target.value)}
+          disabled={generating}
+          className="w-full bg-white/5 border border-white/5 rounded-xl p-3 text-white text-xs outline-none mb-4 font-tech"
+        />
+        <button onClick={() => onGenerate({ count, difficulty, focus: focus.trim() || undefined })} disabled={generating} className="w-full bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all disabled:opacity-20">
+          {generating ? (job!.state === 'QUEUED' ? 'Queued...' : 'Writing questions...') : 'Generate Quiz'}
+        </button>
+        {generating && onCancelJob && (
+          <div className="flex justify-end mt-3">
+            <button onClick={() => onCancelJob(job!.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:scale-95 transition-all">Cancel</button>
+          </div>
+        )}
+        {job?.state === 'FAILED' && <p className="text-[9px] font-black uppercase tracking-[0.2em] text-red-400 mt-3">{job.error || 'The quiz could not be generated.'}</p>}
+      </div>
+
+      {quizzes.map(quiz => {
+        const attempts = quiz.quizAttempts || [];
+        const best = bestScore(attempts);
+        return (
+          <div key={quiz.id} className="bg-[#111214] border border-white/5 p-4 rounded-[20px] mb-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="overflow-hidden">
+                <div className="text-white text-sm font-bold font-tech truncate">{quiz.title}</div>
+                <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-0.5">
+                  {quiz.difficulty || 'medium'} · {quiz.quiz!.length} questions{attempts.length > 0 && <> · best <span className="text-[#4DA3FF]">{formatScore(best)}</span></>}
+                </div>
+              </div>
+              <button onClick={() => setTakingId(quiz.id)} className="shrink-0 bg-white/5 text-white px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-[0.2em] active:scale-95 transition-all">{attempts.length ? 'Retake' : 'Start'}</button>
+            </div>
+            {attempts.length > 0 && (
+              <button onClick={() => setHistoryId(historyId === quiz.id ? null : quiz.id)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 mt-3 active:text-white transition-colors">
+                {attempts.length} attempt{attempts.length === 1 ? '' : 's'} {historyId === quiz.id ? '▴' : '▾'}
+              </button>
+            )}
+            {historyId === quiz.id && (
+              <div className="flex flex-col gap-1 mt-2">
+                {[...attempts].reverse().map(a => (
+                  <div key={a.id} className="flex items-center justify-between text-[12px] font-tech">
+                    <span className="text-zinc-500">{new Date(a.completedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                    <span className="text-zinc-300">{a.answers.filter(x => x.correct).length}/{a.answers.length} · {formatScore(a.score)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {taking && (
+        <QuizTaker
+          notebook={notebook}
+          quiz={taking}
+          gradeShortAnswer={gradeShortAnswer}
+          onUpdate={(updates) => onUpdateMedia(taking.id, updates)}
+          onClose={() => setTakingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedMedia, Notebook, QuizAttempt } from '../types';
+import { QuizResponse, ShortAnswerGrader, appendAttempt, formatScore, gradeAttempt } from '../services/quiz';
+import CitationExcerpt from './CitationExcerpt';
+
+interface QuizTakerProps {
+  notebook: Notebook;
+  quiz: GeneratedMedia;
+  gradeShortAnswer: ShortAnswerGrader;
+  onUpdate: (updates: Partial<GeneratedMedia>) => void;
+  onClose: () => void;
+}
+
+/**
+ * 📝 QUIZ TAKER
+ * One question at a time, graded together on submit. Results show each
+ * explanation next to the passage that answers the question, and the attempt
+ * is appended to the quiz's history.
+ */
+const QuizTaker: React.FC<QuizTakerProps> = ({ notebook, quiz, gradeShortAnswer, onUpdate, onClose }) => {
+  const questions = quiz.quiz || [];
+  const [index, setIndex] = useState(0);
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({});
+  const [grading, setGrading] = useState(false);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const question = questions[index];
+  const response = question ? responses[question.id] || {} : {};
+  const setResponse = (update: QuizResponse) => setResponses(prev => ({ ...prev, [question.id]: { ...prev[question.id], ...update } }));
+  const answeredCount = questions.filter(q => responses[q.id]?.choiceIndex !== undefined || responses[q.id]?.text?.trim()).length;
+
+  const handleSubmit = async () => {
+    if (grading) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGrading(true);
+    try {
+      const result = await gradeAttempt(questions, responses, gradeShortAnswer, controller.signal);
+      if (controller.signal.aborted) return;
+      setAttempt(result);
+      onUpdate({ quizAttempts: appendAttempt(quiz.quizAttempts, result) });
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const handleRetake = () => {
+    setResponses({});
+    setAttempt(null);
+    setIndex(0);
+  };
+
+  const renderResults = (result: QuizAttempt) => (
+    <div className="flex-1 overflow-y-auto no-scrollbar pb-16">
+      <div className="text-center mb-8 mt-2">
+        <div className="text-white text-4xl font-bold font-tech">{formatScore(result.score)}</div>
+        <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-2">{result.answers.filter(a => a.correct).length} of {questions.length} correct</div>
+      </div>
+      {questions.map((q, i) => {
+        const answer = result.answers.find(a => a.questionId === q.id);
+        return (
+          <div key={q.id} className={`bg-[#111214] border rounded-[24px] p-5 mb-3 ${answer?.correct ? 'border-emerald-500/20' : 'border-red-500/20'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-zinc-500 text-[9px] font-black uppercase tracking-[0.2em]">Question {i + 1}</span>
+              <span className={`text-[9px] font-black uppercase tracking-[0.2em] ${answer?.correct ? 'text-emerald-400' : 'text-red-400'}`}>
+                {q.kind === 'short_answer' && answer ? formatScore(answer.score) : answer?.correct ? 'Correct' : 'Incorrect'}
+              </span>
+            </div>
+            <p className="text-white text-[14px] leading-[22px] font-tech mb-3">{q.prompt}</p>
+            <div className="text-[12px] leading-[19px] font-tech mb-1"><span className="text-zinc-500">Your answer: </span><span className="text-zinc-300">{answer?.response || '—'}</span></div>
+            {!answer?.correct && <div className="text-[12px] leading-[19px] font-tech mb-1"><span className="text-zinc-500">Answer: </span><span className="text-white">{q.answer}</span></div>}
+            {answer?.feedback && <p className="text-[12px] leading-[19px] font-tech text-zinc-400 mt-2">{answer.feedback}</p>}
+            {q.explanation && <p className="text-[12px] leading-[19px] font-tech text-zinc-300 mt-3 mb-3">{q.explanation}</p>}
+            <CitationExcerpt notebook={notebook} citation={q.citation} />
+          </div>
+        );
+      })}
+      <div className="flex gap-2 mt-6">
+        <button onClick={handleRetake} className="flex-1 bg-white/5 text-white py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all">Retake</button>
+        <button onClick={onClose} className="flex-1 bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all">Done</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+      <div className="flex items-center justify-between pt-4 mb-4 shrink-0">
+        <div className="overflow-hidden">
+          <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.3em] mb-1">
+            {attempt ? 'Results' : `${quiz.difficulty || 'medium'} · Question ${index + 1} of ${questions.length}`}
+          </div>
+          <h3 className="text-white text-sm font-bold font-tech truncate">{quiz.title}</h3>
+        </div>
+        <button onClick={onClose} className="p-2 text-white active:scale-90 transition-transform shrink-0">
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      {attempt ? renderResults(attempt) : !question ? (
+        <div className="text-zinc-600 text-[9px] font-black uppercase tracking-[0.2em] mt-16 text-center italic">This quiz has no questions.</div>
+      ) : (
+        <>
+          <div className="h-[2px] bg-white/5 rounded-full mb-6 overflow-hidden shrink-0">
+            <div className="h-full bg-[#4DA3FF] transition-all duration-500" style={{ width: `${((index + 1) / questions.length) * 100}%` }} />
+          </div>
+          <div className="flex-1 overflow-y-auto no-scrollbar pb-6">
+            <p className="text-white text-[17px] leading-[26px] font-tech mb-6">{question.prompt}</p>
+            {question.kind === 'multiple_choice' ? (
+              <div className="flex flex-col gap-2">
+                {question.choices!.map((choice, i) => (
+                  <button key={i} onClick={() => setResponse({ choiceIndex: i })} disabled={grading} className={`text-left px-4 py-3 rounded-2xl border text-[13px] leading-[20px] font-tech transition-all ${response.choiceIndex === i ? 'bg-[#4DA3FF]/10 border-[#4DA3FF] text-white' : 'bg-[#111214] border-white/5 text-zinc-300'}`}>
+                    <span className="text-zinc-500 font-black mr-2">{String.fromCharCode(65 + i)}</span>{choice}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <textarea
+                value={response.text || ''} onChange={(e) => setResponse({ text: e.target.value })}
+                disabled={grading} placeholder="Your answer"
+                className="w-full h-36 bg-[#111214] border border-white/5 rounded-2xl p-4 text-white text-[13px] leading-[20px] outline-none font-tech resize-none"
+              />
+            )}
+          </div>
+          <div className="flex gap-2 pb-10 shrink-0">
+            <button onClick={() => setIndex(i => i - 1)} disabled={index === 0 || grading} className="flex-1 bg-white/5 text-white py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all disabled:opacity-20">Back</button>
+            {index < questions.length - 1 ? (
+              <button onClick={() => setIndex(i => i + 1)} className="flex-1 bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all">Next</button>
+            ) : (
+              <button onClick={handleSubmit} disabled={grading} className="flex-1 bg-[#4DA3FF] text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all disabled:opacity-40">
+                {grading ? 'Grading...' : `Submit · ${answeredCount}/${questions.length}`}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuizTaker;
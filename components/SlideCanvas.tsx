@@ -0,0 +1,51 @@
+import React from 'react';
+import { Slide } from '../types';
+import { SLIDE_HEIGHT, SLIDE_LAYOUT, SLIDE_TYPE, SLIDE_WIDTH, SlideTheme, citationFooter } from '../services/slideDeck';
+
+interface SlideCanvasProps {
+  slide: Slide;
+  theme: SlideTheme;
+  /** Rendered width in px; the 960×540 canvas is scaled to fit. */
+  width: number;
+}
+
+/**
+ * 🖼️ SLIDE CANVAS
+ * Draws a slide with the same layout the PPTX and PDF exports use.
+ */
+const SlideCanvas: React.FC<SlideCanvasProps> = ({ slide, theme, width }) => {
+  const { margin, titleTop, ruleTop, bodyTop, footerTop, coverTitleTop } = SLIDE_LAYOUT;
+  const scale = width / SLIDE_WIDTH;
+  const footer = citationFooter(slide);
+  const isCover = slide.bullets.length === 0;
+
+  return (
+    <div style={{ width, height: SLIDE_HEIGHT * scale }} className="relative overflow-hidden rounded-xl shrink-0">
+      <div style={{ width: SLIDE_WIDTH, height: SLIDE_HEIGHT, background: theme.background, transform: `scale(${scale})`, transformOrigin: 'top left', fontFamily: 'Inter, sans-serif' }} className="absolute top-0 left-0">
+        {isCover ? (
+          <>
+            <div style={{ position: 'absolute', left: margin, right: margin, bottom: SLIDE_HEIGHT - coverTitleTop, color: theme.text, fontSize: SLIDE_TYPE.cover, fontWeight: 700, lineHeight: 1.15 }}>{slide.title}</div>
+            <div style={{ position: 'absolute', left: margin, top: coverTitleTop + 24, width: 96, height: 6, background: theme.accent }} />
+            {slide.subtitle && <div style={{ position: 'absolute', left: margin, right: margin, top: coverTitleTop + 56, color: theme.muted, fontSize: SLIDE_TYPE.body }}>{slide.subtitle}</div>}
+          </>
+        ) : (
+          <>
+            <div style={{ position: 'absolute', left: margin, right: margin, top: titleTop, height: ruleTop - titleTop - 12, display: 'flex', alignItems: 'flex-end', color: theme.text, fontSize: SLIDE_TYPE.title, fontWeight: 700, lineHeight: 1.15 }}>{slide.title}</div>
+            <div style={{ position: 'absolute', left: margin, top: ruleTop, width: 64, height: 4, background: theme.accent }} />
+            <ul style={{ position: 'absolute', left: margin, right: margin, top: bodyTop, bottom: SLIDE_HEIGHT - footerTop + 16, overflow: 'hidden', color: theme.text, fontSize: SLIDE_TYPE.body, lineHeight: SLIDE_TYPE.lineHeight }}>
+              {slide.bullets.map((bullet, i) => (
+                <li key={i} style={{ display: 'flex', marginBottom: 16 }}>
+                  <span style={{ color: theme.accent, width: SLIDE_TYPE.body * 1.2, flexShrink: 0 }}>•</span>
+                  <span>{bullet}</span>
+                </li>
+              ))}
+            </ul>
+            {footer && <div style={{ position: 'absolute', left: margin, right: margin, top: footerTop, color: theme.muted, fontSize: SLIDE_TYPE.caption, lineHeight: 1.3, maxHeight: SLIDE_TYPE.caption * 2.6, overflow: 'hidden' }}>{footer}</div>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlideCanvas;
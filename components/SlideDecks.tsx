@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { GeneratedMedia, Notebook, PodcastJob } from '../types';
+import { slideTheme } from '../services/slideDeck';
+import { exportPptx } from '../services/pptxExport';
+import { exportPdf } from '../services/pdfExport';
+import { isMediaJobRunning } from '../services/mediaJobRunner';
+import { downloadBlob, toFileName } from '../utils/download';
+import SlideCanvas from './SlideCanvas';
+import SlideViewer from './SlideViewer';
+
+interface SlideDecksProps {
+  notebook: Notebook;
+  /** Newest slide deck job of this notebook, if any. */
+  job?: PodcastJob;
+  onGenerate: () => void;
+  onCancelJob?: (jobId: string) => void;
+}
+
+/**
+ * 🖼️ SLIDE DECKS
+ * Studio section for generating decks from the notebook outline, viewing
+ * them and exporting PPTX or PDF.
+ */
+const SlideDecks: React.FC<SlideDecksProps> = ({ notebook, job, onGenerate, onCancelJob }) => {
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  const decks = (notebook.generatedMedia || []).filter(m => m.type === 'SLIDE_DECK' && m.slides?.length);
+  const viewing = decks.find(d => d.id === viewingId);
+  const generating = isMediaJobRunning(job);
+  const theme = slideTheme(notebook);
+
+  const handleExport = (deck: GeneratedMedia, format: 'pptx' | 'pdf') => {
+    try {
+      const blob = format === 'pptx' ? exportPptx(deck.slides!, theme, deck.title) : exportPdf(deck.slides!, theme, deck.title);
+      downloadBlob(blob, `${toFileName(deck.title, 'slides')}.${format}`);
+    } catch (e) {
+      console.warn("Slide export failed", e);
+    }
+  };
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Slide Decks</h3>
+      <div className="bg-[#111214] p-5 rounded-[28px] border border-white/5 mb-2">
+        <p className="text-[12px] font-tech leading-[1.5] text-zinc-400 mb-4">A cover plus one slide per outline part, with speaker notes and the passages behind every bullet.</p>
+        <button onClick={onGenerate} disabled={generating} className="w-full bg-white text-black py-3 rounded-full font-black text-[10px] uppercase tracking-[0.15em] active:scale-95 transition-all disabled:opacity-20">
+          {generating ? (job!.state === 'QUEUED' ? 'Queued...' : 'Building slides...') : 'Generate Deck'}
+        </button>
+        {generating && onCancelJob && (
+          <div className="flex justify-end mt-3">
+            <button onClick={() => onCancelJob(job!.jobId)} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:scale-95 transition-all">Cancel</button>
+          </div>
+        )}
+        {job?.state === 'FAILED' && <p className="text-[9px] font-black uppercase tracking-[0.2em] text-red-400 mt-3">{job.error || 'The deck could not be generated.'}</p>}
+      </div>
+
+      {decks.map(deck => (
+        <div key={deck.id} className="bg-[#111214] border border-white/5 p-4 rounded-[20px] mb-2 flex items-center gap-4">
+          <button onClick={() => setViewingId(deck.id)} className="active:scale-95 transition-transform shrink-0">
+            <SlideCanvas slide={deck.slides![0]} theme={theme} width={96} />
+          </button>
+          <div className="overflow-hidden flex-1">
+            <div className="text-white text-sm font-bold font-tech truncate">{deck.title}</div>
+            <div className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-500 mt-0.5">{deck.slides!.length} slides</div>
+            <div className="flex items-center gap-4 mt-2">
+              <button onClick={() => setViewingId(deck.id)} className="text-[9px] font-black uppercase tracking-[0.2em] text-[#4DA3FF] active:scale-95 transition-all">View</button>
+              <button onClick={() => handleExport(deck, 'pptx')} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">PPTX</button>
+              <button onClick={() => handleExport(deck, 'pdf')} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">PDF</button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {viewing && (
+        <SlideViewer
+          notebook={notebook}
+          deck={viewing}
+          onExport={(format) => handleExport(viewing, format)}
+          onClose={() => setViewingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SlideDecks;
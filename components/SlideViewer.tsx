@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedMedia, Notebook } from '../types';
+import { slideTheme } from '../services/slideDeck';
+import SlideCanvas from './SlideCanvas';
+import CitationExcerpt from './CitationExcerpt';
+
+interface SlideViewerProps {
+  notebook: Notebook;
+  deck: GeneratedMedia;
+  onExport: (format: 'pptx' | 'pdf') => void;
+  onClose: () => void;
+}
+
+/**
+ * 🖼️ SLIDE VIEWER
+ * Full-screen deck viewer with speaker notes and the passages behind each
+ * slide. Arrow keys move between slides.
+ */
+const SlideViewer: React.FC<SlideViewerProps> = ({ notebook, deck, onExport, onClose }) => {
+  const slides = deck.slides || [];
+  const [index, setIndex] = useState(0);
+  const [showNotes, setShowNotes] = useState(true);
+  const [width, setWidth] = useState(320);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const theme = slideTheme(notebook);
+  const slide = slides[index];
+
+  useEffect(() => {
+    const measure = () => { if (frameRef.current) setWidth(frameRef.current.clientWidth); };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setIndex(i => Math.min(i + 1, slides.length - 1));
+      if (e.key === 'ArrowLeft') setIndex(i => Math.max(i - 1, 0));
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [slides.length]);
+
+  return (
+    <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl z-[210] flex flex-col pt-safe px-6 overflow-hidden">
+      <div className="flex items-center justify-between pt-4 mb-4 shrink-0">
+        <div className="overflow-hidden">
+          <div className="text-[#4DA3FF] text-[9px] font-black uppercase tracking-[0.3em] mb-1">Slide {index + 1} of {slides.length}</div>
+          <h3 className="text-white text-sm font-bold font-tech truncate">{deck.title}</h3>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <button onClick={() => onExport('pptx')} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">PPTX</button>
+          <button onClick={() => onExport('pdf')} className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-400 active:text-white transition-colors">PDF</button>
+          <button onClick={onClose} className="p-2 text-white active:scale-90 transition-transform">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+      </div>
+
+      <div ref={frameRef} className="w-full shrink-0">
+        {slide && <SlideCanvas slide={slide} theme={theme} width={width} />}
+      </div>
+
+      <div className="flex items-center justify-between my-4 shrink-0">
+        <button onClick={() => setIndex(i => i - 1)} disabled={index === 0} className="p-2 text-white bg-white/5 rounded-full active:scale-90 transition-all disabled:opacity-20"><svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg></button>
+        <div className="flex gap-1.5">
+          {slides.map((_, i) => <button key={i} onClick={() => setIndex(i)} className={`h-1.5 rounded-full transition-all ${i === index ? 'w-5 bg-[#4DA3FF]' : 'w-1.5 bg-white/20'}`} />)}
+        </div>
+        <button onClick={() => setIndex(i => i + 1)} disabled={index >= slides.length - 1} className="p-2 text-white bg-white/5 rounded-full active:scale-90 transition-all disabled:opacity-20"><svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m9 18 6-6-6-6"/></svg></button>
+      </div>
+
+      {slide && (
+        <div className="flex-1 overflow-y-auto no-scrollbar pb-16">
+          <button onClick={() => setShowNotes(s => !s)} className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Speaker notes {showNotes ? '▴' : '▾'}</button>
+          {showNotes && <p className="text-[13.5px] leading-[22px] text-zinc-300 font-tech whitespace-pre-wrap mb-6">{slide.speakerNotes || 'No notes for this slide.'}</p>}
+          {slide.citations.length > 0 && (
+            <>
+              <h4 className="text-zinc-500 text-[10px] font-black uppercase tracking-[0.3em] mb-3">Sources</h4>
+              <div className="flex flex-col gap-2">
+                {slide.citations.map(c => (
+                  <div key={c.label} className="bg-[#111214] border border-white/5 rounded-[20px] p-4">
+                    <CitationExcerpt notebook={notebook} citation={c} />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlideViewer;
@@ -0,0 +1,144 @@
+import { createMp3Encoder } from 'wasm-media-encoders';
+import { AudioChapter } from '../types';
+import { decode, encodeWav } from '../utils/audioUtils';
+import { TTS_SAMPLE_RATE, pcmDurationMs } from './audioTimeline';
+
+/**
+ * 💾 AUDIO EXPORT
+ * Overviews are stored as raw 16-bit mono PCM. WAV export adds the RIFF
+ * header; MP3 export runs the PCM through LAME (WASM) and prepends an ID3v2.3
+ * tag carrying the title, cover art and CHAP/CTOC chapter frames, which
+ * podcast players show as a chapter list.
+ */
+
+export interface AudioExportMetadata {
+  title: string;
+  artist?: string;
+  chapters?: AudioChapter[];
+  /** Data URL or fetchable URL; skipped if it cannot be read. */
+  artworkUrl?: string;
+}
+
+const MP3_BITRATE = 64;
+/** Samples handed to the encoder per call; a multiple of the 1152-sample MP3 frame. */
+const ENCODE_BLOCK = 1152 * 32;
+
+export function exportWav(pcmBase64: string, sampleRate: number = TTS_SAMPLE_RATE): Blob {
+  return new Blob([encodeWav(decode(pcmBase64), sampleRate, 1)], { type: 'audio/wav' });
+}
+
+export async function exportMp3(pcmBase64: string, metadata: AudioExportMetadata, sampleRate: number = TTS_SAMPLE_RATE): Promise<Blob> {
+  const pcm = decode(pcmBase64);
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength >> 1);
+
+  const encoder = await createMp3Encoder();
+  encoder.configure({ channels: 1, sampleRate, bitrate: MP3_BITRATE });
+
+  // The encoder returns views into its own memory, so every block is copied.
+  const frames: Uint8Array[] = [];
+  const block = new Float32Array(ENCODE_BLOCK);
+  for (let offset = 0; offset < samples.length; offset += ENCODE_BLOCK) {
+    const count = Math.min(ENCODE_BLOCK, samples.length - offset);
+    for (let i = 0; i < count; i++) block[i] = samples[offset + i] / 32768;
+    frames.push(encoder.encode([block.subarray(0, count)]).slice());
+  }
+  frames.push(encoder.finalize().slice());
+
+  const artwork = metadata.artworkUrl ? await readArtwork(metadata.artworkUrl) : null;
+  const tag = buildId3Tag({ ...metadata, durationMs: pcmDurationMs(pcm.byteLength, sampleRate) }, artwork);
+  return new Blob([tag, ...frames], { type: 'audio/mpeg' });
+}
+
+interface Artwork {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+async function readArtwork(url: string): Promise<Artwork | null> {
+  const dataUrl = url.match(/^data:([^;,]+)(;base64)?,(.*)$/);
+  if (dataUrl) {
+    const data = dataUrl[2] ? decode(dataUrl[3]) : new TextEncoder().encode(decodeURIComponent(dataUrl[3]));
+    return { mimeType: dataUrl[1], data };
+  }
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    return { mimeType: res.headers.get('content-type') || 'image/jpeg', data: new Uint8Array(await res.arrayBuffer()) };
+  } catch {
+    return null;
+  }
+}
+
+/* ---------- ID3v2.3 ---------- */
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+/** Encoding byte 0x01: UTF-16 with BOM, null-terminated. */
+function utf16(text: string, terminated: boolean): Uint8Array {
+  const out = new Uint8Array(2 + text.length * 2 + (terminated ? 2 : 0));
+  out[0] = 0xff; out[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    out[2 + i * 2] = code & 0xff;
+    out[3 + i * 2] = code >> 8;
+  }
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+}
+
+function uint32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value >>> 0);
+  return out;
+}
+
+/** v2.3 frame: 4-byte id, plain big-endian size, two flag bytes. */
+function frame(id: string, body: Uint8Array): Uint8Array {
+  return concat([latin1(id), uint32(body.length), new Uint8Array(2), body]);
+}
+
+const textFrame = (id: string, text: string) => frame(id, concat([Uint8Array.of(1), utf16(text, false)]));
+
+/** The tag header size is "synchsafe": 7 bits per byte. */
+function synchsafe(size: number): Uint8Array {
+  return Uint8Array.of((size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f);
+}
+
+export function buildId3Tag(metadata: AudioExportMetadata & { durationMs?: number }, artwork: Artwork | null = null): Uint8Array {
+  const frames: Uint8Array[] = [textFrame('TIT2', metadata.title)];
+  if (metadata.artist) frames.push(textFrame('TPE1', metadata.artist));
+  if (metadata.durationMs) frames.push(textFrame('TLEN', String(Math.round(metadata.durationMs))));
+
+  if (artwork) {
+    // Text encoding, MIME type, picture type 3 (front cover), empty description, image.
+    frames.push(frame('APIC', concat([Uint8Array.of(0), latin1(artwork.mimeType), Uint8Array.of(0, 3, 0), artwork.data])));
+  }
+
+  const chapters = (metadata.chapters || []).slice(0, 255);
+  if (chapters.length > 0) {
+    const elementIds = chapters.map((_, i) => `chp${i}`);
+    // Flags 0x03: top-level and ordered; then child element ids and an optional title.
+    frames.push(frame('CTOC', concat([
+      latin1('toc\0'), Uint8Array.of(0x03, chapters.length),
+      ...elementIds.map(id => latin1(`${id}\0`)),
+      textFrame('TIT2', metadata.title),
+    ])));
+    chapters.forEach((ch, i) => {
+      // Byte offsets are 0xFFFFFFFF ("unused") so players seek by time.
+      frames.push(frame('CHAP', concat([
+        latin1(`${elementIds[i]}\0`),
+        uint32(ch.startMs), uint32(ch.endMs), uint32(0xffffffff), uint32(0xffffffff),
+        textFrame('TIT2', ch.title),
+      ])));
+    });
+  }
+
+  const body = concat(frames);
+  return concat([latin1('ID3'), Uint8Array.of(3, 0, 0), synchsafe(body.length), body]);
+}
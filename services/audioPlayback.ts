@@ -0,0 +1,104 @@
+import { decode, encodeWav } from '../utils/audioUtils';
+import { TTS_SAMPLE_RATE } from './audioTimeline';
+
+/**
+ * ▶️ AUDIO OVERVIEW PLAYBACK ENGINE
+ * The merged PCM is wrapped as a WAV blob and played through an
+ * <audio> element, which gives pause/resume, seeking and pitch-preserving
+ * speed changes. The element is routed through the studio's AudioContext so
+ * the waveform analyser still sees the signal.
+ */
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+export const SKIP_MS = 15000;
+
+export interface PlaybackSnapshot {
+  isPlaying: boolean;
+  positionMs: number;
+  durationMs: number;
+  rate: number;
+}
+
+export class AudioPlaybackEngine {
+  private audio: HTMLAudioElement;
+  private objectUrl: string | null = null;
+  private loadedAudio: string | null = null;
+  private routed = false;
+
+  constructor(private onChange: (snapshot: PlaybackSnapshot) => void) {
+    this.audio = new Audio();
+    this.audio.preload = 'auto';
+    this.audio.preservesPitch = true;
+    const emit = () => this.onChange(this.snapshot());
+    ['play', 'pause', 'ended', 'timeupdate', 'seeked', 'ratechange', 'loadedmetadata'].forEach(e => this.audio.addEventListener(e, emit));
+  }
+
+  /**
+   * Sends output through `destination` instead of straight to the speakers.
+   * A media element can only be routed once.
+   */
+  route(ctx: AudioContext, destination: AudioNode): void {
+    if (this.routed) return;
+    ctx.createMediaElementSource(this.audio).connect(destination);
+    this.routed = true;
+  }
+
+  /** Loads raw 16-bit mono PCM; a no-op when the same payload is already loaded. */
+  load(pcmBase64: string, sampleRate: number = TTS_SAMPLE_RATE): void {
+    if (this.loadedAudio === pcmBase64) return;
+    this.releaseUrl();
+    const wav = encodeWav(decode(pcmBase64), sampleRate, 1);
+    this.objectUrl = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+    this.audio.src = this.objectUrl;
+    this.loadedAudio = pcmBase64;
+    this.onChange(this.snapshot());
+  }
+
+  async play(fromMs?: number): Promise<void> {
+    if (fromMs !== undefined) this.seek(fromMs);
+    await this.audio.play();
+  }
+
+  pause(): void {
+    this.audio.pause();
+  }
+
+  seek(ms: number): void {
+    const durationMs = this.durationMs();
+    const clamped = Math.max(0, durationMs > 0 ? Math.min(ms, durationMs) : ms);
+    this.audio.currentTime = clamped / 1000;
+  }
+
+  skip(deltaMs: number): void {
+    this.seek(this.audio.currentTime * 1000 + deltaMs);
+  }
+
+  setRate(rate: number): void {
+    this.audio.playbackRate = rate;
+  }
+
+  snapshot(): PlaybackSnapshot {
+    return {
+      isPlaying: !this.audio.paused && !this.audio.ended,
+      positionMs: this.audio.currentTime * 1000,
+      durationMs: this.durationMs(),
+      rate: this.audio.playbackRate,
+    };
+  }
+
+  dispose(): void {
+    this.audio.pause();
+    this.audio.removeAttribute('src');
+    this.releaseUrl();
+    this.loadedAudio = null;
+  }
+
+  private durationMs(): number {
+    return Number.isFinite(this.audio.duration) ? this.audio.duration * 1000 : 0;
+  }
+
+  private releaseUrl(): void {
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = null;
+  }
+}
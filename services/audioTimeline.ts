@@ -0,0 +1,109 @@
+import { AudioChapter, TranscriptSegment } from '../types';
+
+/**
+ * ⏱️ AUDIO OVERVIEW TIMELINE
+ * Gemini TTS returns raw 16-bit mono PCM at 24 kHz, so a chunk's duration is
+ * exact from its byte length. Each outline part is one chunk and one chapter;
+ * inside a chunk, turns get time in proportion to their text length.
+ */
+
+export const TTS_SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+
+export type Speaker = TranscriptSegment['speaker'];
+
+export interface ScriptTurn {
+  speaker: Speaker;
+  text: string;
+}
+
+/** A script part as the model returns it. */
+export interface RawScriptChunk {
+  script?: string;
+  text?: string;
+  speaker?: string;
+  transcript?: { speaker?: string; text?: string }[];
+}
+
+export interface TimelinePart {
+  title: string;
+  summary: string;
+  /** Byte length of this part's decoded PCM; 0 when synthesis produced nothing. */
+  pcmBytes: number;
+  turns: ScriptTurn[];
+}
+
+export interface AudioTimeline {
+  chapters: AudioChapter[];
+  transcript: TranscriptSegment[];
+  durationMs: number;
+}
+
+export function pcmDurationMs(byteLength: number, sampleRate: number = TTS_SAMPLE_RATE): number {
+  return Math.round((byteLength / BYTES_PER_SAMPLE / sampleRate) * 1000);
+}
+
+const asSpeaker = (name: unknown): Speaker => String(name).trim().toLowerCase() === 'jordan' ? 'Jordan' : 'Alex';
+
+/**
+ * Normalises whatever the script model returned into speaker turns: its
+ * `transcript` array when present, else `Alex:` / `Jordan:` lines in the script.
+ */
+export function toScriptTurns(chunk: RawScriptChunk): ScriptTurn[] {
+  const fromTranscript = (chunk.transcript || [])
+    .filter(t => t && typeof t.text === 'string' && t.text.trim())
+    .map(t => ({ speaker: asSpeaker(t.speaker), text: t.text!.trim() }));
+  if (fromTranscript.length > 0) return fromTranscript;
+
+  const script = (chunk.script || chunk.text || '').trim();
+  if (!script) return [];
+  const turns: ScriptTurn[] = [];
+  script.split('\n').forEach(line => {
+    const match = line.match(/^\s*(Alex|Jordan)\s*:\s*(.+)$/i);
+    if (match) turns.push({ speaker: asSpeaker(match[1]), text: match[2].trim() });
+    else if (line.trim() && turns.length > 0) turns[turns.length - 1].text += ` ${line.trim()}`;
+  });
+  return turns.length > 0 ? turns : [{ speaker: asSpeaker(chunk.speaker), text: script }];
+}
+
+/**
+ * Lays parts end to end. Parts without audio add no time and no chapter,
+ * so chapter boundaries always match what the merged file actually plays.
+ */
+export function buildTimeline(parts: TimelinePart[]): AudioTimeline {
+  const chapters: AudioChapter[] = [];
+  const transcript: TranscriptSegment[] = [];
+  let cursor = 0;
+
+  parts.forEach((part, i) => {
+    const durationMs = pcmDurationMs(part.pcmBytes);
+    if (durationMs === 0) return;
+    const startMs = cursor;
+    const endMs = cursor + durationMs;
+
+    chapters.push({ id: `ch-${i + 1}`, title: part.title, summary: part.summary, startMs, endMs });
+
+    const totalChars = part.turns.reduce((sum, t) => sum + t.text.length, 0) || 1;
+    let consumed = 0;
+    part.turns.forEach((turn, j) => {
+      const segStart = startMs + Math.round(durationMs * consumed / totalChars);
+      consumed += turn.text.length;
+      const segEnd = j === part.turns.length - 1 ? endMs : startMs + Math.round(durationMs * consumed / totalChars);
+      transcript.push({ id: `seg-${i + 1}-${j + 1}`, speaker: turn.speaker, text: turn.text, startMs: segStart, endMs: segEnd });
+    });
+
+    cursor = endMs;
+  });
+
+  return { chapters, transcript, durationMs: cursor };
+}
+
+/**
+ * Index of the chapter playing at `ms`, or -1 before the first chapter.
+ */
+export function chapterAt(chapters: AudioChapter[], ms: number): number {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (ms >= chapters[i].startMs) return i;
+  }
+  return -1;
+}
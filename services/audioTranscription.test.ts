@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chunkPcm, stubTranscriptionProvider, transcribeSamples,
+  TRANSCRIPTION_CHUNK_SECONDS, TRANSCRIPTION_SAMPLE_RATE, TranscriptionProvider,
+} from './audioTranscription';
+
+/** Silence is enough: the stub provider never listens. */
+const seconds = (s: number) => new Float32Array(Math.round(s * TRANSCRIPTION_SAMPLE_RATE));
+
+describe('chunkPcm', () => {
+  it('splits into fixed-length WAV chunks with their offsets', () => {
+    const chunks = Array.from(chunkPcm(seconds(TRANSCRIPTION_CHUNK_SECONDS * 2 + 10)));
+    expect(chunks.map(c => [c.index, c.total, c.offsetMs, c.durationMs])).toEqual([
+      [0, 3, 0, 90000],
+      [1, 3, 90000, 90000],
+      [2, 3, 180000, 10000],
+    ]);
+    expect(chunks[0].mimeType).toBe('audio/wav');
+    expect(atob(chunks[0].data).slice(0, 4)).toBe('RIFF');
+  });
+});
+
+describe('transcribeSamples with the stub provider', () => {
+  it('returns speaker turns with absolute timestamps and reports progress', async () => {
+    const progress: number[] = [];
+    const source = await transcribeSamples(seconds(200), stubTranscriptionProvider, p => progress.push(p));
+
+    expect(source.type).toBe('audio');
+    expect(progress).toEqual([0, 1 / 3, 2 / 3, 1]);
+    expect(source.segments!.map(s => [s.speaker, s.startMs, s.endMs])).toEqual([
+      ['Speaker 1', 0, 90000],
+      ['Speaker 2', 90000, 180000],
+      ['Speaker 1', 180000, 200000],
+    ]);
+    const second = source.segments![1];
+    expect(source.content!.slice(second.start, second.end)).toBe('[01:30] Speaker 2: Stub transcription of chunk 2 of 3 (01:30).');
+  });
+
+  it('passes earlier speaker labels to later chunks', async () => {
+    const seen: string[][] = [];
+    const provider: TranscriptionProvider = {
+      async transcribe(chunk, knownSpeakers) {
+        seen.push(knownSpeakers);
+        return stubTranscriptionProvider.transcribe(chunk, knownSpeakers);
+      },
+    };
+    await transcribeSamples(seconds(200), provider);
+    expect(seen).toEqual([[], ['Speaker 1'], ['Speaker 1', 'Speaker 2']]);
+  });
+
+  it('stops sending chunks once the signal is aborted', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const provider: TranscriptionProvider = {
+      async transcribe(chunk, knownSpeakers, signal) {
+        calls++;
+        expect(signal).toBe(controller.signal);
+        controller.abort();
+        return stubTranscriptionProvider.transcribe(chunk, knownSpeakers);
+      },
+    };
+    await expect(transcribeSamples(seconds(200), provider, undefined, controller.signal)).rejects.toThrow();
+    expect(calls).toBe(1);
+  });
+
+  it('rejects empty audio and recordings without speech', async () => {
+    await expect(transcribeSamples(new Float32Array(0), stubTranscriptionProvider)).rejects.toMatchObject({ code: 'empty' });
+    const silent: TranscriptionProvider = { async transcribe() { return [{ speaker: 'Speaker 1', startMs: 0, endMs: 10, text: '  ' }]; } };
+    await expect(transcribeSamples(seconds(5), silent)).rejects.toMatchObject({ code: 'empty', message: 'No speech was detected in this recording.' });
+  });
+});
@@ -0,0 +1,148 @@
+import { Source } from '../types';
+import { ExtractionError } from './extractionError';
+import { buildTranscript, TimedCue } from './timedTranscript';
+import { decodeFileToMono, encodeWav, encode, floatTo16BitPCM } from '../utils/audioUtils';
+import { formatTimestamp } from '../utils/timecode';
+
+/**
+ * 🎙️ AUDIO SOURCE TRANSCRIPTION
+ * Decode -> 16 kHz mono -> fixed-length WAV chunks -> provider -> speaker turns.
+ * Providers are pluggable so tests can run against the deterministic stub.
+ */
+
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+export const TRANSCRIPTION_CHUNK_SECONDS = 90;
+
+export interface AudioChunk {
+  index: number;
+  total: number;
+  /** Position of this chunk in the full recording. */
+  offsetMs: number;
+  durationMs: number;
+  /** Base64 WAV (16-bit PCM, mono). */
+  data: string;
+  mimeType: string;
+}
+
+/** A speaker turn with times relative to the start of its chunk. */
+export interface TranscribedTurn {
+  speaker: string;
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface TranscriptionProvider {
+  /**
+   * `knownSpeakers` lists labels used in earlier chunks so the provider can
+   * keep them consistent across chunk boundaries.
+   */
+  transcribe(chunk: AudioChunk, knownSpeakers: string[], signal?: AbortSignal): Promise<TranscribedTurn[]>;
+}
+
+/**
+ * Deterministic provider for tests and offline development: one turn per
+ * chunk, alternating between two speakers.
+ */
+export const stubTranscriptionProvider: TranscriptionProvider = {
+  async transcribe(chunk) {
+    return [{
+      speaker: `Speaker ${(chunk.index % 2) + 1}`,
+      startMs: 0,
+      endMs: chunk.durationMs,
+      text: `Stub transcription of chunk ${chunk.index + 1} of ${chunk.total} (${formatTimestamp(chunk.offsetMs)}).`,
+    }];
+  },
+};
+
+/**
+ * Wraps a GeminiService-style client as a provider. A null result means the
+ * model was unreachable, which fails the whole source rather than leaving gaps.
+ */
+export function createGeminiTranscriptionProvider(client: {
+  transcribeAudioChunk(chunk: AudioChunk, knownSpeakers: string[], signal?: AbortSignal): Promise<TranscribedTurn[] | null>;
+}): TranscriptionProvider {
+  return {
+    async transcribe(chunk, knownSpeakers, signal) {
+      const turns = await client.transcribeAudioChunk(chunk, knownSpeakers, signal);
+      if (!turns) {
+        throw new ExtractionError('fetch-failed', `Transcription is unavailable (stopped at ${formatTimestamp(chunk.offsetMs)}).`);
+      }
+      return turns;
+    },
+  };
+}
+
+/**
+ * Yields WAV chunks lazily so a long recording is never base64-encoded all at once.
+ */
+export function* chunkPcm(samples: Float32Array, sampleRate: number = TRANSCRIPTION_SAMPLE_RATE, seconds: number = TRANSCRIPTION_CHUNK_SECONDS): Generator<AudioChunk> {
+  const size = sampleRate * seconds;
+  const total = Math.max(1, Math.ceil(samples.length / size));
+  for (let i = 0; i < total; i++) {
+    const slice = samples.subarray(i * size, Math.min(samples.length, (i + 1) * size));
+    yield {
+      index: i,
+      total,
+      offsetMs: Math.round((i * size / sampleRate) * 1000),
+      durationMs: Math.round((slice.length / sampleRate) * 1000),
+      data: encode(encodeWav(floatTo16BitPCM(slice), sampleRate, 1)),
+      mimeType: 'audio/wav',
+    };
+  }
+}
+
+/**
+ * Transcribes an uploaded audio file chunk by chunk, reporting progress
+ * after each chunk, and returns the Source fields for it. Aborting `signal`
+ * stops before the next chunk is sent.
+ */
+export async function transcribeAudioFile(
+  data: ArrayBuffer,
+  provider: TranscriptionProvider,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal,
+): Promise<Partial<Source>> {
+  let samples: Float32Array;
+  try {
+    samples = await decodeFileToMono(data, TRANSCRIPTION_SAMPLE_RATE);
+  } catch {
+    throw new ExtractionError('unreadable', 'This audio format could not be decoded by the browser.');
+  }
+  return transcribeSamples(samples, provider, onProgress, signal);
+}
+
+/** The chunk loop behind transcribeAudioFile, for 16 kHz mono samples. */
+export async function transcribeSamples(
+  samples: Float32Array,
+  provider: TranscriptionProvider,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal,
+): Promise<Partial<Source>> {
+  if (samples.length === 0) throw new ExtractionError('empty', 'The audio file is empty.');
+
+  const cues: TimedCue[] = [];
+  const speakers = new Set<string>();
+  onProgress?.(0);
+
+  for (const chunk of chunkPcm(samples)) {
+    signal?.throwIfAborted();
+    const turns = await provider.transcribe(chunk, Array.from(speakers), signal);
+    turns
+      .filter(t => t.text && t.text.trim())
+      .forEach(t => {
+        speakers.add(t.speaker);
+        cues.push({
+          speaker: t.speaker,
+          text: t.text.trim(),
+          startMs: chunk.offsetMs + Math.max(0, Math.min(t.startMs, chunk.durationMs)),
+          endMs: chunk.offsetMs + Math.max(0, Math.min(t.endMs, chunk.durationMs)),
+        });
+      });
+    onProgress?.((chunk.index + 1) / chunk.total);
+  }
+
+  if (cues.length === 0) throw new ExtractionError('empty', 'No speech was detected in this recording.');
+  const { content, segments } = buildTranscript(cues);
+  return { type: 'audio', content, segments };
+}
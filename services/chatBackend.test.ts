@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Message, Notebook } from '../types';
+import { createScriptedChatBackend } from './chatBackend';
+import { regenerationTarget } from './chatMemory';
+import { ChatAnswer, GeminiService } from './geminiService';
+
+const notebook = {
+  id: 'nb-chat-test',
+  title: 'Tides',
+  createdAt: 0,
+  sources: [{
+    id: 'src-1', type: 'text', title: 'Tidal Energy', status: 'indexed', indexed: true,
+    content: 'Tidal power converts the energy of moving water into electricity. Tides can be forecast years in advance.',
+  }],
+} as unknown as Notebook;
+
+// No client: history and query rewriting take their offline paths, so only the scripted backend is called.
+beforeAll(() => { vi.stubEnv('API_KEY', ''); });
+
+const collect = async (stream: AsyncIterable<ChatAnswer>) => {
+  const snapshots: ChatAnswer[] = [];
+  for await (const snapshot of stream) snapshots.push(snapshot);
+  return snapshots;
+};
+
+describe('streamChatResponse with a scripted backend', () => {
+  it('yields a growing answer per delta and resolves citations at the end', async () => {
+    const backend = createScriptedChatBackend(['Tides are ', 'predictable ', '[S1:p1', ']', '.']);
+    const snapshots = await collect(new GeminiService(backend).streamChatResponse(notebook, 'Are tides predictable?'));
+
+    expect(snapshots.map(s => s.text)).toEqual([
+      'Tides are ',
+      'Tides are predictable ',
+      'Tides are predictable',
+      'Tides are predictable [S1:p1]',
+      'Tides are predictable [S1:p1].',
+      'Tides are predictable [S1:p1].',
+    ]);
+    const final = snapshots[snapshots.length - 1];
+    expect(final.citations.map(c => [c.label, c.sourceId])).toEqual([['S1:p1', 'src-1']]);
+    expect(final.unverifiedCitations).toEqual([]);
+
+    expect(backend.requests).toHaveLength(1);
+    expect(backend.requests[0].prompt).toContain('USER QUESTION:\nAre tides predictable?');
+    expect(backend.requests[0].prompt).toContain('[S1:p1]');
+  });
+
+  it('drops citations to passages that were not retrieved', async () => {
+    const backend = createScriptedChatBackend(['Made up [S9:p9].']);
+    const snapshots = await collect(new GeminiService(backend).streamChatResponse(notebook, 'Tides?'));
+    const final = snapshots[snapshots.length - 1];
+    expect(final.citations).toEqual([]);
+    expect(final.unverifiedCitations).toEqual(['S9:p9']);
+  });
+
+  it('stops partway through when aborted and keeps what arrived', async () => {
+    const controller = new AbortController();
+    const backend = createScriptedChatBackend(['Tides ', 'are ', 'predictable ', 'and ', 'strong.'], 5);
+    const snapshots: ChatAnswer[] = [];
+    for await (const snapshot of new GeminiService(backend).streamChatResponse(notebook, 'Tides?', [], controller.signal)) {
+      snapshots.push(snapshot);
+      if (snapshots.length === 2) controller.abort();
+    }
+
+    expect(snapshots.map(s => s.text)).toEqual(['Tides ', 'Tides are ', 'Tides are ']);
+    expect(snapshots[snapshots.length - 1].citations).toEqual([]);
+  });
+
+  it('does not offer the fallback answer when stopped before any text', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const backend = createScriptedChatBackend(['Never sent.']);
+    const snapshots = await collect(new GeminiService(backend).streamChatResponse(notebook, 'Tides?', [], controller.signal));
+    expect(snapshots).toEqual([]);
+  });
+
+  it('falls back to a no-information reply when the stream is empty', async () => {
+    const snapshots = await collect(new GeminiService(createScriptedChatBackend([])).streamChatResponse(notebook, 'Tides?'));
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].text).toMatch(/not finding enough information/);
+  });
+});
+
+describe('regenerate', () => {
+  it('asks the last question again with the thread before it', async () => {
+    const thread: Message[] = [
+      { role: 'user', text: 'What is tidal power?' },
+      { role: 'model', text: 'Electricity from moving water [S1:p1].' },
+      { role: 'user', text: 'Is it predictable?' },
+      { role: 'model', text: 'Yes, partly.', stopped: true },
+    ];
+    const target = regenerationTarget(thread)!;
+    expect(target.query).toBe('Is it predictable?');
+    expect(target.history).toEqual(thread.slice(0, 2));
+
+    const backend = createScriptedChatBackend(['Tides can be forecast years ahead ', '[S1:p1].']);
+    const gemini = new GeminiService(backend);
+    const first = await collect(gemini.streamChatResponse(notebook, target.query, target.history));
+    const again = await collect(gemini.streamChatResponse(notebook, target.query, target.history));
+
+    expect(backend.requests).toHaveLength(2);
+    expect(backend.requests[1]).toEqual(backend.requests[0]);
+    expect(backend.requests[0].prompt).toContain('User: What is tidal power?');
+    expect(backend.requests[0].prompt).not.toContain('Yes, partly.');
+    expect(again[again.length - 1]).toEqual(first[first.length - 1]);
+  });
+
+  it('has nothing to regenerate in an empty thread', () => {
+    expect(regenerationTarget([])).toBeNull();
+  });
+});
+
+describe('chat memory requests', () => {
+  /** A client stand-in that answers generateContent from `answers`, one per call. */
+  const withClient = (answers: (string | Error)[]) => {
+    const configs: { abortSignal?: AbortSignal }[] = [];
+    const gemini = new GeminiService(createScriptedChatBackend([]));
+    const client = {
+      models: {
+        generateContent: async ({ config }: { config: { abortSignal?: AbortSignal } }) => {
+          configs.push(config);
+          const answer = answers.shift();
+          if (answer instanceof Error) throw answer;
+          return { text: answer };
+        },
+      },
+    };
+    Object.assign(gemini, { getClient: () => client });
+    return { gemini, configs };
+  };
+
+  const older: Message[] = [
+    { role: 'user', text: 'What is tidal power?' },
+    { role: 'model', text: 'Electricity from moving water.' },
+  ];
+
+  beforeAll(() => { vi.stubGlobal('window', {}); });
+  afterAll(() => { vi.unstubAllGlobals(); });
+
+  it('sends the stop signal with the summary and rewrite requests', async () => {
+    const { gemini, configs } = withClient(['Tidal power basics.', 'tidal power predictability']);
+    const signal = new AbortController().signal;
+    await gemini.summarizeHistory(older, signal);
+    await gemini.rewriteStandaloneQuery(older, 'Is it predictable?', signal);
+    expect(configs.map(c => c.abortSignal)).toEqual([signal, signal]);
+  });
+
+  it('does not cache the local summary after a failed request', async () => {
+    const { gemini, configs } = withClient([new Error('network error'), 'Tidal power basics.']);
+    const fallback = await gemini.summarizeHistory(older);
+    expect(fallback).not.toBe('Tidal power basics.');
+    expect(await gemini.summarizeHistory(older)).toBe('Tidal power basics.');
+    expect(await gemini.summarizeHistory(older)).toBe('Tidal power basics.');
+    expect(configs).toHaveLength(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { suppressGeminiErrors } from "../utils/suppressGeminiErrors";
+
+/**
+ * 💬 CHAT STREAM BACKEND
+ * Yields the reply as text deltas. GeminiService owns retrieval and citation
+ * parsing; the backend only turns a prompt into a stream, so tests can swap
+ * in a scripted one.
+ */
+
+export interface ChatStreamRequest {
+  model: string;
+  systemInstruction: string;
+  prompt: string;
+  temperature: number;
+}
+
+export interface ChatBackend {
+  /** Stops yielding (without throwing) once `signal` is aborted. */
+  stream(request: ChatStreamRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+const UNSYNCED_REPLY = "Sources currently unsynced.";
+
+export function createGeminiChatBackend(getClient: () => GoogleGenAI | null): ChatBackend {
+  return {
+    async *stream(request, signal) {
+      const ai = getClient();
+      if (!ai) { yield UNSYNCED_REPLY; return; }
+
+      const stream = await suppressGeminiErrors<AsyncGenerator<GenerateContentResponse>>(ai.models.generateContentStream({
+        model: request.model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          abortSignal: signal,
+        }
+      }));
+      if (!stream) return;
+
+      while (!signal?.aborted) {
+        let step: IteratorResult<GenerateContentResponse> | null;
+        try {
+          step = await suppressGeminiErrors(stream.next());
+        } catch (err) {
+          if (signal?.aborted) return;
+          throw err;
+        }
+        if (!step || step.done) return;
+        if (step.value.text) yield step.value.text;
+      }
+    }
+  };
+}
+
+/**
+ * Deterministic backend for tests: replays `chunks` in order and records
+ * every request it receives.
+ */
+export function createScriptedChatBackend(chunks: string[], delayMs: number = 0): ChatBackend & { requests: ChatStreamRequest[] } {
+  const requests: ChatStreamRequest[] = [];
+  return {
+    requests,
+    async *stream(request, signal) {
+      requests.push(request);
+      for (const chunk of chunks) {
+        if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+        if (signal?.aborted) return;
+        yield chunk;
+      }
+    }
+  };
+}
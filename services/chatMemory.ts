@@ -0,0 +1,91 @@
+import { Message } from '../types';
+import { CITATION_MARKER } from './citations';
+
+/**
+ * 🧠 CHAT MEMORY
+ * Recent turns are sent verbatim; anything older than the token budget is
+ * folded into a short summary. Follow-ups are rewritten into a standalone
+ * query before retrieval so "what about the hardware side?" still finds
+ * the right passages.
+ */
+
+/** Rough budget for verbatim history, leaving room for sources in the prompt. */
+export const HISTORY_TOKEN_BUDGET = 1500;
+/** Cap on the summary of older turns. */
+export const HISTORY_SUMMARY_TOKENS = 250;
+
+export interface PackedHistory {
+  /** Turns too old for the budget, oldest first. Empty when everything fits. */
+  older: Message[];
+  /** Turns sent verbatim, oldest first. */
+  recent: Message[];
+}
+
+/** ~4 characters per token is close enough for budgeting English text. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Citation labels are only meaningful for the passages retrieved in their own
+ * turn, so they are removed before a message is replayed as history.
+ */
+function plainText(message: Message): string {
+  return message.text.replace(CITATION_MARKER, '').replace(/[ \t]+([.,;:!?])/g, '$1').trim();
+}
+
+export function packHistory(history: Message[], budget: number = HISTORY_TOKEN_BUDGET): PackedHistory {
+  const turns = history.filter(m => m.text.trim());
+  let used = 0;
+  let cut = turns.length;
+  while (cut > 0) {
+    const cost = estimateTokens(plainText(turns[cut - 1]));
+    if (used + cost > budget) break;
+    used += cost;
+    cut--;
+  }
+  // An answer without its question reads as noise; move it to the summary.
+  if (cut < turns.length && turns[cut].role === 'model') cut++;
+  return { older: turns.slice(0, cut), recent: turns.slice(cut) };
+}
+
+export function formatTranscript(messages: Message[]): string {
+  return messages
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${plainText(m)}`)
+    .join('\n');
+}
+
+/**
+ * Offline stand-in for the model summary: the questions asked so far,
+ * newest kept when the cap is reached.
+ */
+export function summarizeHistoryLocally(older: Message[], maxTokens: number = HISTORY_SUMMARY_TOKENS): string {
+  const questions: string[] = [];
+  let used = 0;
+  for (const m of older.filter(m => m.role === 'user').reverse()) {
+    const text = plainText(m);
+    if (used + estimateTokens(text) > maxTokens) break;
+    used += estimateTokens(text);
+    questions.unshift(text);
+  }
+  return questions.length > 0 ? `Earlier the user asked: ${questions.join(' / ')}` : '';
+}
+
+/**
+ * Offline stand-in for query rewriting: the previous question carries the
+ * topic, the follow-up carries the new angle.
+ */
+export function rewriteQueryLocally(history: Message[], query: string): string {
+  const previous = [...history].reverse().find(m => m.role === 'user');
+  return previous ? `${plainText(previous)} ${query}` : query;
+}
+
+/**
+ * What regenerating the last answer asks again: the newest question and the
+ * thread before it. Null when nothing has been asked yet.
+ */
+export function regenerationTarget(messages: Message[]): { query: string; history: Message[] } | null {
+  const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+  if (lastUserIndex === -1) return null;
+  return { query: messages[lastUserIndex].text, history: messages.slice(0, lastUserIndex) };
+}
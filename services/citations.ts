@@ -0,0 +1,104 @@
+import { Citation, Passage } from '../types';
+import { formatTimestamp } from '../utils/timecode';
+
+/**
+ * 🔗 CITATION PROTOCOL
+ * Retrieved passages are labelled `S<n>:p<ordinal>` where `n` numbers the
+ * distinct sources in retrieval order and `ordinal` is the passage's position
+ * inside its source. The model cites labels inline; we map them back to
+ * stable passage ids and drop anything that was never retrieved.
+ */
+
+export interface LabeledPassage {
+  label: string;
+  passage: Passage;
+}
+
+export interface ParsedCitations {
+  text: string;
+  citations: Citation[];
+  /** Labels the model cited that were not in the retrieved set. */
+  dropped: string[];
+}
+
+const CITATION_GROUP = /([ \t]*)\[((?:S\d+:p\d+)(?:\s*[,;]\s*S\d+:p\d+)*)\]/g;
+export const CITATION_MARKER = /\[(S\d+:p\d+)\]/g;
+const PARTIAL_CITATION_TAIL = /[ \t]*\[(?:S\d*(?::p?\d*)?(?:\s*[,;]\s*(?:S\d*(?::p?\d*)?)?)*)?$/;
+
+export function labelPassages(passages: Passage[]): LabeledPassage[] {
+  const sourceNumbers = new Map<string, number>();
+  return passages.map(passage => {
+    if (!sourceNumbers.has(passage.sourceId)) sourceNumbers.set(passage.sourceId, sourceNumbers.size + 1);
+    return { label: `S${sourceNumbers.get(passage.sourceId)}:p${passage.ordinal}`, passage };
+  });
+}
+
+export function toCitation(label: string, passage: Passage): Citation {
+  return {
+    label,
+    passageId: passage.id,
+    sourceId: passage.sourceId,
+    sourceTitle: passage.sourceTitle,
+    start: passage.start,
+    end: passage.end,
+    page: passage.page,
+    timestampMs: passage.timestampMs,
+  };
+}
+
+/**
+ * Human-readable position inside a source: "p. 12" or "at 04:31".
+ */
+export function describeLocation(loc: { page?: number; timestampMs?: number }): string {
+  if (loc.page) return `p. ${loc.page}`;
+  if (loc.timestampMs !== undefined) return `at ${formatTimestamp(loc.timestampMs)}`;
+  return '';
+}
+
+export function formatCitableContext(labeled: LabeledPassage[]): string {
+  return labeled.map(({ label, passage }) => {
+    const where = describeLocation(passage);
+    return `[${label}] (${where ? `${passage.sourceTitle}, ${where}` : passage.sourceTitle}):\n${passage.text}`;
+  }).join("\n\n");
+}
+
+export const CITATION_INSTRUCTION = `
+Each source passage is prefixed with an id such as [S2:p4].
+After every sentence that relies on a passage, cite it inline using exactly that id, e.g. "... in 2024 [S2:p4]."
+Cite several passages as separate brackets: [S1:p2][S3:p1].
+Only cite ids that appear in SOURCES.
+When a passage lists a page or a timestamp, you may also name it in prose (e.g. "on p. 12", "at 04:31").
+`.trim();
+
+/**
+ * Maps inline labels back to passages. Grouped forms like `[S1:p2, S3:p1]`
+ * are normalised to `[S1:p2][S3:p1]`; unknown labels are removed from the
+ * text and reported in `dropped`.
+ */
+export function parseCitations(text: string, labeled: LabeledPassage[]): ParsedCitations {
+  const byLabel = new Map(labeled.map(l => [l.label, l.passage]));
+  const citations = new Map<string, Citation>();
+  const dropped = new Set<string>();
+
+  const cleaned = text.replace(CITATION_GROUP, (_, space: string, group: string) => {
+    const labels = group.split(/\s*[,;]\s*/);
+    const kept = labels.map(label => {
+      const passage = byLabel.get(label);
+      if (!passage) { dropped.add(label); return ''; }
+      if (!citations.has(label)) citations.set(label, toCitation(label, passage));
+      return `[${label}]`;
+    }).join('');
+    // Fully dropped groups take their leading space with them.
+    return kept ? space + kept : '';
+  });
+
+  return { text: cleaned, citations: Array.from(citations.values()), dropped: Array.from(dropped) };
+}
+
+/**
+ * While a reply is streaming, a citation can arrive split across chunks
+ * ("... in 2024 [S2:"). The unfinished tail is hidden until it closes.
+ */
+export function trimPartialCitation(text: string): string {
+  return text.replace(PARTIAL_CITATION_TAIL, '');
+}
@@ -0,0 +1,12 @@
+/**
+ * 🧾 INGESTION FAILURES
+ * Thrown by source extractors; `message` is user-facing and is shown on the source card.
+ */
+export type ExtractionErrorCode = 'encrypted' | 'image-only' | 'unreadable' | 'fetch-failed' | 'empty';
+
+export class ExtractionError extends Error {
+  constructor(public code: ExtractionErrorCode, message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard } from '../types';
+import { toAnkiText } from './flashcards';
+
+const card = (front: string, back: string, page?: number): Flashcard => ({
+  id: front, front, back,
+  citation: { label: 'S1:p1', passageId: 'src-1:p1', sourceId: 'src-1', sourceTitle: 'Tidal Report', start: 0, end: 10, page },
+});
+
+const rows = (text: string) => text.split('\n').filter(line => line && !line.startsWith('#'));
+
+describe('toAnkiText', () => {
+  it('writes Anki headers for the chosen separator', () => {
+    expect(toAnkiText([], 'csv', 'Tides').split('\n').slice(0, 4)).toEqual([
+      '#separator:comma', '#html:false', '#columns:Front,Back,Source,Tags', '#tags column:4',
+    ]);
+    expect(toAnkiText([], 'tsv', 'Tides')).toContain('#separator:tab\n#html:false\n#columns:Front\tBack\tSource\tTags\n');
+  });
+
+  it('quotes CSV fields with commas or quotes and doubles the quotes', () => {
+    const text = toAnkiText([card('Tides, explained', 'The "spring" tide', 3)], 'csv', 'Tidal energy');
+    expect(rows(text)).toEqual(['"Tides, explained","The ""spring"" tide",Tidal Report (p. 3),Tidal_energy']);
+  });
+
+  it('leaves plain CSV fields bare', () => {
+    expect(rows(toAnkiText([card('What moves turbines?', 'Moving water')], 'csv', 'Tides'))).toEqual(['What moves turbines?,Moving water,Tidal Report,Tides']);
+  });
+
+  it('flattens newlines so every card stays on one line', () => {
+    const text = toAnkiText([card('Line one\nline two', 'A\r\nB')], 'csv', 'Tides');
+    expect(rows(text)).toEqual(['Line one line two,A B,Tidal Report,Tides']);
+  });
+
+  it('replaces tabs in TSV fields and keeps commas and quotes as they are', () => {
+    const text = toAnkiText([card('Tab\there', 'Say "yes", then stop')], 'tsv', 'Tides');
+    expect(rows(text)).toEqual(['Tab here\tSay "yes", then stop\tTidal Report\tTides']);
+  });
+
+  it('ends with a newline', () => {
+    expect(toAnkiText([card('Q', 'A')], 'csv', 'Tides').endsWith('Tides\n')).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { Flashcard, Notebook } from '../types';
+import { LabeledPassage, describeLocation, toCitation } from './citations';
+import { tokenize } from './retrieval';
+
+/**
+ * 🃏 FLASHCARDS
+ * Cards are built from retrieved passages and each one cites the passage it
+ * came from. The model writes question/answer pairs; offline, cloze cards
+ * are cut from the passages themselves.
+ */
+
+export const FLASHCARD_COUNTS = [10, 20, 30];
+export const DEFAULT_FLASHCARD_COUNT = 10;
+
+export interface RawFlashcard {
+  front?: string;
+  back?: string;
+  cite?: string;
+}
+
+/**
+ * Retrieval query for a deck or quiz: the user's focus when given, otherwise
+ * the notebook keywords so questions spread across its main topics.
+ */
+export function studyQuery(notebook: Notebook, focus?: string): string {
+  return focus?.trim() || [notebook.title, ...(notebook.keywords || [])].join(' ');
+}
+
+/**
+ * Keeps model cards that cite a retrieved passage; anything else cannot be
+ * traced back to a source and is dropped.
+ */
+export function cardsFromModel(raw: RawFlashcard[], labeled: LabeledPassage[], idPrefix: string): Flashcard[] {
+  const byLabel = new Map(labeled.map(l => [l.label, l.passage]));
+  const cards: Flashcard[] = [];
+  raw.forEach(r => {
+    const front = r.front?.trim();
+    const back = r.back?.trim();
+    const label = r.cite?.replace(/[[\]]/g, '').trim() || '';
+    const passage = byLabel.get(label);
+    if (!front || !back || !passage) return;
+    cards.push({ id: `${idPrefix}-${cards.length + 1}`, front, back, citation: toCitation(label, passage) });
+  });
+  return cards;
+}
+
+const MIN_SENTENCE_CHARS = 40;
+const MAX_SENTENCE_CHARS = 240;
+
+/** Sentences of a passage that are a sensible length to ask about. */
+export function quizzableSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]/g) || [])
+    .map(s => s.trim())
+    .filter(s => s.length >= MIN_SENTENCE_CHARS && s.length <= MAX_SENTENCE_CHARS);
+}
+
+/** The word a cloze blanks: a notebook keyword when present, otherwise the longest content word. */
+export function clozeAnswer(sentence: string, keywords: Set<string>): string | undefined {
+  const words = sentence.match(/[A-Za-z][A-Za-z0-9-]{3,}/g) || [];
+  return words.find(w => keywords.has(w.toLowerCase()))
+    || words.filter(w => tokenize(w).length > 0).sort((a, b) => b.length - a.length)[0];
+}
+
+export const blankOut = (sentence: string, answer: string) => sentence.replace(new RegExp(`\\b${answer}\\b`), '_____');
+
+/**
+ * One cloze card per usable sentence, blanking a notebook keyword when the
+ * sentence has one and its longest word otherwise.
+ */
+export function generateLocalFlashcards(labeled: LabeledPassage[], count: number, keywords: string[], idPrefix: string): Flashcard[] {
+  const keywordSet = new Set(keywords.map(k => k.toLowerCase()));
+  const cards: Flashcard[] = [];
+  const seen = new Set<string>();
+
+  for (let round = 0; cards.length < count && round < 3; round++) {
+    labeled.forEach(({ label, passage }) => {
+      if (cards.length >= count) return;
+      const sentence = quizzableSentences(passage.text)[round];
+      if (!sentence || seen.has(sentence)) return;
+      const answer = clozeAnswer(sentence, keywordSet);
+      if (!answer) return;
+
+      seen.add(sentence);
+      cards.push({
+        id: `${idPrefix}-${cards.length + 1}`,
+        front: blankOut(sentence, answer),
+        back: answer,
+        citation: toCitation(label, passage),
+      });
+    });
+  }
+  return cards;
+}
+
+/* ---------- Anki export ---------- */
+
+export type AnkiFormat = 'csv' | 'tsv';
+
+function ankiField(value: string, format: AnkiFormat): string {
+  const flat = value.replace(/\r?\n/g, ' ').trim();
+  if (format === 'tsv') return flat.replace(/\t/g, ' ');
+  return /[",]/.test(flat) ? `"${flat.replace(/"/g, '""')}"` : flat;
+}
+
+/**
+ * Plain-text notes with Anki's file headers, so File → Import picks the
+ * separator and columns without manual mapping. Columns: Front, Back,
+ * Source, Tags.
+ */
+export function toAnkiText(cards: Flashcard[], format: AnkiFormat, deckTag: string): string {
+  const sep = format === 'tsv' ? '\t' : ',';
+  const tag = deckTag.replace(/\s+/g, '_');
+  const header = [
+    `#separator:${format === 'tsv' ? 'tab' : 'comma'}`,
+    '#html:false',
+    `#columns:${['Front', 'Back', 'Source', 'Tags'].join(sep)}`,
+    '#tags column:4',
+  ];
+  const rows = cards.map(card => {
+    const where = describeLocation(card.citation);
+    const source = where ? `${card.citation.sourceTitle} (${where})` : card.citation.sourceTitle;
+    return [card.front, card.back, source, tag].map(f => ankiField(f, format)).join(sep);
+  });
+  return [...header, ...rows].join('\n') + '\n';
+}
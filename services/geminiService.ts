@@ -1,39 +1,47 @@
 
 import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
-import { Notebook, HostPersonality } from "../types";
+import { Notebook, HostPersonality, Citation, Message, Flashcard, QuizAnswer, QuizDifficulty, QuizQuestion, PodcastOutline, Slide, Passage, InfographicSpec } from "../types";
 import { suppressGeminiErrors } from "../utils/suppressGeminiErrors";
+import { isGroundingSource, retrievePassages } from "./retrieval";
+import type { AudioChunk, TranscribedTurn } from "./audioTranscription";
+import type { RawScriptChunk } from "./audioTimeline";
+import type { ImageAnalysis } from "./imageIngestion";
+import { labelPassages, formatCitableContext, LabeledPassage, parseCitations, describeLocation, trimPartialCitation, CITATION_INSTRUCTION } from "./citations";
+import { ChatBackend, createGeminiChatBackend } from "./chatBackend";
+import { packHistory, formatTranscript, summarizeHistoryLocally, rewriteQueryLocally, HISTORY_SUMMARY_TOKENS } from "./chatMemory";
+import { cardsFromModel, studyQuery, generateLocalFlashcards, RawFlashcard } from "./flashcards";
+import { coverSlide, generateLocalSlides, MAX_BULLETS, MAX_CONTENT_SLIDES, RawSlide, slidesFromModel } from "./slideDeck";
+import { generateLocalInfographic, infographicFromModel, isEmptySpec, MAX_COMPARISONS, MAX_EVENTS, MAX_STATS, RawInfographic } from "./infographic";
+import { DIFFICULTY_GUIDANCE, generateLocalQuiz, questionsFromModel, RawQuizQuestion, rubricAnswer, shortAnswerCount, stubGradeShortAnswer } from "./quiz";
 
 export interface SearchResult {
   title: string;
   uri: string;
 }
 
+export interface ChatAnswer {
+  text: string;
+  citations: Citation[];
+  unverifiedCitations?: string[];
+}
+
+/** Offline stand-in for a script part; it must never reach speech synthesis. */
+export const LOCAL_SCRIPT_PLACEHOLDER = "Retrieval complete. Source context synchronized.";
+
+const NO_GROUNDING_CONTEXT = "No directly relevant sources were found. Answer using careful reasoning and state uncertainty clearly.";
+
 /**
  * 🛡️ RETRIEVAL ENGINE
- * Scores keywords to find the most relevant context chunks.
+ * Formats the top BM25 passages (see services/retrieval.ts) as grounding context.
  */
 function retrieveTopK(notebook: Notebook, query: string, k: number = 8): string {
-  const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2);
-  const scoredSources = notebook.sources.map(source => {
-    const content = source.content.toLowerCase();
-    const score = queryTerms.reduce((acc, term) => acc + (content.includes(term) ? 1 : 0), 0);
-    return { source, score };
-  });
-
-  const topK = scoredSources
-    .filter(s => s.score > 0 || notebook.sources.length <= 2)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, k);
-
-  if (topK.length === 0) {
-    if (notebook.sources.length > 0) {
-       // Fallback to first few sources if keywords don't match well
-       return notebook.sources.slice(0, 3).map((s, i) => `SOURCE ${i + 1} (${s.title}):\n${s.content}`).join("\n\n");
-    }
-    return "No directly relevant sources were found. Answer using careful reasoning and state uncertainty clearly.";
-  }
+  const hits = retrievePassages(notebook, query, k);
+  if (hits.length === 0) return NO_GROUNDING_CONTEXT;
 
-  return topK.map((tk, i) => `SOURCE ${i + 1} (${tk.source.title}):\n${tk.source.content}`).join("\n\n");
+  return hits.map(({ passage }, i) => {
+    const where = describeLocation(passage);
+    return `SOURCE ${i + 1} (${passage.sourceTitle}, passage ${passage.ordinal}${where ? `, ${where}` : ''}):\n${passage.text}`;
+  }).join("\n\n");
 }
 
 const NOTEBOOK_LM_SYSTEM_INSTRUCTION = `
@@ -72,7 +80,27 @@ const PERSONALITY_PROMPTS: Record<HostPersonality, string> = {
   visionary: "Speculative and future-looking."
 };
 
+/** A study-material request: the model answers `task` over the labeled passages. */
+interface GroundedJsonRequest<Raw, T> {
+  labeled: LabeledPassage[];
+  task: string;
+  temperature: number;
+  /** The result, or null when the reply holds nothing usable. */
+  parse: (json: Raw) => T | null;
+  local: () => T;
+}
+
+const nonEmpty = <T>(items: T[]) => items.length > 0 ? items : null;
+
 export class GeminiService {
+  private chatBackend: ChatBackend;
+  /** Summaries of older turns, keyed by their transcript; a thread's prefix rarely changes. */
+  private historySummaries = new Map<string, string>();
+
+  constructor(chatBackend?: ChatBackend) {
+    this.chatBackend = chatBackend || createGeminiChatBackend(() => this.getClient());
+  }
+
   private getClient() {
     try {
       const key = process.env.API_KEY;
@@ -83,18 +111,20 @@ export class GeminiService {
     }
   }
 
-  async generateOutline(notebook: Notebook): Promise<any> {
+  async generateOutline(notebook: Notebook, signal?: AbortSignal): Promise<any> {
     const ai = this.getClient();
-    if (!ai || notebook.sources.length === 0) return this.generateLocalOutline(notebook);
+    const sources = notebook.sources.filter(isGroundingSource);
+    if (!ai || sources.length === 0) return this.generateLocalOutline(notebook);
 
     // Seed the outline with a summary of all sources to ensure thematic grounding
-    const initialContext = notebook.sources.map(s => s.content.substring(0, 400)).join("\n\n");
+    const initialContext = sources.map(s => s.content.substring(0, 400)).join("\n\n");
     const prompt = `
       SOURCES SUMMARY:
       ${initialContext}
 
       Based ONLY on the sources above, generate a cinematic podcast outline for "${notebook.title}". 
-      JSON: { "outline": [ { "part": number, "topics": string[] } ] }
+      Each part becomes a chapter: give it a short title (max 6 words) and a one-sentence summary.
+      JSON: { "outline": [ { "part": number, "title": string, "summary": string, "topics": string[] } ] }
     `;
 
     const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
@@ -103,7 +133,8 @@ export class GeminiService {
       config: { 
         responseMimeType: "application/json",
         systemInstruction: AUDIO_OVERVIEW_SYSTEM_PROMPT,
-        temperature: 0.1 // Hard lock for stability
+        temperature: 0.1, // Hard lock for stability
+        abortSignal: signal,
       }
     }));
 
@@ -111,9 +142,14 @@ export class GeminiService {
     try { return JSON.parse(result.text || '{}'); } catch { return this.generateLocalOutline(notebook); }
   }
 
-  async generateScriptChunk(notebook: Notebook, outline: any, partIndex: number, personality: HostPersonality): Promise<any> {
+  /**
+   * With `strict`, a failed or unreadable response returns null instead of the
+   * local placeholder, so the podcast runner can retry the part.
+   */
+  async generateScriptChunk(notebook: Notebook, outline: PodcastOutline, partIndex: number, personality: HostPersonality, signal?: AbortSignal, strict = false): Promise<RawScriptChunk | null> {
     const ai = this.getClient();
-    if (!ai) return this.generateLocalScriptChunk(notebook, outline, partIndex);
+    const fallback = () => strict ? null : this.generateLocalScriptChunk(notebook, outline, partIndex);
+    if (!ai) return fallback();
 
     const topics = outline.outline[partIndex]?.topics.join(" ") || "";
     const grounding = retrieveTopK(notebook, topics, 6);
@@ -127,7 +163,8 @@ export class GeminiService {
       
       Write natural dialogue between Alex and Jordan for Part ${partIndex + 1}. 
       Alex and Jordan must use the GROUNDING CONTEXT as their only source of information.
-      JSON: { "script": string, "transcript": Array }
+      When a source gives a page or timestamp, the hosts may refer to it naturally (e.g. "at 04:31 in the video").
+      JSON: { "script": string, "transcript": [ { "speaker": "Alex" | "Jordan", "text": string } ] }
     `;
 
     const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
@@ -136,15 +173,21 @@ export class GeminiService {
       config: { 
         responseMimeType: "application/json",
         systemInstruction: AUDIO_OVERVIEW_SYSTEM_PROMPT,
-        temperature: 0.15 // Prevent creative drift
+        temperature: 0.15, // Prevent creative drift
+        abortSignal: signal,
       }
     }));
 
-    if (!result) return this.generateLocalScriptChunk(notebook, outline, partIndex);
-    try { return JSON.parse(result.text || '{}'); } catch { return this.generateLocalScriptChunk(notebook, outline, partIndex); }
+    if (!result) return fallback();
+    try { return JSON.parse(result.text || '{}'); } catch { return fallback(); }
+  }
+
+  /** Speech synthesis has no offline fallback; callers check before queueing work. */
+  canSynthesize(): boolean {
+    return this.getClient() !== null;
   }
 
-  async generateTTSChunk(script: string): Promise<string> {
+  async generateTTSChunk(script: string, signal?: AbortSignal): Promise<string> {
     const ai = this.getClient();
     if (!ai) return "";
 
@@ -160,7 +203,8 @@ export class GeminiService {
               { speaker: 'Jordan', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } }
             ]
           }
-        }
+        },
+        abortSignal: signal,
       },
     }));
 
@@ -171,34 +215,181 @@ export class GeminiService {
 
   /**
    * 🔎 RETRIEVAL-FIRST CHAT PIPELINE (INVARIANT)
+   * Answers cite labelled passages inline; citations outside the retrieved set are stripped.
+   * Yields a parsed snapshot of the answer after every streamed delta; the
+   * last snapshot is the final answer. Aborting `signal` ends the stream early.
+   * `history` is the thread before `query`; retrieval runs on a standalone
+   * rewrite of the question so follow-ups stay grounded.
    */
-  async generateChatResponse(notebook: Notebook, query: string): Promise<string> {
+  async *streamChatResponse(notebook: Notebook, query: string, history: Message[] = [], signal?: AbortSignal): AsyncGenerator<ChatAnswer> {
+    const { older, recent } = packHistory(history);
+    const [earlier, searchQuery] = await Promise.all([
+      this.summarizeHistory(older, signal),
+      this.rewriteStandaloneQuery(history, query, signal),
+    ]);
+    if (signal?.aborted) return;
+
+    const labeled = labelPassages(retrievePassages(notebook, searchQuery, 8).map(h => h.passage));
+    const context = labeled.length > 0 ? formatCitableContext(labeled) : NO_GROUNDING_CONTEXT;
+    const conversation = [
+      earlier ? `Summary of earlier conversation: ${earlier}` : '',
+      formatTranscript(recent),
+    ].filter(Boolean).join("\n");
+
+    let raw = "";
+    for await (const delta of this.chatBackend.stream({
+      model: 'gemini-3-pro-preview',
+      systemInstruction: `${NOTEBOOK_LM_SYSTEM_INSTRUCTION}\n${CITATION_INSTRUCTION}`,
+      prompt: `${conversation ? `CONVERSATION SO FAR:\n${conversation}\n\n` : ''}SOURCES:\n${context}\n\nUSER QUESTION:\n${query}`,
+      temperature: 0.2
+    }, signal)) {
+      raw += delta;
+      const partial = parseCitations(trimPartialCitation(raw), labeled);
+      yield { text: partial.text, citations: partial.citations };
+    }
+
+    if (!raw.trim()) {
+      if (!signal?.aborted) yield { text: "I'm not finding enough information in your sources to answer confidently. Try adding more detail to the vault.", citations: [] };
+      return;
+    }
+    const parsed = parseCitations(signal?.aborted ? trimPartialCitation(raw) : raw, labeled);
+    if (parsed.dropped.length > 0) console.warn("[AXIOM CITATIONS] Removed unretrieved citations", parsed.dropped);
+    yield { text: parsed.text, citations: parsed.citations, unverifiedCitations: parsed.dropped };
+  }
+
+  async generateChatResponse(notebook: Notebook, query: string, history: Message[] = []): Promise<ChatAnswer> {
+    let answer: ChatAnswer = { text: "", citations: [] };
+    for await (const snapshot of this.streamChatResponse(notebook, query, history)) answer = snapshot;
+    return answer;
+  }
+
+  /**
+   * Folds turns that no longer fit the history budget into a few sentences.
+   * Only model summaries are cached; the local fallback is retried next time.
+   */
+  async summarizeHistory(older: Message[], signal?: AbortSignal): Promise<string> {
+    if (older.length === 0) return "";
+    const transcript = formatTranscript(older);
+    const cached = this.historySummaries.get(transcript);
+    if (cached) return cached;
+
     const ai = this.getClient();
-    if (!ai) return "Sources currently unsynced.";
+    const result = ai ? await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${transcript}\n\nSummarize this conversation in under ${Math.floor(HISTORY_SUMMARY_TOKENS * 0.75)} words. Keep the topics, named entities and any conclusions. No formatting.`,
+      config: { temperature: 0.1, abortSignal: signal }
+    })) : null;
+
+    const summary = result?.text?.trim();
+    if (!summary) return summarizeHistoryLocally(older);
+    if (this.historySummaries.size >= 32) this.historySummaries.clear();
+    this.historySummaries.set(transcript, summary);
+    return summary;
+  }
 
-    const context = retrieveTopK(notebook, query, 8);
-    const prompt = `SOURCES:\n${context}\n\nUSER QUESTION:\n${query}`;
+  /**
+   * Turns a follow-up into a self-contained search query using the thread
+   * ("what about the hardware side?" -> "Galaxy AI hardware requirements").
+   */
+  async rewriteStandaloneQuery(history: Message[], query: string, signal?: AbortSignal): Promise<string> {
+    if (!history.some(m => m.role === 'user')) return query;
+    const ai = this.getClient();
+    if (!ai) return rewriteQueryLocally(history, query);
 
-    const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({ 
-      model: 'gemini-3-pro-preview', 
-      contents: prompt,
-      config: { 
-        systemInstruction: NOTEBOOK_LM_SYSTEM_INSTRUCTION,
-        temperature: 0.2
-      }
+    const { recent } = packHistory(history, HISTORY_SUMMARY_TOKENS * 2);
+    const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `CONVERSATION:\n${formatTranscript(recent)}\n\nFOLLOW-UP: ${query}\n\nRewrite the follow-up as a standalone search query that names its subject explicitly. Reply with the query only.`,
+      config: { temperature: 0, abortSignal: signal }
+    }));
+
+    const rewritten = result?.text?.trim().replace(/^["']|["']$/g, '');
+    return rewritten || rewriteQueryLocally(history, query);
+  }
+
+  /**
+   * 🎙️ AUDIO TRANSCRIPTION
+   * Returns speaker turns with times relative to the chunk, or null when the model is unreachable.
+   */
+  async transcribeAudioChunk(chunk: AudioChunk, knownSpeakers: string[], signal?: AbortSignal): Promise<TranscribedTurn[] | null> {
+    const ai = this.getClient();
+    if (!ai) return null;
+
+    const speakerHint = knownSpeakers.length > 0
+      ? `Speakers identified earlier in this recording: ${knownSpeakers.join(', ')}. Reuse these labels for the same voices.`
+      : `Label speakers "Speaker 1", "Speaker 2", ... in order of first appearance.`;
+    const prompt = `
+      Transcribe this audio verbatim (part ${chunk.index + 1} of ${chunk.total}).
+      ${speakerHint}
+      Split at every change of speaker. Times are seconds from the start of this clip.
+      JSON: { "turns": [ { "speaker": string, "startSec": number, "endSec": number, "text": string } ] }
+    `;
+
+    const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: { parts: [{ inlineData: { mimeType: chunk.mimeType, data: chunk.data } }, { text: prompt }] },
+      config: { responseMimeType: "application/json", temperature: 0, abortSignal: signal }
     }));
 
-    if (!result) return "I'm not finding enough information in your sources to answer confidently. Try adding more detail to the vault.";
-    return result.text || "Analysis complete.";
+    if (!result) return null;
+    try {
+      const parsed = JSON.parse(result.text || '{}');
+      return (parsed.turns || []).map((t: any) => ({
+        speaker: String(t.speaker || 'Speaker 1'),
+        startMs: Math.round(Number(t.startSec || 0) * 1000),
+        endMs: Math.round(Number(t.endSec || t.startSec || 0) * 1000),
+        text: String(t.text || ''),
+      }));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 🖼️ IMAGE ANALYSIS
+   * OCR plus a factual description of charts, diagrams and whiteboards.
+   */
+  async analyzeImage(data: string, mimeType: string, signal?: AbortSignal): Promise<ImageAnalysis | null> {
+    const ai = this.getClient();
+    if (!ai) return null;
+
+    const prompt = `
+      Read this image for a research notebook.
+      1. Transcribe all legible text exactly, preserving line breaks and reading order.
+      2. Describe what the image shows in 2-5 factual sentences. For charts, state axes, series and notable values.
+      Do not speculate beyond what is visible.
+      JSON: { "text": string, "description": string }
+    `;
+
+    const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: { parts: [{ inlineData: { mimeType, data } }, { text: prompt }] },
+      config: { responseMimeType: "application/json", temperature: 0, abortSignal: signal }
+    }));
+
+    if (!result) return null;
+    try {
+      const parsed = JSON.parse(result.text || '{}');
+      return { text: String(parsed.text || ''), description: String(parsed.description || '') };
+    } catch {
+      return null;
+    }
   }
 
   async generateSummary(notebook: Notebook): Promise<string> {
     const ai = this.getClient();
     if (!ai) return "Grounded analysis ready.";
 
+    // Opening passages of each source keep the overview grounded without sending whole documents.
+    const context = notebook.sources
+      .filter(s => s.content && isGroundingSource(s))
+      .map(s => `${s.title}:\n${s.content.substring(0, 600)}`)
+      .join("\n\n");
+    if (!context) return "No included sources are ready yet. Include or add a source to generate an overview.";
+
     const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({ 
       model: 'gemini-3-flash-preview', 
-      contents: `Synthesize a grounded overview paragraph for Vault: ${notebook.title}. No formatting.`,
+      contents: `SOURCES:\n${context}\n\nSynthesize a grounded overview paragraph for Vault: ${notebook.title}. No formatting.`,
       config: {
         systemInstruction: NOTEBOOK_LM_SYSTEM_INSTRUCTION,
         temperature: 0.1
@@ -226,24 +417,201 @@ export class GeminiService {
     }));
   }
 
-  async generateEpisodeArtwork(notebook: Notebook): Promise<string | null> {
+  async generateEpisodeArtwork(notebook: Notebook, signal?: AbortSignal): Promise<string | null> {
     const ai = this.getClient();
     if (!ai) return null;
 
     const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
       model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: `Minimalist concept art for "${notebook.title}"` }] }
+      contents: { parts: [{ text: `Minimalist concept art for "${notebook.title}"` }] },
+      config: { abortSignal: signal }
     }));
 
     const part = result?.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
     return part?.inlineData?.data ? `data:image/png;base64,${part.inlineData.data}` : null;
   }
 
+  /**
+   * Question/answer cards from the passages retrieved for `focus` (or the
+   * notebook's keywords). Each card must cite one passage by label.
+   */
+  async generateFlashcards(notebook: Notebook, count: number, focus?: string, signal?: AbortSignal): Promise<Flashcard[]> {
+    const idPrefix = `card-${Date.now()}`;
+    const labeled = labelPassages(retrievePassages(notebook, studyQuery(notebook, focus), Math.max(8, Math.ceil(count * 0.75))).map(h => h.passage));
+    if (labeled.length === 0) return [];
+    const local = () => generateLocalFlashcards(labeled, count, notebook.keywords || [], idPrefix);
+
+    const task = `
+      Write ${count} flashcards that test understanding of the SOURCES above.
+      Fronts are specific questions; backs are short, complete answers (max 40 words).
+      Every card must come from exactly one passage: put its id (e.g. "S1:p2") in "cite".
+      Cover different passages; do not repeat facts.
+      JSON: { "cards": [ { "front": string, "back": string, "cite": string } ] }
+    `;
+
+    return this.generateGroundedJson<{ cards?: RawFlashcard[] }, Flashcard[]>({
+      labeled, task, temperature: 0.2, local,
+      parse: json => nonEmpty(cardsFromModel(json.cards || [], labeled, idPrefix).slice(0, count)),
+    }, signal);
+  }
+
+  async generateQuiz(notebook: Notebook, count: number, difficulty: QuizDifficulty, focus?: string, signal?: AbortSignal): Promise<QuizQuestion[]> {
+    const idPrefix = `q-${Date.now()}`;
+    const labeled = labelPassages(retrievePassages(notebook, studyQuery(notebook, focus), Math.max(8, Math.ceil(count * 0.75))).map(h => h.passage));
+    if (labeled.length === 0) return [];
+    const local = () => generateLocalQuiz(labeled, count, difficulty, notebook.keywords || [], idPrefix);
+
+    const shortAnswers = shortAnswerCount(count, difficulty);
+    const task = `
+      Write a ${difficulty} quiz of ${count} questions on the SOURCES above: ${count - shortAnswers} "multiple_choice" and ${shortAnswers} "short_answer".
+      Difficulty: ${DIFFICULTY_GUIDANCE[difficulty]}.
+      Multiple choice: 4 choices, exactly one correct; "answer" is its 0-based index.
+      Short answer: "answer" is a model answer (max 40 words); "rubric" lists 1-3 points a correct answer must make.
+      Every question must be answerable from exactly one passage: put its id (e.g. "S1:p2") in "cite".
+      "explanation" says why the answer is right, using that passage (max 40 words).
+      JSON: { "questions": [ { "type": string, "question": string, "choices": string[], "answer": number | string, "rubric": string[], "explanation": string, "cite": string } ] }
+    `;
+
+    return this.generateGroundedJson<{ questions?: RawQuizQuestion[] }, QuizQuestion[]>({
+      labeled, task, temperature: 0.3, local,
+      parse: json => nonEmpty(questionsFromModel(json.questions || [], labeled, idPrefix).slice(0, count)),
+    }, signal);
+  }
+
+  /**
+   * Grades a short answer point by point against the question's rubric.
+   * Falls back to the deterministic stub when the model is unavailable.
+   */
+  async gradeShortAnswer(question: QuizQuestion, response: string, signal?: AbortSignal): Promise<QuizAnswer> {
+    const rubric = question.rubric?.length ? question.rubric : [question.answer];
+    const ai = this.getClient();
+    if (!ai) return stubGradeShortAnswer(question, response);
+
+    const prompt = `
+      QUESTION: ${question.prompt}
+      REFERENCE ANSWER: ${question.answer}
+      RUBRIC:
+      ${rubric.map((p, i) => `${i + 1}. ${p}`).join('\n')}
+      STUDENT ANSWER: ${response}
+
+      Decide for each rubric point whether the student answer makes it. Judge meaning, not wording; ignore spelling.
+      "feedback" tells the student what was right or missing (max 30 words).
+      JSON: { "met": boolean[] (one per rubric point, in order), "feedback": string }
+    `;
+
+    const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: prompt,
+      config: { responseMimeType: "application/json", temperature: 0, abortSignal: signal }
+    }));
+    if (!result) return stubGradeShortAnswer(question, response);
+
+    try {
+      const parsed = JSON.parse(result.text || '{}');
+      const met: unknown[] = Array.isArray(parsed.met) ? parsed.met : [];
+      if (met.length !== rubric.length) return stubGradeShortAnswer(question, response);
+      return rubricAnswer(question, response, met.map(m => m === true), typeof parsed.feedback === 'string' ? parsed.feedback : undefined);
+    } catch {
+      return stubGradeShortAnswer(question, response);
+    }
+  }
+
+  /**
+   * Turns the audio overview outline into slides: passages are retrieved per
+   * part, then written up in one call so bullets can cite them.
+   */
+  async generateSlides(notebook: Notebook, signal?: AbortSignal): Promise<Slide[]> {
+    const outline: PodcastOutline = await this.generateOutline(notebook, signal);
+    const parts = (outline.outline || []).slice(0, MAX_CONTENT_SLIDES);
+    if (parts.length === 0) return [];
+
+    const perPart = parts.map(part => retrievePassages(notebook, [part.title, ...(part.topics || [])].filter(Boolean).join(' ') || notebook.title, 4).map(h => h.passage));
+    const unique = new Map<string, Passage>();
+    perPart.flat().forEach(p => unique.set(p.id, p));
+    const labeled = labelPassages(Array.from(unique.values()));
+    const cover = coverSlide(notebook, parts);
+    const local = () => [cover, ...generateLocalSlides(parts.map((part, i) => ({ part, labeled: labeled.filter(l => perPart[i].some(p => p.id === l.passage.id)) })))];
+
+    if (labeled.length === 0) return local();
+
+    const task = `
+      OUTLINE:
+      ${parts.map((p, i) => `${i + 1}. ${p.title}${p.summary ? ` — ${p.summary}` : ''}`).join('\n')}
+
+      Write one presentation slide per OUTLINE part, in order, using only the SOURCES.
+      "title": max 8 words. "bullets": 3-${MAX_BULLETS} points, max 16 words each, each ending with the id of the passage it relies on, e.g. "... in 2024 [S1:p2]".
+      "notes": what the presenter says over the slide, 60-120 words of plain prose without ids.
+      JSON: { "slides": [ { "title": string, "bullets": string[], "notes": string } ] }
+    `;
+
+    return this.generateGroundedJson<{ slides?: RawSlide[] }, Slide[]>({
+      labeled, task, temperature: 0.3, local,
+      parse: json => {
+        const slides = slidesFromModel(json.slides || [], labeled);
+        return slides.length > 0 ? [cover, ...slides] : null;
+      },
+    }, signal);
+  }
+
+  async generateInfographic(notebook: Notebook, focus?: string, signal?: AbortSignal): Promise<InfographicSpec | null> {
+    const query = `${studyQuery(notebook, focus)} percent million billion year growth total compared`;
+    const labeled = labelPassages(retrievePassages(notebook, query, 12).map(h => h.passage));
+    if (labeled.length === 0) return null;
+    const title = focus?.trim() || notebook.title;
+    const local = () => {
+      const spec = generateLocalInfographic(labeled, title);
+      return isEmptySpec(spec) ? null : spec;
+    };
+
+    const task = `
+      Extract an infographic about "${title}" from the SOURCES: up to ${MAX_STATS} key figures, up to ${MAX_COMPARISONS} comparisons (2+ items sharing one unit) and up to ${MAX_EVENTS} dated timeline events.
+      Use only numbers and dates written in the SOURCES, copied exactly. Each entry must cite the one passage that contains its numbers in "cite" (e.g. "S1:p2").
+      Labels are max 14 words. The title and subtitle must not contain numbers. Leave a section empty rather than guess.
+      JSON: { "title": string, "subtitle": string, "stats": [ { "value": string, "label": string, "cite": string } ], "comparisons": [ { "title": string, "unit": string, "items": [ { "label": string, "value": number, "cite": string } ] } ], "timeline": [ { "date": string, "label": string, "cite": string } ] }
+    `;
+
+    return this.generateGroundedJson<RawInfographic, InfographicSpec | null>({
+      labeled, task, temperature: 0.1, local,
+      parse: json => {
+        const spec = infographicFromModel(json, labeled, title);
+        return isEmptySpec(spec) ? null : spec;
+      },
+    }, signal);
+  }
+
+  /**
+   * Runs a JSON task over cited passages. The local fallback answers when
+   * the model is unavailable, fails, or returns nothing `parse` can use.
+   */
+  private async generateGroundedJson<Raw, T>(request: GroundedJsonRequest<Raw, T>, signal?: AbortSignal): Promise<T> {
+    const { labeled, task, temperature, parse, local } = request;
+    const ai = this.getClient();
+    if (!ai) return local();
+
+    const result = await suppressGeminiErrors<GenerateContentResponse>(ai.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: `SOURCES:\n${formatCitableContext(labeled)}\n${task}`,
+      config: {
+        responseMimeType: "application/json",
+        systemInstruction: NOTEBOOK_LM_SYSTEM_INSTRUCTION,
+        temperature,
+        abortSignal: signal,
+      }
+    }));
+    if (!result) return local();
+
+    try {
+      return parse(JSON.parse(result.text || '{}') as Raw) ?? local();
+    } catch {
+      return local();
+    }
+  }
+
   generateLocalOutline(notebook: Notebook): any {
-    return { outline: [{ part: 1, topics: ["Knowledge Synthesis"] }] };
+    return { outline: [{ part: 1, title: "Knowledge Synthesis", summary: `An overview of ${notebook.title}.`, topics: ["Knowledge Synthesis"] }] };
   }
   
-  generateLocalScriptChunk(notebook: Notebook, outline: any, partIndex: number): any {
-    return { speaker: "Alex", text: "Retrieval complete. Source context synchronized.", transcript: [] };
+  generateLocalScriptChunk(notebook: Notebook, outline: PodcastOutline, partIndex: number): RawScriptChunk {
+    return { speaker: "Alex", text: LOCAL_SCRIPT_PLACEHOLDER, transcript: [] };
   }
 }
@@ -0,0 +1,74 @@
+import { Source } from '../types';
+import { ExtractionError } from './extractionError';
+
+/**
+ * 🖼️ IMAGE SOURCE INGESTION
+ * Whiteboards, slide screenshots, charts. The model reads the text in the
+ * image (OCR) and describes it; both become searchable `content`, and a small
+ * thumbnail is kept for inline display when the image is cited.
+ */
+
+export const THUMBNAIL_MAX_PX = 320;
+/** Images are downscaled before upload; OCR quality plateaus well below camera resolution. */
+export const ANALYSIS_MAX_PX = 1600;
+
+export interface ImageAnalysis {
+  text: string;
+  description: string;
+}
+
+export interface ImageAnalyzer {
+  analyzeImage(data: string, mimeType: string, signal?: AbortSignal): Promise<ImageAnalysis | null>;
+}
+
+async function renderScaled(file: Blob, maxPx: number, quality: number): Promise<string> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new ExtractionError('unreadable', 'This image format could not be decoded by the browser.');
+  }
+  const scale = Math.min(1, maxPx / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ExtractionError('unreadable', 'Image processing is not available in this browser.');
+  // Transparent PNGs (screenshots, charts) would turn black as JPEG.
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+export function createThumbnail(file: Blob): Promise<string> {
+  return renderScaled(file, THUMBNAIL_MAX_PX, 0.7);
+}
+
+/**
+ * Lays the analysis out in Markdown-Lite so the description and the
+ * transcribed text are retrievable as separate passages.
+ */
+export function formatImageContent(analysis: ImageAnalysis): string {
+  const parts = [`## Description\n${analysis.description.trim()}`];
+  if (analysis.text.trim()) parts.push(`## Text in image\n${analysis.text.trim()}`);
+  return parts.join('\n\n');
+}
+
+export async function ingestImage(file: Blob, analyzer: ImageAnalyzer, signal?: AbortSignal): Promise<Partial<Source>> {
+  const [thumbnailUrl, analysisUrl] = await Promise.all([
+    createThumbnail(file),
+    renderScaled(file, ANALYSIS_MAX_PX, 0.9),
+  ]);
+
+  signal?.throwIfAborted();
+  const analysis = await analyzer.analyzeImage(analysisUrl.split(',')[1], 'image/jpeg', signal);
+  signal?.throwIfAborted();
+  if (!analysis) throw new ExtractionError('fetch-failed', 'Image analysis is unavailable right now. Try again later.');
+  if (!analysis.description.trim() && !analysis.text.trim()) {
+    throw new ExtractionError('empty', 'Nothing readable was found in this image.');
+  }
+
+  return { type: 'image', content: formatImageContent(analysis), thumbnailUrl };
+}
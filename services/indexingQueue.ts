@@ -0,0 +1,207 @@
+import { Source, SourceExtractor } from '../types';
+import { applyNotebookSource } from './retrieval';
+import { handleIndexRequest, IndexRequest, IndexResponse } from '../workers/indexProtocol';
+
+/**
+ * 🛡️ BACKGROUND INDEXING QUEUE
+ * queued -> extracting -> indexing -> indexed | failed
+ * One source is processed at a time. Extraction runs on the main thread
+ * (it needs DOM / Web Audio); chunking, tokenization and keyword
+ * extraction run in a Web Worker.
+ */
+
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+export interface IndexingQueueCallbacks {
+  onSourceUpdate: (notebookId: string, sourceId: string, updates: Partial<Source>) => void;
+  /** Fired once a notebook has no queued work left after at least one change. */
+  onNotebookSettled: (notebookId: string, keywords: string[]) => void;
+}
+
+interface IndexingTask {
+  notebookId: string;
+  source: Source;
+  extract?: SourceExtractor;
+  controller: AbortController;
+  /** Silent tasks rebuild the in-memory index without touching source state. */
+  silent: boolean;
+}
+
+const KEYWORD_LIMIT = 8;
+
+class CancelledError extends Error {
+  constructor() {
+    super('Cancelled.');
+    this.name = 'CancelledError';
+  }
+}
+
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(new CancelledError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      err => { signal.removeEventListener('abort', onAbort); reject(err); }
+    );
+  });
+}
+
+export class IndexingQueue {
+  private tasks: IndexingTask[] = [];
+  private active: IndexingTask | null = null;
+  /** Kept after failure so retry can re-run extraction without a new upload. */
+  private extractors = new Map<string, SourceExtractor>();
+  /** notebookId -> sourceId -> indexed content, used for keyword extraction. */
+  private contents = new Map<string, Map<string, string>>();
+  private dirty = new Set<string>();
+  private worker: Worker | null = null;
+  /** Requests posted to the worker, kept so they can be re-run inline if it dies. */
+  private pending = new Map<number, { request: IndexRequest; resolve: (res: IndexResponse) => void }>();
+  private nextRequestId = 1;
+
+  constructor(private callbacks: IndexingQueueCallbacks) {
+    try {
+      this.worker = new Worker(new URL('../workers/indexWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<IndexResponse>) => {
+        const entry = this.pending.get(e.data.id);
+        this.pending.delete(e.data.id);
+        entry?.resolve(e.data);
+      };
+      this.worker.onerror = (e) => {
+        console.warn("[AXIOM INDEX] Worker failed, indexing inline", e);
+        this.worker = null;
+        // The dead worker will never answer requests in flight, so run them here.
+        const inFlight = Array.from(this.pending.values());
+        this.pending.clear();
+        inFlight.forEach(({ request, resolve }) => resolve(handleIndexRequest(request)));
+      };
+    } catch {
+      this.worker = null;
+    }
+  }
+
+  enqueue(notebookId: string, source: Source, extract?: SourceExtractor): void {
+    if (extract) this.extractors.set(source.id, extract);
+    this.dirty.add(notebookId);
+    this.callbacks.onSourceUpdate(notebookId, source.id, { status: 'queued', indexed: false, error: undefined, progress: undefined });
+    this.tasks.push({ notebookId, source, extract, controller: new AbortController(), silent: false });
+    this.pump();
+  }
+
+  /**
+   * Rebuilds the in-memory index for an already-indexed source (after a reload).
+   */
+  warm(notebookId: string, source: Source): void {
+    this.tasks.push({ notebookId, source, controller: new AbortController(), silent: true });
+    this.pump();
+  }
+
+  /**
+   * Re-runs a failed source. The original extractor is reused when this
+   * session still has it; otherwise only the stored content is re-indexed.
+   */
+  retry(notebookId: string, source: Source): boolean {
+    const extract = this.extractors.get(source.id);
+    if (!extract && !source.content) return false;
+    this.enqueue(notebookId, source, extract);
+    return true;
+  }
+
+  cancel(notebookId: string, sourceId: string): void {
+    const queued = this.tasks.find(t => t.notebookId === notebookId && t.source.id === sourceId);
+    if (queued) {
+      this.tasks = this.tasks.filter(t => t !== queued);
+      this.fail(queued, new CancelledError());
+      this.settleIfIdle(notebookId);
+    }
+    if (this.active && this.active.notebookId === notebookId && this.active.source.id === sourceId) {
+      this.active.controller.abort();
+    }
+  }
+
+  /**
+   * Drops a source from keyword bookkeeping (e.g. when it is deleted).
+   */
+  forget(notebookId: string, sourceId: string): void {
+    this.cancel(notebookId, sourceId);
+    this.extractors.delete(sourceId);
+    this.contents.get(notebookId)?.delete(sourceId);
+  }
+
+  isBusy(notebookId: string): boolean {
+    return this.active?.notebookId === notebookId || this.tasks.some(t => t.notebookId === notebookId);
+  }
+
+  private request(req: DistributiveOmit<IndexRequest, 'id'>): Promise<IndexResponse> {
+    const full = { ...req, id: this.nextRequestId++ } as IndexRequest;
+    if (!this.worker) return Promise.resolve(handleIndexRequest(full));
+    return new Promise(resolve => {
+      this.pending.set(full.id, { request: full, resolve });
+      this.worker!.postMessage(full);
+    });
+  }
+
+  private update(task: IndexingTask, updates: Partial<Source>): void {
+    if (task.silent) return;
+    this.callbacks.onSourceUpdate(task.notebookId, task.source.id, updates);
+  }
+
+  private fail(task: IndexingTask, err: any): void {
+    const reason = err instanceof CancelledError ? 'Cancelled.' : (err?.message || 'Indexing failed.');
+    if (!(err instanceof CancelledError)) console.warn("[AXIOM INDEX] Source failed", task.source.id, err);
+    this.update(task, { status: 'failed', indexed: false, error: reason, progress: undefined });
+  }
+
+  private async pump(): Promise<void> {
+    if (this.active) return;
+    const task = this.tasks.shift();
+    if (!task) return;
+    this.active = task;
+    try {
+      await this.process(task);
+    } catch (err) {
+      this.fail(task, err);
+    } finally {
+      this.active = null;
+      this.settleIfIdle(task.notebookId);
+      this.pump();
+    }
+  }
+
+  private async process(task: IndexingTask): Promise<void> {
+    const { signal } = task.controller;
+    let source = task.source;
+    let extracted: Partial<Source> = {};
+
+    if (task.extract) {
+      this.update(task, { status: 'extracting', progress: undefined });
+      extracted = await untilAborted(task.extract(progress => {
+        if (!signal.aborted) this.update(task, { progress });
+      }, signal), signal);
+      source = { ...source, ...extracted };
+    }
+
+    this.update(task, { ...extracted, status: 'indexing', progress: undefined });
+    const res = await untilAborted(this.request({ type: 'prepare', source }), signal);
+    if (res.type === 'error') throw new Error(res.message);
+    if (res.type !== 'prepare') throw new Error('Unexpected indexing response.');
+
+    applyNotebookSource(task.notebookId, source, res.passages, res.terms);
+    let notebookContents = this.contents.get(task.notebookId);
+    if (!notebookContents) { notebookContents = new Map(); this.contents.set(task.notebookId, notebookContents); }
+    notebookContents.set(source.id, source.content);
+
+    this.extractors.delete(source.id);
+    this.update(task, { status: 'indexed', indexed: true, error: undefined, progress: undefined });
+  }
+
+  private async settleIfIdle(notebookId: string): Promise<void> {
+    if (this.isBusy(notebookId) || !this.dirty.has(notebookId)) return;
+    this.dirty.delete(notebookId);
+    const docs = Array.from(this.contents.get(notebookId)?.values() || []);
+    const res = await this.request({ type: 'keywords', docs, limit: KEYWORD_LIMIT });
+    this.callbacks.onNotebookSettled(notebookId, res.type === 'keywords' ? res.keywords : []);
+  }
+}
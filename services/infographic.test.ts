@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { InfographicSpec, Passage } from '../types';
+import { LabeledPassage, toCitation } from './citations';
+import { infographicFromModel, isSupported } from './infographic';
+import { renderInfographicSvg } from './infographicSvg';
+
+const passage = (id: string, text: string, extra: Partial<Passage> = {}): Passage =>
+  ({ id, sourceId: id.split(':')[0], sourceTitle: `Report ${id}`, ordinal: 1, text, start: 0, end: text.length, ...extra });
+
+const labeled: LabeledPassage[] = [
+  { label: 'S1:p1', passage: passage('a:p1', 'In 2024 the plant produced 1,200.50 MWh, up 12% on the year before.') },
+  { label: 'S2:p1', passage: passage('b:p1', 'Wind supplied 35% and solar 18% of demand in 2023.', { page: 4 }) },
+];
+
+describe('isSupported', () => {
+  it('matches whole numbers, not digits inside other numbers', () => {
+    const p = labeled[0].passage;
+    expect(isSupported('2024', p)).toBe(true);
+    expect(isSupported('20 units', p)).toBe(false);
+    expect(isSupported('202', p)).toBe(false);
+    expect(isSupported('1', p)).toBe(false);
+  });
+
+  it('ignores thousands separators and trailing zeros', () => {
+    const p = labeled[0].passage;
+    expect(isSupported('1200.5 MWh', p)).toBe(true);
+    expect(isSupported('1,200.50', p)).toBe(true);
+  });
+});
+
+describe('infographicFromModel', () => {
+  it('keeps cited figures and drops uncited or unsupported ones', () => {
+    const spec = infographicFromModel({
+      title: 'Plant output',
+      stats: [
+        { value: '12%', label: 'Growth in output', cite: '[S1:p1]' },
+        { value: '40%', label: 'Share of demand', cite: 'S2:p1' },
+        { value: '20', label: 'Turbines installed', cite: 'S1:p1' },
+        { value: '35%', label: 'Wind share' },
+        { value: '35%', label: 'Wind share', cite: 'S9:p1' },
+      ],
+    }, labeled, 'Fallback');
+    expect(spec.stats.map(s => s.value)).toEqual(['12%']);
+    expect(spec.stats[0].citation.label).toBe('S1:p1');
+  });
+
+  it('checks labels too, and needs two cited items per comparison', () => {
+    const spec = infographicFromModel({
+      comparisons: [
+        { title: 'Share of demand', unit: '%', items: [
+          { label: 'Wind', value: 35, cite: 'S2:p1' },
+          { label: 'Solar', value: '18', cite: 'S2:p1' },
+          { label: 'Hydro', value: 9, cite: 'S2:p1' },
+        ] },
+        { title: 'Lonely', items: [{ label: 'Wind', value: 35, cite: 'S2:p1' }] },
+      ],
+      timeline: [
+        { date: '2023', label: 'Wind reached 35%', cite: 'S2:p1' },
+        { date: '2023', label: 'Wind reached 36%', cite: 'S2:p1' },
+      ],
+    }, labeled, 'Fallback');
+    expect(spec.comparisons).toHaveLength(1);
+    expect(spec.comparisons[0].items.map(i => i.label)).toEqual(['Wind', 'Solar']);
+    expect(spec.timeline.map(e => e.label)).toEqual(['Wind reached 35%']);
+  });
+
+  it('replaces titles carrying numbers, which cannot cite anything', () => {
+    const spec = infographicFromModel({ title: 'Output up 50%', subtitle: 'Since 1999' }, labeled, 'Fallback');
+    expect(spec.title).toBe('Fallback');
+    expect(spec.subtitle).toBeUndefined();
+  });
+});
+
+describe('renderInfographicSvg', () => {
+  const spec: InfographicSpec = {
+    title: 'Energy <mix> & output',
+    subtitle: 'From the sources',
+    stats: [
+      { value: '12%', label: 'Growth in output', citation: toCitation('S1:p1', labeled[0].passage) },
+      { value: '35%', label: 'Wind share', citation: toCitation('S2:p1', labeled[1].passage) },
+    ],
+    comparisons: [{ title: 'Share of demand', unit: '%', items: [
+      { label: 'Wind', value: 35, citation: toCitation('S2:p1', labeled[1].passage) },
+      { label: 'Solar', value: 18, citation: toCitation('S2:p1', labeled[1].passage) },
+    ] }],
+    timeline: [{ date: '2024', label: 'Output passed 1,200 MWh', citation: toCitation('S1:p1', labeled[0].passage) }],
+  };
+
+  it('renders the same SVG for the same spec', () => {
+    const first = renderInfographicSvg(spec);
+    const second = renderInfographicSvg(structuredClone(spec));
+    expect(second).toEqual(first);
+    expect(first.width).toBe(1080);
+    expect(first.svg).toContain(`height="${first.height}"`);
+  });
+
+  it('escapes text and numbers sources in order of first use', () => {
+    const { svg } = renderInfographicSvg(spec);
+    expect(svg).toContain('Energy &lt;mix&gt; &amp; output');
+    expect(svg).toContain('Growth in output [1]');
+    expect(svg).toContain('[2] Report b:p1, p. 4');
+    expect(svg).not.toContain('[3]');
+  });
+
+  it('drops control characters, which XML cannot carry', () => {
+    const { svg } = renderInfographicSvg({ ...spec, title: 'Tidal\u0007 output\u001F' });
+    expect(svg).toContain('>Tidal output</text>');
+  });
+
+  it('grows with its content', () => {
+    const empty = renderInfographicSvg({ title: 'Empty', stats: [], comparisons: [], timeline: [] });
+    expect(empty.height).toBeLessThan(renderInfographicSvg(spec).height);
+    expect(empty.svg).not.toContain('SOURCES');
+  });
+});
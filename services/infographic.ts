@@ -0,0 +1,130 @@
+import { Citation, InfographicComparison, InfographicEvent, InfographicSpec, InfographicStat, Passage } from '../types';
+import { LabeledPassage, toCitation } from './citations';
+
+/**
+ * 📊 INFOGRAPHICS
+ * The model extracts key figures, comparisons and a timeline into a typed
+ * spec; services/infographicSvg.ts lays it out. Every figure cites a passage,
+ * and a figure whose numbers do not appear in that passage is dropped, so
+ * nothing on the page is unsourced.
+ */
+
+export const MAX_STATS = 6;
+export const MAX_COMPARISONS = 2;
+export const MAX_COMPARISON_ITEMS = 6;
+export const MAX_EVENTS = 8;
+
+const NUMBER = /\d[\d,]*(?:\.\d+)?/g;
+
+/** Whole numbers in canonical form: "1,200.50" → "1200.5". */
+const numbersIn = (text: string) => (text.match(NUMBER) || []).map(n => String(Number(n.replace(/,/g, ''))));
+
+export const hasNumber = (text: string) => /\d/.test(text);
+
+/**
+ * True when every number in `text` is also a number in the passage. Numbers
+ * are compared whole, so "20" is not supported by a passage that says "2024".
+ */
+export function isSupported(text: string, passage: Passage): boolean {
+  const available = new Set(numbersIn(passage.text));
+  return numbersIn(text).every(n => available.has(n));
+}
+
+export interface RawInfographic {
+  title?: string;
+  subtitle?: string;
+  stats?: { value?: string; label?: string; cite?: string }[];
+  comparisons?: { title?: string; unit?: string; items?: { label?: string; value?: number | string; cite?: string }[] }[];
+  timeline?: { date?: string; label?: string; cite?: string }[];
+}
+
+export const isEmptySpec = (spec: InfographicSpec) => spec.stats.length + spec.comparisons.length + spec.timeline.length === 0;
+
+/**
+ * Keeps only entries that cite a retrieved passage containing their numbers.
+ * Titles cannot carry a citation, so one with a number in it is replaced.
+ */
+export function infographicFromModel(raw: RawInfographic, labeled: LabeledPassage[], fallbackTitle: string): InfographicSpec {
+  const byLabel = new Map(labeled.map(l => [l.label, l.passage]));
+  const cite = (label: string | undefined, ...texts: string[]): Citation | null => {
+    const key = label?.replace(/[[\]]/g, '').trim() || '';
+    const passage = byLabel.get(key);
+    return passage && texts.every(t => isSupported(t, passage)) ? toCitation(key, passage) : null;
+  };
+
+  const stats: InfographicStat[] = [];
+  (raw.stats || []).forEach(s => {
+    const value = s.value?.toString().trim();
+    const label = s.label?.trim();
+    const citation = value && label && hasNumber(value) ? cite(s.cite, value, label) : null;
+    if (citation && stats.length < MAX_STATS) stats.push({ value: value!, label: label!, citation });
+  });
+
+  const comparisons: InfographicComparison[] = [];
+  (raw.comparisons || []).forEach(c => {
+    const items: InfographicComparison['items'] = [];
+    (c.items || []).forEach(item => {
+      const label = item.label?.trim();
+      const value = typeof item.value === 'number' ? item.value : parseFloat(String(item.value ?? '').replace(/,/g, ''));
+      const citation = label && Number.isFinite(value) ? cite(item.cite, String(value), label) : null;
+      if (citation && items.length < MAX_COMPARISON_ITEMS) items.push({ label: label!, value, citation });
+    });
+    const title = c.title?.trim();
+    if (title && !hasNumber(title) && items.length >= 2 && comparisons.length < MAX_COMPARISONS) {
+      comparisons.push({ title, unit: c.unit?.trim() || undefined, items });
+    }
+  });
+
+  const timeline: InfographicEvent[] = [];
+  (raw.timeline || []).forEach(e => {
+    const date = e.date?.toString().trim();
+    const label = e.label?.trim();
+    const citation = date && label ? cite(e.cite, date, label) : null;
+    if (citation && timeline.length < MAX_EVENTS) timeline.push({ date: date!, label: label!, citation });
+  });
+
+  const title = raw.title?.trim();
+  const subtitle = raw.subtitle?.trim();
+  return {
+    title: title && !hasNumber(title) ? title : fallbackTitle,
+    subtitle: subtitle && !hasNumber(subtitle) ? subtitle : undefined,
+    stats, comparisons, timeline,
+  };
+}
+
+const YEAR = /\b(1[5-9]\d\d|20\d\d)\b/;
+const FIGURE = /(?:[$€£]\s?)?\d[\d,]*(?:\.\d+)?\s?(?:%|percent\b|million\b|billion\b|thousand\b|x\b)/i;
+const MAX_LABEL_CHARS = 110;
+
+const shorten = (text: string) => text.length > MAX_LABEL_CHARS ? `${text.slice(0, MAX_LABEL_CHARS).replace(/\s+\S*$/, '')}…` : text;
+
+/**
+ * Sentences with a quantity become key figures and sentences with a year
+ * become timeline events. Labels are the sentences themselves, so their
+ * numbers are always in the cited passage.
+ */
+export function generateLocalInfographic(labeled: LabeledPassage[], title: string): InfographicSpec {
+  const stats: InfographicStat[] = [];
+  const timeline: InfographicEvent[] = [];
+  labeled.forEach(({ label, passage }) => {
+    (passage.text.match(/[^.!?\n]+[.!?]/g) || []).map(s => s.trim()).forEach(sentence => {
+      const figure = sentence.match(FIGURE);
+      const year = sentence.match(YEAR);
+      if (figure && !YEAR.test(figure[0]) && stats.length < MAX_STATS) {
+        stats.push({ value: figure[0].trim(), label: shorten(sentence), citation: toCitation(label, passage) });
+      } else if (year && timeline.length < MAX_EVENTS) {
+        timeline.push({ date: year[1], label: shorten(sentence), citation: toCitation(label, passage) });
+      }
+    });
+  });
+  timeline.sort((a, b) => parseInt(a.date) - parseInt(b.date));
+  return { title, subtitle: 'Key figures from the sources', stats, comparisons: [], timeline };
+}
+
+/** Cited passages in order of first appearance; the renderer numbers them the same way. */
+export function infographicSources(spec: InfographicSpec): Citation[] {
+  const seen = new Map<string, Citation>();
+  [...spec.stats.map(s => s.citation), ...spec.comparisons.flatMap(c => c.items.map(i => i.citation)), ...spec.timeline.map(e => e.citation)]
+    .forEach(c => { if (!seen.has(c.label)) seen.set(c.label, c); });
+  return Array.from(seen.values());
+}
@@ -0,0 +1,151 @@
+import { InfographicSpec } from '../types';
+import { COLORS, TYPE } from '../design/tokens';
+import { describeLocation } from './citations';
+import { infographicSources } from './infographic';
+import { textWidth, wrapText } from '../utils/textMetrics';
+import { escapeXml } from '../utils/xml';
+
+/**
+ * 🧮 INFOGRAPHIC RENDERER
+ * Lays a spec out top to bottom on a fixed-width canvas: title, key figures
+ * in a two-column grid, bar charts, a timeline and the numbered sources.
+ * Same spec in, same SVG out; text is wrapped with Helvetica metrics so PNG
+ * rasterisation (which cannot load web fonts) fits too.
+ */
+
+export const INFOGRAPHIC_WIDTH = 1080;
+const PAD = 64;
+const GAP = 24;
+const CONTENT = INFOGRAPHIC_WIDTH - PAD * 2;
+const SCALE = 1.4;
+const px = (value: string) => parseFloat(value);
+
+const SIZE = {
+  title: Math.round(px(TYPE.title.fontSize) * 2),
+  figure: Math.round(px(TYPE.title.fontSize) * 2.4),
+  body: Math.round(px(TYPE.body.fontSize) * SCALE),
+  caption: Math.round(px(TYPE.caption.fontSize) * SCALE),
+  lineHeight: parseFloat(TYPE.body.lineHeight),
+};
+
+const SERIES = [COLORS.primary, COLORS.secondary, COLORS.accent];
+const FONT = 'Inter, Helvetica, Arial, sans-serif';
+
+const formatValue = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+export interface RenderedInfographic {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export function renderInfographicSvg(spec: InfographicSpec): RenderedInfographic {
+  const sources = infographicSources(spec);
+  const ref = (label: string) => `[${sources.findIndex(c => c.label === label) + 1}]`;
+  const out: string[] = [];
+  let y = PAD;
+
+  /** Writes wrapped lines with the first baseline at `top + size`; returns the height used. */
+  const text = (value: string, x: number, top: number, width: number, size: number, color: string, weight = 400, maxLines = Infinity) => {
+    const lines = wrapText(value, width, size, weight >= 600);
+    const shown = lines.slice(0, maxLines);
+    if (lines.length > shown.length) shown[shown.length - 1] += ' …';
+    const lineHeight = size * SIZE.lineHeight;
+    shown.forEach((line, i) => out.push(`<text x="${x}" y="${(top + size + i * lineHeight).toFixed(1)}" font-size="${size}" font-weight="${weight}" fill="${color}">${escapeXml(line)}</text>`));
+    return shown.length * lineHeight;
+  };
+  const heading = (label: string) => {
+    out.push(`<text x="${PAD}" y="${y + SIZE.caption}" font-size="${SIZE.caption}" font-weight="700" letter-spacing="3" fill="${COLORS.textSecondary}">${escapeXml(label.toUpperCase())}</text>`);
+    y += SIZE.caption + GAP;
+  };
+
+  y += text(spec.title, PAD, y, CONTENT, SIZE.title, COLORS.textPrimary, 700, 3);
+  if (spec.subtitle) y += 8 + text(spec.subtitle, PAD, y + 8, CONTENT, SIZE.body, COLORS.textSecondary);
+  out.push(`<rect x="${PAD}" y="${y + GAP}" width="96" height="6" rx="3" fill="${COLORS.primary}"/>`);
+  y += GAP * 2 + 6 + GAP;
+
+  if (spec.stats.length > 0) {
+    heading('Key figures');
+    const cardWidth = (CONTENT - GAP) / 2;
+    for (let row = 0; row < spec.stats.length; row += 2) {
+      const pair = spec.stats.slice(row, row + 2);
+      const heights = pair.map(s => 28 * 2 + SIZE.figure * 1.1 + 12 + wrapText(`${s.label} ${ref(s.citation.label)}`, cardWidth - 56, SIZE.body).slice(0, 4).length * SIZE.body * SIZE.lineHeight);
+      const cardHeight = Math.max(...heights);
+      pair.forEach((stat, i) => {
+        const x = PAD + i * (cardWidth + GAP);
+        const color = SERIES[(row + i) % SERIES.length];
+        out.push(`<rect x="${x}" y="${y}" width="${cardWidth}" height="${cardHeight.toFixed(1)}" rx="24" fill="${COLORS.surface}"/>`);
+        const figureSize = Math.min(SIZE.figure, Math.floor(SIZE.figure * (cardWidth - 56) / Math.max(1, textWidth(stat.value, SIZE.figure, true))));
+        out.push(`<text x="${x + 28}" y="${(y + 28 + SIZE.figure).toFixed(1)}" font-size="${figureSize}" font-weight="700" fill="${color}">${escapeXml(stat.value)}</text>`);
+        text(`${stat.label} ${ref(stat.citation.label)}`, x + 28, y + 28 + SIZE.figure * 1.1 + 12, cardWidth - 56, SIZE.body, COLORS.textSecondary, 400, 4);
+      });
+      y += cardHeight + GAP;
+    }
+    y += GAP;
+  }
+
+  spec.comparisons.forEach(comparison => {
+    heading(comparison.unit ? `${comparison.title} (${comparison.unit})` : comparison.title);
+    const labelWidth = CONTENT * 0.32;
+    const barLeft = PAD + labelWidth + GAP;
+    const valueRoom = 140;
+    const barMax = CONTENT - labelWidth - GAP - valueRoom;
+    const max = Math.max(...comparison.items.map(item => Math.abs(item.value)), 1);
+    comparison.items.forEach((item, i) => {
+      const labelHeight = Math.min(2, wrapText(item.label, labelWidth, SIZE.body).length) * SIZE.body * SIZE.lineHeight;
+      const rowHeight = Math.max(36, labelHeight);
+      text(item.label, PAD, y + (rowHeight - labelHeight) / 2, labelWidth, SIZE.body, COLORS.textPrimary, 400, 2);
+      const barWidth = Math.max(4, (Math.abs(item.value) / max) * barMax);
+      out.push(`<rect x="${barLeft}" y="${(y + (rowHeight - 28) / 2).toFixed(1)}" width="${barWidth.toFixed(1)}" height="28" rx="6" fill="${SERIES[i % SERIES.length]}"/>`);
+      out.push(`<text x="${(barLeft + barWidth + 12).toFixed(1)}" y="${(y + rowHeight / 2 + SIZE.caption * 0.35).toFixed(1)}" font-size="${SIZE.caption}" font-weight="600" fill="${COLORS.textPrimary}">${escapeXml(`${formatValue(item.value)} ${ref(item.citation.label)}`)}</text>`);
+      y += rowHeight + 12;
+    });
+    y += GAP * 2;
+  });
+
+  if (spec.timeline.length > 0) {
+    heading('Timeline');
+    const lineX = PAD + 8;
+    const textX = PAD + 40;
+    const top = y;
+    spec.timeline.forEach((event, i) => {
+      out.push(`<circle cx="${lineX}" cy="${y + SIZE.body * 0.6}" r="8" fill="${SERIES[i % SERIES.length]}"/>`);
+      y += text(event.date, textX, y, CONTENT - 40, SIZE.body, COLORS.textPrimary, 700);
+      y += text(`${event.label} ${ref(event.citation.label)}`, textX, y, CONTENT - 40, SIZE.body, COLORS.textSecondary, 400, 3) + GAP;
+    });
+    out.unshift(`<rect x="${lineX - 1}" y="${top + SIZE.body * 0.6}" width="2" height="${Math.max(0, y - top - GAP * 2).toFixed(1)}" fill="${COLORS.surface}"/>`);
+    y += GAP;
+  }
+
+  if (sources.length > 0) {
+    heading('Sources');
+    sources.forEach((c, i) => {
+      const where = describeLocation(c);
+      y += text(`[${i + 1}] ${c.sourceTitle}${where ? `, ${where}` : ''}`, PAD, y, CONTENT, SIZE.caption, COLORS.textSecondary, 400, 2) + 6;
+    });
+  }
+
+  const height = Math.ceil(y + PAD);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${INFOGRAPHIC_WIDTH}" height="${height}" viewBox="0 0 ${INFOGRAPHIC_WIDTH} ${height}" font-family="${FONT}">`
+    + `<rect width="100%" height="100%" fill="${COLORS.background}"/>${out.join('')}</svg>`;
+  return { svg, width: INFOGRAPHIC_WIDTH, height };
+}
+
+/** Draws the SVG onto a canvas at `scale`× for a crisp PNG. Browser only. */
+export async function rasterizeSvg({ svg, width, height }: RenderedInfographic, scale = 2): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available in this browser.');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => canvas.toBlob(b => b ? resolve(b) : reject(new Error('PNG encoding failed.')), 'image/png'));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
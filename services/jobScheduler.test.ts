@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { JobPriority } from '../types';
+import { JobScheduler, MAX_JOB_CONCURRENCY } from './jobScheduler';
+
+/** Tasks that stay running until finished by hand, recording the order they started in. */
+function harness(concurrency: number) {
+  const scheduler = new JobScheduler(concurrency);
+  const started: string[] = [];
+  const signals = new Map<string, AbortSignal>();
+  const finishers = new Map<string, () => void>();
+
+  const add = (id: string, priority: JobPriority = 'normal') => scheduler.enqueue({
+    id, priority,
+    run: signal => new Promise<void>(resolve => {
+      started.push(id);
+      signals.set(id, signal);
+      finishers.set(id, resolve);
+    }),
+  });
+
+  /** Completes a running task and lets the scheduler start the next one. */
+  const finish = async (id: string) => {
+    finishers.get(id)!();
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+
+  return { scheduler, started, signals, add, finish };
+}
+
+describe('JobScheduler', () => {
+  it('runs no more than `concurrency` tasks at once', async () => {
+    const { scheduler, started, add, finish } = harness(2);
+    ['a', 'b', 'c', 'd'].forEach(id => add(id));
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.queuedIds()).toEqual(['c', 'd']);
+
+    await finish('a');
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(scheduler.isRunning('a')).toBe(false);
+  });
+
+  it('starts waiting tasks by priority, first come first served within one', async () => {
+    const { scheduler, started, add, finish } = harness(1);
+    add('running');
+    add('low-1', 'low');
+    add('normal-1');
+    add('high-1', 'high');
+    add('normal-2');
+    add('high-2', 'high');
+    expect(scheduler.queuedIds()).toEqual(['high-1', 'high-2', 'normal-1', 'normal-2', 'low-1']);
+
+    await finish('running');
+    await finish('high-1');
+    expect(started).toEqual(['running', 'high-1', 'high-2']);
+  });
+
+  it('re-sorts waiting tasks when their priority changes', () => {
+    const { scheduler, add } = harness(1);
+    add('running');
+    add('a');
+    add('b');
+    add('c');
+    scheduler.setPriority('c', 'high');
+    scheduler.setPriority('a', 'low');
+    expect(scheduler.queuedIds()).toEqual(['c', 'b', 'a']);
+
+    scheduler.setPriority('running', 'low');
+    expect(scheduler.isRunning('running')).toBe(true);
+  });
+
+  it('drops a waiting task and aborts a running one', () => {
+    const { scheduler, started, signals, add } = harness(1);
+    add('running');
+    add('waiting');
+
+    expect(scheduler.cancel('waiting')).toBe('dropped');
+    expect(scheduler.has('waiting')).toBe(false);
+    expect(scheduler.cancel('running')).toBe('aborted');
+    expect(signals.get('running')!.aborted).toBe(true);
+    expect(scheduler.cancel('unknown')).toBeNull();
+    expect(started).toEqual(['running']);
+  });
+
+  it('ignores a task whose id is already queued or running', () => {
+    const { scheduler, started, add } = harness(1);
+    add('a');
+    add('a');
+    add('b');
+    add('b');
+    expect(started).toEqual(['a']);
+    expect(scheduler.queuedIds()).toEqual(['b']);
+  });
+
+  it('starts more waiting tasks when concurrency goes up, within the maximum', () => {
+    const { scheduler, started, add } = harness(1);
+    ['a', 'b', 'c', 'd', 'e', 'f'].forEach(id => add(id));
+    expect(started).toEqual(['a']);
+
+    scheduler.setConcurrency(3);
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    scheduler.setConcurrency(10);
+    expect(scheduler.getConcurrency()).toBe(MAX_JOB_CONCURRENCY);
+    expect(started).toHaveLength(MAX_JOB_CONCURRENCY);
+  });
+
+  it('keeps going after a task fails', async () => {
+    const scheduler = new JobScheduler(1);
+    const started: string[] = [];
+    scheduler.enqueue({ id: 'broken', priority: 'normal', run: async () => { started.push('broken'); throw new Error('boom'); } });
+    scheduler.enqueue({ id: 'next', priority: 'normal', run: async () => { started.push('next'); } });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(started).toEqual(['broken', 'next']);
+  });
+});
@@ -0,0 +1,104 @@
+import { JobPriority } from '../types';
+
+/**
+ * 🗂️ GENERATION JOB SCHEDULER
+ * Runs up to `concurrency` jobs at once across all notebooks; the rest wait
+ * in priority order (first come, first served within a priority). Every
+ * running job gets its own AbortController, so cancelling one never touches
+ * another.
+ */
+
+export const JOB_PRIORITIES: JobPriority[] = ['high', 'normal', 'low'];
+export const DEFAULT_JOB_CONCURRENCY = 2;
+export const MAX_JOB_CONCURRENCY = 4;
+
+export interface ScheduledTask {
+  id: string;
+  priority: JobPriority;
+  /** Should stop promptly (resolving or rejecting) once `signal` aborts. */
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+interface QueuedTask extends ScheduledTask {
+  seq: number;
+}
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export class JobScheduler {
+  private queue: QueuedTask[] = [];
+  private running = new Map<string, AbortController>();
+  private nextSeq = 1;
+
+  constructor(private concurrency: number = DEFAULT_JOB_CONCURRENCY) {}
+
+  /** Ignored when a task with the same id is already queued or running. */
+  enqueue(task: ScheduledTask): void {
+    if (this.has(task.id)) return;
+    this.queue.push({ ...task, seq: this.nextSeq++ });
+    this.sort();
+    this.pump();
+  }
+
+  /**
+   * 'dropped' means the task never started; 'aborted' means its signal fired
+   * and the task is expected to wind down on its own.
+   */
+  cancel(id: string): 'dropped' | 'aborted' | null {
+    const before = this.queue.length;
+    this.queue = this.queue.filter(t => t.id !== id);
+    if (this.queue.length !== before) return 'dropped';
+    const controller = this.running.get(id);
+    if (!controller) return null;
+    controller.abort();
+    return 'aborted';
+  }
+
+  /** Only affects waiting tasks; a running task keeps its slot. */
+  setPriority(id: string, priority: JobPriority): void {
+    const task = this.queue.find(t => t.id === id);
+    if (!task) return;
+    task.priority = priority;
+    this.sort();
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.min(MAX_JOB_CONCURRENCY, Math.round(concurrency)));
+    this.pump();
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  has(id: string): boolean {
+    return this.running.has(id) || this.queue.some(t => t.id === id);
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  /** Waiting task ids in the order they will start. */
+  queuedIds(): string[] {
+    return this.queue.map(t => t.id);
+  }
+
+  private sort(): void {
+    this.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq);
+  }
+
+  private pump(): void {
+    while (this.running.size < this.concurrency && this.queue.length > 0) {
+      const task = this.queue.shift()!;
+      const controller = new AbortController();
+      this.running.set(task.id, controller);
+      task.run(controller.signal)
+        .catch(err => console.warn("[AXIOM JOBS] Task failed", task.id, err))
+        .finally(() => {
+          this.running.delete(task.id);
+          this.pump();
+        });
+    }
+  }
+}
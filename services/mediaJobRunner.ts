@@ -0,0 +1,102 @@
+import { GeneratedMedia, Notebook, PodcastJob, TTSEngine } from '../types';
+import { GeminiService } from './geminiService';
+import { isGroundingSource } from './retrieval';
+import { DEFAULT_FLASHCARD_COUNT } from './flashcards';
+import { DEFAULT_QUIZ_COUNT } from './quiz';
+
+/**
+ * 🧩 MEDIA JOB RUNNER
+ * Runs the single-shot generators (everything except audio overviews, see
+ * podcastJobRunner.ts) inside the job scheduler. Each media type registers a
+ * generator that returns the fields of its GeneratedMedia entry.
+ */
+
+export interface MediaJobRunOptions {
+  onCheckpoint: (job: PodcastJob) => void;
+  signal?: AbortSignal;
+}
+
+type MediaGenerator = (gemini: GeminiService, notebook: Notebook, job: PodcastJob, signal?: AbortSignal) =>
+  Promise<Pick<GeneratedMedia, 'title'> & Partial<GeneratedMedia>>;
+
+class MediaJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaJobError';
+  }
+}
+
+const GENERATORS: Partial<Record<GeneratedMedia['type'], MediaGenerator>> = {
+  FLASHCARDS: async (gemini, notebook, job, signal) => {
+    const flashcards = await gemini.generateFlashcards(notebook, job.options?.count || DEFAULT_FLASHCARD_COUNT, job.options?.focus, signal);
+    if (flashcards.length === 0) throw new MediaJobError('No flashcards could be built from the included sources.');
+    const focus = job.options?.focus?.trim();
+    return { title: `Flashcards: ${focus || notebook.title}`, flashcards, reviewLog: [] };
+  },
+  QUIZ: async (gemini, notebook, job, signal) => {
+    const difficulty = job.options?.difficulty || 'medium';
+    const quiz = await gemini.generateQuiz(notebook, job.options?.count || DEFAULT_QUIZ_COUNT, difficulty, job.options?.focus, signal);
+    if (quiz.length === 0) throw new MediaJobError('No questions could be built from the included sources.');
+    const focus = job.options?.focus?.trim();
+    return { title: `Quiz: ${focus || notebook.title}`, quiz, difficulty, quizAttempts: [] };
+  },
+  SLIDE_DECK: async (gemini, notebook, _job, signal) => {
+    const slides = await gemini.generateSlides(notebook, signal);
+    if (slides.length < 2) throw new MediaJobError('No slides could be built from the included sources.');
+    return { title: `Slides: ${notebook.title}`, slides };
+  },
+  INFOGRAPHIC: async (gemini, notebook, job, signal) => {
+    const infographic = await gemini.generateInfographic(notebook, job.options?.focus, signal);
+    if (!infographic) throw new MediaJobError('No cited figures or dates were found in the included sources.');
+    return { title: `Infographic: ${infographic.title}`, infographic };
+  },
+};
+
+export const canGenerate = (type: GeneratedMedia['type']) => !!GENERATORS[type];
+
+/** Queued or running; stopped and finished jobs have a null engine or a final state. */
+export const isMediaJobRunning = (job?: PodcastJob) =>
+  !!job && job.activeEngine !== null && job.state !== 'READY' && job.state !== 'FAILED' && job.state !== 'CANCELLED';
+
+/**
+ * Resolves with the new media entry when the job finishes, or null when it
+ * failed or was cancelled (the job itself records which).
+ */
+export async function runMediaJob(gemini: GeminiService, notebook: Notebook, start: PodcastJob, options: MediaJobRunOptions): Promise<GeneratedMedia | null> {
+  const { signal } = options;
+  let job = start;
+  const checkpoint = (updates: Partial<PodcastJob>) => {
+    job = { ...job, ...updates };
+    options.onCheckpoint(job);
+  };
+  const type = job.mediaType || 'AUDIO';
+
+  try {
+    const generate = GENERATORS[type];
+    if (!generate) throw new MediaJobError(`${type} generation is not supported.`);
+    if (!notebook.sources.some(isGroundingSource)) throw new MediaJobError('Include or add a source first.');
+
+    checkpoint({ state: 'PREFLIGHT', activeEngine: TTSEngine.GEMINI, progress: 0.1 });
+    checkpoint({ state: 'SCRIPTING', progress: 0.4 });
+    const fields = await generate(gemini, notebook, job, signal);
+    if (signal?.aborted) {
+      checkpoint({ state: 'CANCELLED', activeEngine: null });
+      return null;
+    }
+
+    checkpoint({ state: 'READY', progress: 1, activeEngine: null });
+    return {
+      id: job.jobId, type, sourceCount: notebook.sources.filter(isGroundingSource).length, createdAt: Date.now(),
+      options: job.options, ...fields,
+    };
+  } catch (e: any) {
+    if (signal?.aborted) {
+      checkpoint({ state: 'CANCELLED', activeEngine: null });
+      return null;
+    }
+    console.warn("[AXIOM MEDIA] Job failed", e);
+    const reason = e instanceof MediaJobError ? e.message : 'Something went wrong while generating.';
+    checkpoint({ state: 'FAILED', activeEngine: null, error: reason });
+    return null;
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedMedia } from '../types';
+import { duplicateMedia } from './mediaLibrary';
+import { mediaBlobId } from './vaultStore';
+
+const media = (updates: Partial<GeneratedMedia> = {}): GeneratedMedia => ({
+  id: 'media-1', type: 'FLASHCARDS', title: 'Tides', sourceCount: 2, createdAt: 100,
+  flashcards: [], reviewLog: [{ cardId: 'c-1', grade: 4, reviewedAt: 0, intervalDays: 1, easeFactor: 2.5 }],
+  quizAttempts: [{ id: 'a-1', completedAt: 0, answers: [], score: 0.5 }],
+  ...updates,
+});
+
+describe('duplicateMedia', () => {
+  it('gives the copy its own id, title and history arrays', () => {
+    const original = media();
+    const copy = duplicateMedia(original);
+    expect(copy.id).not.toBe(original.id);
+    expect(copy.title).toBe('Tides (copy)');
+    expect(copy.createdAt).toBe(original.createdAt);
+    expect(copy.reviewLog).toEqual(original.reviewLog);
+    expect(copy.reviewLog).not.toBe(original.reviewLog);
+    expect(copy.quizAttempts).not.toBe(original.quizAttempts);
+  });
+
+  it('files the copy\'s audio under the original\'s blob id', () => {
+    const original = media({ type: 'AUDIO', audioBase64: 'AAAA' });
+    const copy = duplicateMedia(original);
+    expect(mediaBlobId(copy)).toBe(original.id);
+    expect(mediaBlobId(duplicateMedia(copy))).toBe(original.id);
+  });
+});
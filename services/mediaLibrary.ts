@@ -0,0 +1,59 @@
+import { GeneratedMedia, MediaJobOptions, Notebook } from '../types';
+import { mediaBlobId } from './vaultStore';
+
+/**
+ * 🗃️ MEDIA LIBRARY
+ * Everything the studio generated for a notebook, grouped by type, and the
+ * helpers behind the library's stale badge, duplicate and regenerate.
+ */
+
+export const MEDIA_TYPES: { type: GeneratedMedia['type']; label: string }[] = [
+  { type: 'AUDIO', label: 'Audio Overviews' },
+  { type: 'FLASHCARDS', label: 'Flashcards' },
+  { type: 'QUIZ', label: 'Quizzes' },
+  { type: 'SLIDE_DECK', label: 'Slide Decks' },
+  { type: 'INFOGRAPHIC', label: 'Infographics' },
+];
+
+/** How long a deleted item can be restored before its audio and artwork are dropped. */
+export const MEDIA_UNDO_MS = 6000;
+
+/** Items saved before `sourcesChangedAt` existed only carry the `stale` flag. */
+export const isMediaStale = (notebook: Notebook, media: GeneratedMedia) =>
+  !!media.stale || (notebook.sourcesChangedAt ?? 0) > media.createdAt;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** One-line summary of what an item contains. */
+export function describeMedia(media: GeneratedMedia): string {
+  switch (media.type) {
+    case 'AUDIO': return [media.duration, media.chapters?.length ? plural(media.chapters.length, 'chapter') : ''].filter(Boolean).join(' · ');
+    case 'FLASHCARDS': return plural(media.flashcards?.length || 0, 'card');
+    case 'QUIZ': return [plural(media.quiz?.length || 0, 'question'), media.difficulty].filter(Boolean).join(' · ');
+    case 'SLIDE_DECK': return plural(media.slides?.length || 0, 'slide');
+    case 'INFOGRAPHIC': return plural(media.infographic?.stats.length || 0, 'figure');
+  }
+}
+
+/**
+ * A copy with its own id and its own review and quiz history. It keeps
+ * `createdAt`, since it was built from the same sources, so a copy of a stale
+ * item is stale too. Audio and artwork stay filed under the original's blob id
+ * rather than being stored a second time.
+ */
+export const duplicateMedia = (media: GeneratedMedia): GeneratedMedia => ({
+  ...media,
+  id: `${media.id}-copy-${Date.now()}`,
+  title: `${media.title} (copy)`,
+  blobId: mediaBlobId(media),
+  reviewLog: media.reviewLog && [...media.reviewLog],
+  quizAttempts: media.quizAttempts && [...media.quizAttempts],
+});
+
+/** Settings for a fresh job; older items without saved options get theirs from the content. */
+export function regenerateOptions(media: GeneratedMedia): MediaJobOptions {
+  if (media.options) return media.options;
+  if (media.type === 'FLASHCARDS') return { count: media.flashcards?.length };
+  if (media.type === 'QUIZ') return { count: media.quiz?.length, difficulty: media.difficulty };
+  return {};
+}
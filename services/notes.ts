@@ -0,0 +1,58 @@
+import { Citation, Message, Note, Source } from '../types';
+import { CITATION_MARKER, describeLocation } from './citations';
+
+/**
+ * 📝 NOTES
+ * Saved answers keep their inline `[S1:p2]` markers and the citations they
+ * resolve to. A note turned into a source is stored as plain Markdown-Lite:
+ * markers are stripped and the cited sources are listed at the end, since the
+ * labels mean nothing outside the turn that produced them.
+ */
+
+const NOTE_TITLE_CHARS = 60;
+
+export function createNoteFromMessage(message: Message, question?: string): Note {
+  const firstLine = message.text.split('\n').find(l => l.trim())?.replace(/^##\s+/, '') || 'Saved answer';
+  const title = (question || firstLine).replace(CITATION_MARKER, '').trim().slice(0, NOTE_TITLE_CHARS);
+  const now = Date.now();
+  return {
+    id: `note-${crypto.randomUUID()}`,
+    title,
+    content: message.text,
+    citations: message.citations || [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Drops citations whose marker no longer appears after an edit.
+ */
+export function pruneCitations(content: string, citations: Citation[]): Citation[] {
+  const used = new Set(Array.from(content.matchAll(CITATION_MARKER), m => m[1]));
+  return citations.filter(c => used.has(c.label));
+}
+
+export function noteToSourceContent(note: Note): string {
+  const body = note.content
+    .replace(CITATION_MARKER, '')
+    .replace(/[ \t]+([.,;:!?])/g, '$1')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+
+  const cited = Array.from(new Set(pruneCitations(note.content, note.citations).map(c => {
+    const where = describeLocation(c);
+    return where ? `${c.sourceTitle} (${where})` : c.sourceTitle;
+  })));
+  return cited.length > 0 ? `${body}\n\n## Cited sources\n${cited.map(c => `- ${c}`).join('\n')}` : body;
+}
+
+export function noteToSource(note: Note): Source {
+  return {
+    id: `src-${note.id}`,
+    type: 'note',
+    title: note.title,
+    content: noteToSourceContent(note),
+    noteId: note.id,
+  };
+}
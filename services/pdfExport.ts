@@ -0,0 +1,127 @@
+import { zlibSync } from 'fflate';
+import { Slide } from '../types';
+import { SLIDE_HEIGHT, SLIDE_LAYOUT, SLIDE_TYPE, SLIDE_WIDTH, SlideTheme, citationFooter } from './slideDeck';
+import { wrapText } from '../utils/textMetrics';
+
+/**
+ * 📄 PDF EXPORT
+ * One landscape page per slide, drawn with the built-in Helvetica fonts so
+ * nothing needs embedding. Layout matches the viewer; speaker notes stay in
+ * the PPTX.
+ */
+
+const PT_PER_PX = 0.75;
+const PAGE_WIDTH = SLIDE_WIDTH * PT_PER_PX;
+const PAGE_HEIGHT = SLIDE_HEIGHT * PT_PER_PX;
+
+/** Unicode punctuation that WinAnsiEncoding has outside Latin-1. */
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function toWinAnsi(text: string): number[] {
+  return Array.from(text).map(ch => {
+    const code = ch.codePointAt(0)!;
+    if (WIN_ANSI[ch]) return WIN_ANSI[ch];
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+    return 0x3f; // '?'
+  });
+}
+
+const pdfString = (text: string) => '(' + toWinAnsi(text).map(code => {
+  const ch = String.fromCharCode(code);
+  return ch === '(' || ch === ')' || ch === '\\' ? `\\${ch}` : ch;
+}).join('') + ')';
+
+const rgb = (color: string) => {
+  const value = parseInt(color.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => (c / 255).toFixed(3)).join(' ');
+};
+
+/** Drawing operators for one slide, in slide px with the origin top-left. */
+function pageContent(slide: Slide, theme: SlideTheme): string {
+  const { margin, titleTop, ruleTop, bodyTop, footerTop, coverTitleTop } = SLIDE_LAYOUT;
+  const width = SLIDE_WIDTH - margin * 2;
+  const ops: string[] = [];
+  const fillRect = (x: number, y: number, w: number, h: number, color: string) =>
+    ops.push(`${rgb(color)} rg ${(x * PT_PER_PX).toFixed(2)} ${(PAGE_HEIGHT - (y + h) * PT_PER_PX).toFixed(2)} ${(w * PT_PER_PX).toFixed(2)} ${(h * PT_PER_PX).toFixed(2)} re f`);
+  /** `y` is the baseline. */
+  const text = (value: string, x: number, y: number, size: number, color: string, bold = false) =>
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${(size * PT_PER_PX).toFixed(2)} Tf ${rgb(color)} rg ${(x * PT_PER_PX).toFixed(2)} ${(PAGE_HEIGHT - y * PT_PER_PX).toFixed(2)} Td ${pdfString(value)} Tj ET`);
+
+  fillRect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, theme.background);
+
+  if (slide.bullets.length === 0) {
+    const lines = wrapText(slide.title, width, SLIDE_TYPE.cover, true).slice(-3);
+    lines.forEach((line, i) => text(line, margin, coverTitleTop - (lines.length - 1 - i) * SLIDE_TYPE.cover * 1.15, SLIDE_TYPE.cover, theme.text, true));
+    fillRect(margin, coverTitleTop + 24, 96, 6, theme.accent);
+    if (slide.subtitle) text(slide.subtitle, margin, coverTitleTop + 56 + SLIDE_TYPE.body, SLIDE_TYPE.body, theme.muted);
+    return ops.join('\n');
+  }
+
+  const titleLines = wrapText(slide.title, width, SLIDE_TYPE.title, true).slice(0, 2);
+  titleLines.forEach((line, i) => text(line, margin, ruleTop - 16 - (titleLines.length - 1 - i) * SLIDE_TYPE.title * 1.15, SLIDE_TYPE.title, theme.text, true));
+  fillRect(margin, ruleTop, 64, 4, theme.accent);
+
+  const indent = SLIDE_TYPE.body * 1.2;
+  const lineHeight = SLIDE_TYPE.body * SLIDE_TYPE.lineHeight;
+  const bottom = footerTop - 16;
+  let y = bodyTop;
+  for (const bullet of slide.bullets) {
+    const lines = wrapText(bullet, width - indent, SLIDE_TYPE.body);
+    if (y + lineHeight > bottom) break;
+    text('•', margin, y + SLIDE_TYPE.body, SLIDE_TYPE.body, theme.accent);
+    for (const line of lines) {
+      if (y + lineHeight > bottom) break;
+      text(line, margin + indent, y + SLIDE_TYPE.body, SLIDE_TYPE.body, theme.text);
+      y += lineHeight;
+    }
+    y += 16;
+  }
+
+  const footer = citationFooter(slide);
+  if (footer) {
+    const lines = wrapText(footer, width, SLIDE_TYPE.caption);
+    lines.slice(0, 2).forEach((line, i) => text(i === 1 && lines.length > 2 ? `${line} …` : line, margin, footerTop + SLIDE_TYPE.caption + i * SLIDE_TYPE.caption * 1.3, SLIDE_TYPE.caption, theme.muted));
+  }
+  return ops.join('\n');
+}
+
+const latin1 = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+
+export function exportPdf(slides: Slide[], theme: SlideTheme, title: string): Blob {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (bytes: Uint8Array) => { chunks.push(bytes); length += bytes.length; };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(latin1(`${id} 0 obj\n${body}\n`));
+    if (stream) {
+      write(latin1('stream\n'));
+      write(stream);
+      write(latin1('\nendstream\n'));
+    }
+    write(latin1('endobj\n'));
+  };
+
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per slide.
+  const pageId = (i: number) => 6 + i * 2;
+  write(latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'));
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${slides.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${slides.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  object(5, `<< /Title ${pdfString(title)} /Producer (Axiom) >>`);
+  slides.forEach((slide, i) => {
+    const content = zlibSync(latin1(pageContent(slide, theme)));
+    object(pageId(i), `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId(i) + 1} 0 R >>`);
+    object(pageId(i) + 1, `<< /Length ${content.length} /Filter /FlateDecode >>`, content);
+  });
+
+  const count = pageId(slides.length);
+  const xref = length;
+  write(latin1(`xref\n0 ${count}\n0000000000 65535 f \n${offsets.slice(1, count).map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`));
+  write(latin1(`trailer\n<< /Size ${count} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`));
+  return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -0,0 +1,110 @@
+import { getDocument, GlobalWorkerOptions, version } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { SourcePage } from '../types';
+import { ExtractionError } from './extractionError';
+
+/**
+ * 📄 PDF TEXT EXTRACTION
+ * Reads the PDF text layer in the browser, rebuilds lines, promotes
+ * oversized short lines to `## ` headings (Markdown-Lite), and records
+ * per-page character offsets into the final content.
+ */
+
+GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+
+/** Documents with less extractable text than this per page are treated as scans. */
+const MIN_CHARS_PER_PAGE = 16;
+const HEADING_SIZE_RATIO = 1.25;
+const HEADING_MAX_LENGTH = 120;
+
+export interface PdfExtraction {
+  content: string;
+  pages: SourcePage[];
+  pageCount: number;
+}
+
+interface Line {
+  text: string;
+  size: number;
+}
+
+function buildLines(items: TextItem[]): Line[] {
+  const lines: Line[] = [];
+  let text = '';
+  let size = 0;
+  let lastY: number | null = null;
+
+  const flush = () => {
+    const trimmed = text.replace(/\s+/g, ' ').trim();
+    if (trimmed) lines.push({ text: trimmed, size });
+    text = '';
+    size = 0;
+  };
+
+  for (const item of items) {
+    const y = item.transform[5];
+    const itemSize = Math.hypot(item.transform[2], item.transform[3]);
+    if (lastY !== null && Math.abs(y - lastY) > itemSize * 0.5) flush();
+    text += item.str;
+    size = Math.max(size, itemSize);
+    lastY = y;
+    if (item.hasEOL) { flush(); lastY = null; }
+  }
+  flush();
+  return lines;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export async function extractPdf(data: ArrayBuffer): Promise<PdfExtraction> {
+  let pdf;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(data) }).promise;
+  } catch (e: any) {
+    if (e?.name === 'PasswordException') {
+      throw new ExtractionError('encrypted', 'This PDF is password-protected. Remove the password and upload it again.');
+    }
+    throw new ExtractionError('unreadable', 'This file could not be read as a PDF.');
+  }
+
+  try {
+    const pageLines: Line[][] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const text = await page.getTextContent();
+      pageLines.push(buildLines(text.items.filter((it): it is TextItem => 'str' in it)));
+      page.cleanup();
+    }
+
+    const allLines = pageLines.flat();
+    const totalChars = allLines.reduce((acc, l) => acc + l.text.length, 0);
+    if (totalChars < MIN_CHARS_PER_PAGE * pdf.numPages) {
+      throw new ExtractionError('image-only', 'No text layer found. This PDF looks like a scan or image-only document.');
+    }
+
+    const bodySize = median(allLines.map(l => l.size));
+    const isHeading = (l: Line) => l.size >= bodySize * HEADING_SIZE_RATIO && l.text.length <= HEADING_MAX_LENGTH;
+
+    let content = '';
+    const pages: SourcePage[] = [];
+    pageLines.forEach((lines, i) => {
+      const start = content.length;
+      const headings: string[] = [];
+      const body = lines.map(l => {
+        if (!isHeading(l)) return l.text;
+        headings.push(l.text);
+        return `\n## ${l.text}\n`;
+      }).join('\n').trim();
+      content += body + '\n\n';
+      pages.push({ page: i + 1, start, end: start + body.length, headings });
+    });
+
+    return { content: content.trimEnd(), pages, pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+}
@@ -0,0 +1,192 @@
+import { zipSync, strToU8 } from 'fflate';
+import { AudioChapter, GeneratedMedia, Notebook, NotebookCategory } from '../types';
+import { decode } from '../utils/audioUtils';
+import { toFileName } from '../utils/download';
+import { escapeXml } from '../utils/xml';
+import { exportMp3 } from './audioExport';
+import { pcmDurationMs } from './audioTimeline';
+import { CITATION_MARKER } from './citations';
+import { toSrt, toVtt } from './transcriptExport';
+
+/**
+ * 📡 PODCAST FEED EXPORT
+ * Packs a notebook's audio overviews into a static folder: MP3 episodes,
+ * Podcasting 2.0 chapter JSON, VTT/SRT transcripts and an RSS 2.0 feed with
+ * iTunes tags. Podcast apps need absolute enclosure URLs, so every link is
+ * built from the `baseUrl` the folder will be served from.
+ */
+
+export interface PodcastFeedOptions {
+  /** Public URL of the exported folder, e.g. "https://example.com/podcasts/rust/". */
+  baseUrl: string;
+  author?: string;
+  language?: string;
+}
+
+export interface FeedEpisode {
+  media: GeneratedMedia;
+  /** File name stem inside `episodes/`. */
+  slug: string;
+  byteLength: number;
+  durationMs: number;
+  imagePath?: string;
+}
+
+const EPISODE_DIR = 'episodes';
+const CHANNEL_AUTHOR = 'Axiom';
+
+/** Apple Podcasts top-level categories for each notebook category. */
+const ITUNES_CATEGORIES: Record<NotebookCategory, string> = {
+  technology: 'Technology',
+  mobile: 'Technology',
+  science: 'Science',
+  research: 'Science',
+  business: 'Business',
+  finance: 'Business',
+  design: 'Arts',
+  education: 'Education',
+  general: 'Education',
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/jpg': 'jpg', 'image/webp': 'webp' };
+
+export const isFeedEpisode = (media: GeneratedMedia) => media.type === 'AUDIO' && !!media.audioBase64;
+
+export function normalizeBaseUrl(url: string): string {
+  const trimmed = url.trim();
+  return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+}
+
+/** Notebook summaries use Markdown-Lite; feeds get plain text. */
+const plainSummary = (text: string) => text
+  .replace(/^#+\s*/gm, '')
+  .replace(/\*\*|__|`/g, '')
+  .replace(/^\s*[-*]\s+/gm, '')
+  .replace(CITATION_MARKER, '')
+  .replace(/[ \t]+([.,;:!?])/g, '$1')
+  .replace(/\n{2,}/g, '\n')
+  .trim();
+
+/** "hh:mm:ss", which every podcast app parses. */
+function itunesDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+/** Podcasting 2.0 JSON chapters (version 1.2.0); times are in seconds. */
+export function buildChaptersJson(chapters: AudioChapter[]): string {
+  return JSON.stringify({
+    version: '1.2.0',
+    chapters: chapters.map(ch => ({ startTime: ch.startMs / 1000, endTime: ch.endMs / 1000, title: ch.title })),
+  }, null, 2);
+}
+
+export function buildFeedXml(notebook: Notebook, episodes: FeedEpisode[], options: PodcastFeedOptions & { imagePath?: string }): string {
+  const base = normalizeBaseUrl(options.baseUrl);
+  const author = options.author || CHANNEL_AUTHOR;
+  const description = plainSummary(notebook.summary || '') || `Audio overviews generated from the "${notebook.title}" notebook.`;
+  const category = ITUNES_CATEGORIES[notebook.visualFingerprint?.category] || 'Education';
+  const newest = episodes.reduce((latest, e) => Math.max(latest, e.media.createdAt), notebook.createdAt);
+
+  const items = episodes.map(({ media, slug, byteLength, durationMs, imagePath }) => {
+    const episodeUrl = `${base}${EPISODE_DIR}/${slug}`;
+    const summary = (media.chapters || []).map((ch, i) => `${i + 1}. ${ch.title}`).join('\n') || media.title;
+    return [
+      '    <item>',
+      `      <title>${escapeXml(media.title)}</title>`,
+      `      <description>${escapeXml(summary)}</description>`,
+      `      <guid isPermaLink="false">${escapeXml(media.id)}</guid>`,
+      `      <pubDate>${new Date(media.createdAt).toUTCString()}</pubDate>`,
+      `      <enclosure url="${escapeXml(`${episodeUrl}.mp3`)}" length="${byteLength}" type="audio/mpeg"/>`,
+      `      <itunes:duration>${itunesDuration(durationMs)}</itunes:duration>`,
+      `      <itunes:episodeType>full</itunes:episodeType>`,
+      `      <itunes:explicit>false</itunes:explicit>`,
+      imagePath ? `      <itunes:image href="${escapeXml(base + imagePath)}"/>` : '',
+      media.chapters?.length ? `      <podcast:chapters url="${escapeXml(`${episodeUrl}.chapters.json`)}" type="application/json+chapters"/>` : '',
+      media.transcript?.length ? `      <podcast:transcript url="${escapeXml(`${episodeUrl}.vtt`)}" type="text/vtt"/>` : '',
+      media.transcript?.length ? `      <podcast:transcript url="${escapeXml(`${episodeUrl}.srt`)}" type="application/srt"/>` : '',
+      '    </item>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(notebook.title)}</title>`,
+    `    <link>${escapeXml(base)}</link>`,
+    `    <atom:link href="${escapeXml(`${base}feed.xml`)}" rel="self" type="application/rss+xml"/>`,
+    `    <description>${escapeXml(description)}</description>`,
+    `    <language>${escapeXml(options.language || 'en')}</language>`,
+    `    <lastBuildDate>${new Date(newest).toUTCString()}</lastBuildDate>`,
+    `    <itunes:author>${escapeXml(author)}</itunes:author>`,
+    `    <itunes:summary>${escapeXml(description)}</itunes:summary>`,
+    `    <itunes:category text="${escapeXml(category)}"/>`,
+    `    <itunes:explicit>false</itunes:explicit>`,
+    `    <itunes:type>episodic</itunes:type>`,
+    options.imagePath ? `    <itunes:image href="${escapeXml(base + options.imagePath)}"/>` : '',
+    options.imagePath ? `    <image><url>${escapeXml(base + options.imagePath)}</url><title>${escapeXml(notebook.title)}</title><link>${escapeXml(base)}</link></image>` : '',
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].filter(Boolean).join('\n');
+}
+
+const base64ByteLength = (b64: string) => Math.floor(b64.length * 3 / 4) - (b64.endsWith('==') ? 2 : b64.endsWith('=') ? 1 : 0);
+
+function readDataUrlImage(url?: string): { ext: string; data: Uint8Array } | null {
+  const match = url?.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match || !IMAGE_EXTENSIONS[match[1]]) return null;
+  return { ext: IMAGE_EXTENSIONS[match[1]], data: decode(match[2]) };
+}
+
+/**
+ * Encodes every audio overview that still has its audio and zips the
+ * result under a single top-level folder. Episodes are newest first, the
+ * same order as `generatedMedia`.
+ */
+export async function exportPodcastFolder(
+  notebook: Notebook,
+  options: PodcastFeedOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ zip: Blob; folder: string; episodeCount: number }> {
+  const folder = toFileName(notebook.title, 'podcast');
+  const files: Record<string, Uint8Array> = {};
+  const media = (notebook.generatedMedia || []).filter(isFeedEpisode);
+  const episodes: FeedEpisode[] = [];
+  let channelImage: string | undefined;
+
+  for (let i = 0; i < media.length; i++) {
+    onProgress?.(i, media.length);
+    const m = media[i];
+    const slug = toFileName(m.id, `episode-${i + 1}`);
+    const mp3 = new Uint8Array(await (await exportMp3(m.audioBase64!, {
+      title: m.title, artist: options.author || CHANNEL_AUTHOR, chapters: m.chapters, artworkUrl: m.artworkUrl,
+    })).arrayBuffer());
+    files[`${EPISODE_DIR}/${slug}.mp3`] = mp3;
+    if (m.chapters?.length) files[`${EPISODE_DIR}/${slug}.chapters.json`] = strToU8(buildChaptersJson(m.chapters));
+    if (m.transcript?.length) {
+      files[`${EPISODE_DIR}/${slug}.vtt`] = strToU8(toVtt(m.transcript));
+      files[`${EPISODE_DIR}/${slug}.srt`] = strToU8(toSrt(m.transcript));
+    }
+
+    const image = readDataUrlImage(m.artworkUrl);
+    let imagePath: string | undefined;
+    if (image) {
+      imagePath = `${EPISODE_DIR}/${slug}.${image.ext}`;
+      files[imagePath] = image.data;
+      channelImage = channelImage || imagePath;
+    }
+
+    episodes.push({ media: m, slug, byteLength: mp3.byteLength, durationMs: pcmDurationMs(base64ByteLength(m.audioBase64!)), imagePath });
+  }
+  onProgress?.(media.length, media.length);
+
+  files['feed.xml'] = strToU8(buildFeedXml(notebook, episodes, { ...options, imagePath: channelImage }));
+
+  // MP3 and images are already compressed; storing them keeps the export fast.
+  const zipped = zipSync({ [folder]: files }, { level: 0 });
+  return { zip: new Blob([zipped], { type: 'application/zip' }), folder, episodeCount: episodes.length };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { Notebook, PodcastJob, PodcastOutline, PodcastScriptCheckpoint } from '../types';
+import { encode } from '../utils/audioUtils';
+import { RawScriptChunk } from './audioTimeline';
+import { GeminiService, LOCAL_SCRIPT_PLACEHOLDER } from './geminiService';
+import { CHUNK_ATTEMPTS, runPodcastJob } from './podcastJobRunner';
+
+const notebook = { id: 'nb-podcast-test', title: 'Tides', createdAt: 0, sources: [] } as unknown as Notebook;
+
+const newJob = (updates: Partial<PodcastJob> = {}): PodcastJob => ({
+  jobId: 'job-test', notebookId: notebook.id, state: 'QUEUED', progress: 0, mode: 'PRIMARY',
+  activeEngine: null, createdAt: 0, personality: 'neutral', completedChunks: 0, totalChunks: 0,
+  ...updates,
+});
+
+const SCRIPT: RawScriptChunk = { script: 'Alex: Tides are predictable.\nJordan: Years in advance.', transcript: [] };
+
+const ONE_PART: PodcastOutline = { outline: [{ part: 1, title: 'Tides', summary: 'Basics', topics: ['tides'] }] };
+
+const THREE_PARTS: PodcastOutline = {
+  outline: [1, 2, 3].map(part => ({ part, title: `Part ${part}`, summary: `Summary ${part}`, topics: [`topic ${part}`] })),
+};
+
+const scriptFor = (part: number): PodcastScriptCheckpoint => ({
+  title: `Part ${part}`, summary: `Summary ${part}`, script: `Alex: Part ${part} script.`, turns: [{ speaker: 'Alex', text: `Part ${part} script.` }],
+});
+
+/** 100 ms of silent 24 kHz 16-bit PCM. */
+const PCM = encode(new Uint8Array(4800));
+
+interface FakeOptions {
+  /** Answers for the script step, one per call; the last one repeats. */
+  scripts?: (RawScriptChunk | null)[];
+  /** Answers for synthesis, one per call; the last one repeats. */
+  audio?: string[];
+}
+
+function fakeGemini({ scripts = [SCRIPT], audio = [PCM] }: FakeOptions = {}) {
+  const scriptCalls: { partIndex: number; strict?: boolean }[] = [];
+  const ttsScripts: string[] = [];
+  let outlineCalls = 0;
+  const next = <T>(answers: T[]) => answers.length > 1 ? answers.shift()! : answers[0];
+  const gemini = {
+    canSynthesize: () => true,
+    generateOutline: async () => { outlineCalls++; return ONE_PART; },
+    generateEpisodeArtwork: async () => null,
+    generateScriptChunk: async (_n: Notebook, _o: PodcastOutline, partIndex: number, _p: string, _s?: AbortSignal, strict?: boolean) => {
+      scriptCalls.push({ partIndex, strict });
+      return next(scripts);
+    },
+    generateTTSChunk: async (script: string) => { ttsScripts.push(script); return next(audio); },
+  } as unknown as GeminiService;
+  return { gemini, scriptCalls, ttsScripts, outlineCalls: () => outlineCalls };
+}
+
+const run = (gemini: GeminiService, start: PodcastJob = newJob()) => {
+  const sleeps: number[] = [];
+  const checkpoints: PodcastJob[] = [];
+  const result = runPodcastJob(gemini, notebook, start, {
+    onCheckpoint: (job) => { checkpoints.push(job); },
+    sleep: async (ms) => { sleeps.push(ms); },
+  });
+  return { result, sleeps, checkpoints };
+};
+
+describe('runPodcastJob script step', () => {
+  it('asks for the strict script and synthesizes it', async () => {
+    const fake = fakeGemini();
+    const job = await run(fake.gemini).result;
+    expect(job.state).toBe('READY');
+    expect(fake.scriptCalls).toEqual([{ partIndex: 0, strict: true }]);
+    expect(fake.ttsScripts).toHaveLength(1);
+  });
+
+  it('retries a failed script request with backoff', async () => {
+    const fake = fakeGemini({ scripts: [null, SCRIPT] });
+    const { result, sleeps } = run(fake.gemini);
+    const job = await result;
+    expect(job.state).toBe('READY');
+    expect(fake.scriptCalls).toHaveLength(2);
+    expect(sleeps).toEqual([1000]);
+  });
+
+  it('fails the job when every attempt fails, without synthesizing anything', async () => {
+    const fake = fakeGemini({ scripts: [null] });
+    const { result, sleeps } = run(fake.gemini);
+    const job = await result;
+    expect(job.state).toBe('FAILED');
+    expect(job.error).toContain(`failed after ${CHUNK_ATTEMPTS} attempts`);
+    expect(fake.scriptCalls).toHaveLength(CHUNK_ATTEMPTS);
+    expect(sleeps).toEqual([1000, 2000, 4000]);
+    expect(fake.ttsScripts).toHaveLength(0);
+  });
+
+  it('rejects empty and placeholder scripts', async () => {
+    const fake = fakeGemini({ scripts: [{ script: '  ', transcript: [] }, { speaker: 'Alex', text: LOCAL_SCRIPT_PLACEHOLDER, transcript: [] }] });
+    const job = await run(fake.gemini).result;
+    expect(job.state).toBe('FAILED');
+    expect(job.error).toContain('placeholder');
+    expect(fake.ttsScripts).toHaveLength(0);
+  });
+});
+
+describe('runPodcastJob checkpoints', () => {
+  it('checkpoints the audio, count and transcript after every chunk', async () => {
+    const fake = fakeGemini();
+    const { result, checkpoints } = run(fake.gemini, newJob({ outline: THREE_PARTS, totalChunks: 3 }));
+    await result;
+    const afterChunks = checkpoints.filter((c, i) => c.completedChunks !== (checkpoints[i - 1]?.completedChunks ?? 0));
+    expect(afterChunks.map(c => c.completedChunks)).toEqual([1, 2, 3]);
+    afterChunks.forEach((c, i) => {
+      expect(c.partialAudioBuffers).toHaveLength(i + 1);
+      // Two turns per part; the transcript runs to the end of the audio so far.
+      expect(c.partialTranscript).toHaveLength(2 * (i + 1));
+      expect(c.partialTranscript![c.partialTranscript!.length - 1].endMs).toBe(100 * (i + 1));
+    });
+  });
+
+  it('resumes synthesis at the first chunk without audio', async () => {
+    const fake = fakeGemini();
+    const start = newJob({
+      state: 'FAILED', outline: THREE_PARTS, totalChunks: 3, completedChunks: 1,
+      partialAudioBuffers: [PCM], scripts: [scriptFor(1), scriptFor(2)],
+    });
+    const job = await run(fake.gemini, start).result;
+
+    expect(fake.outlineCalls()).toBe(0);
+    // Part 2 was already scripted; only part 3 needs a script.
+    expect(fake.scriptCalls.map(c => c.partIndex)).toEqual([2]);
+    expect(fake.ttsScripts).toEqual([scriptFor(2).script, SCRIPT.script]);
+    expect(job.state).toBe('READY');
+    expect(job.audio!.chapters.map(c => c.title)).toEqual(['Part 1', 'Part 2', 'Part 3']);
+    expect(job.audio!.chapters[2].endMs).toBe(300);
+  });
+
+  it('fails with its reason when synthesis runs out of retries, keeping earlier chunks', async () => {
+    const fake = fakeGemini({ audio: [PCM, ''] });
+    const { result, sleeps } = run(fake.gemini, newJob({ outline: THREE_PARTS, totalChunks: 3 }));
+    const job = await result;
+
+    expect(job.state).toBe('FAILED');
+    expect(job.error).toBe(`Audio for part 2 failed after ${CHUNK_ATTEMPTS} attempts: speech synthesis returned no audio`);
+    expect(job.activeEngine).toBeNull();
+    expect(job.completedChunks).toBe(1);
+    expect(job.partialAudioBuffers).toHaveLength(1);
+    expect(job.scripts).toHaveLength(2);
+    expect(sleeps).toEqual([1000, 2000, 4000]);
+  });
+});
@@ -0,0 +1,186 @@
+import { Notebook, PodcastJob, PodcastOutline, PodcastScriptCheckpoint, TTSEngine } from '../types';
+import { decode, encode } from '../utils/audioUtils';
+import { GeminiService, LOCAL_SCRIPT_PLACEHOLDER } from './geminiService';
+import { buildTimeline, toScriptTurns, TimelinePart } from './audioTimeline';
+
+/**
+ * 🎧 PODCAST JOB RUNNER
+ * Drives a job from outline to merged audio, checkpointing after every
+ * scripted and every synthesized chunk. Running it again on a checkpointed
+ * job picks up at the first chunk without audio, so a reload or a failure
+ * only costs the chunk that was in progress.
+ */
+
+/** Tries per step, including the first. */
+export const CHUNK_ATTEMPTS = 4;
+export const RETRY_BASE_MS = 1000;
+
+/** A failure the user should see; `message` is shown in the studio. */
+export class PodcastJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PodcastJobError';
+  }
+}
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Cancelled.');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface PodcastJobRunOptions {
+  /** Receives the full job after every checkpoint. */
+  onCheckpoint: (job: PodcastJob) => void;
+  /** Aborting stops the job after the current request; checkpoints are kept. */
+  signal?: AbortSignal;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const defaultSleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+/** Exponential backoff: 1s, 2s, 4s... */
+export const retryDelayMs = (retry: number) => RETRY_BASE_MS * 2 ** retry;
+
+/** A job with a fixed outline can continue where it stopped. */
+export const isResumable = (job: PodcastJob) => !!job.outline && job.state !== 'READY';
+
+/** Stopped jobs the user can run again, from their checkpoint when they have one. */
+export const isRestartable = (job: PodcastJob) => job.state === 'FAILED' || job.state === 'CANCELLED';
+
+/**
+ * Resets a stopped job for another run, keeping every checkpoint.
+ */
+export const prepareResume = (job: PodcastJob): PodcastJob => ({
+  ...job, state: 'QUEUED', activeEngine: TTSEngine.GEMINI, error: undefined, retryCount: 0,
+});
+
+function timelineParts(job: PodcastJob): TimelinePart[] {
+  const buffers = job.partialAudioBuffers || [];
+  return buffers.map((pcm, i) => {
+    const script = job.scripts![i];
+    return { title: script.title, summary: script.summary, pcmBytes: decode(pcm).length, turns: script.turns };
+  });
+}
+
+export async function runPodcastJob(gemini: GeminiService, notebook: Notebook, start: PodcastJob, options: PodcastJobRunOptions): Promise<PodcastJob> {
+  const sleep = options.sleep || defaultSleep;
+  const { signal } = options;
+  const throwIfCancelled = () => { if (signal?.aborted) throw new JobCancelledError(); };
+  let job: PodcastJob = { ...start, partialAudioBuffers: start.partialAudioBuffers || [], scripts: start.scripts || [] };
+
+  const checkpoint = (updates: Partial<PodcastJob>) => {
+    job = { ...job, ...updates };
+    options.onCheckpoint(job);
+  };
+
+  const withRetry = async <T>(label: string, attempt: () => Promise<T>): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        const result = await attempt();
+        throwIfCancelled();
+        if (retry > 0) checkpoint({ retryCount: 0 });
+        return result;
+      } catch (e: any) {
+        throwIfCancelled();
+        if (retry + 1 >= CHUNK_ATTEMPTS) {
+          throw new PodcastJobError(`${label} failed after ${CHUNK_ATTEMPTS} attempts: ${e?.message || e}`);
+        }
+        console.warn(`[AXIOM PODCAST] ${label} failed, retrying`, e);
+        checkpoint({ retryCount: retry + 1 });
+        await sleep(retryDelayMs(retry), signal);
+        throwIfCancelled();
+      }
+    }
+  };
+
+  try {
+    throwIfCancelled();
+    if (!gemini.canSynthesize()) {
+      throw new PodcastJobError('Speech synthesis is unavailable. Add a Gemini API key and try again.');
+    }
+    checkpoint({ state: 'PREFLIGHT', activeEngine: TTSEngine.GEMINI });
+
+    if (!job.outline) {
+      checkpoint({ state: 'OUTLINING', progress: 0.1 });
+      const outline: PodcastOutline = await withRetry('Outline', async () => {
+        const result = await gemini.generateOutline(notebook, signal);
+        if (!result?.outline?.length) throw new Error('the outline came back empty');
+        return result;
+      });
+      const artwork = await gemini.generateEpisodeArtwork(notebook, signal);
+      throwIfCancelled();
+      checkpoint({ outline, totalChunks: outline.outline.length, artworkUrl: artwork || undefined });
+    }
+
+    const parts = job.outline!.outline;
+    const total = parts.length;
+    const progressAt = (chunk: number, phase: number) => 0.15 + 0.8 * ((chunk + phase) / total);
+
+    for (let i = job.partialAudioBuffers!.length; i < total; i++) {
+      if (!job.scripts![i]) {
+        checkpoint({ state: 'SCRIPTING', progress: progressAt(i, 0) });
+        const script = await withRetry<PodcastScriptCheckpoint>(`Script for part ${i + 1}`, async () => {
+          const chunk = await gemini.generateScriptChunk(notebook, job.outline, i, job.personality, signal, true);
+          if (!chunk) throw new Error('the script request failed');
+          const text = (chunk.script || chunk.text || '').trim();
+          if (!text) throw new Error('the script came back empty');
+          if (text === LOCAL_SCRIPT_PLACEHOLDER) throw new Error('the script is a placeholder');
+          const topics: string[] = parts[i].topics || [];
+          return {
+            title: parts[i].title || topics[0] || `Part ${i + 1}`,
+            summary: parts[i].summary || topics.join(', '),
+            script: text,
+            turns: toScriptTurns(chunk),
+          };
+        });
+        checkpoint({ scripts: [...job.scripts!.slice(0, i), script] });
+      }
+
+      checkpoint({ state: 'SYNTHESIZING', progress: progressAt(i, 0.5) });
+      const pcm = await withRetry(`Audio for part ${i + 1}`, async () => {
+        const audio = await gemini.generateTTSChunk(job.scripts![i].script, signal);
+        // 16-bit samples: an odd trailing byte would shift every later chunk by half a sample.
+        const raw = audio ? decode(audio) : new Uint8Array(0);
+        const even = raw.subarray(0, raw.length - (raw.length % 2));
+        if (even.length === 0) throw new Error('speech synthesis returned no audio');
+        return even;
+      });
+
+      const partialAudioBuffers = [...job.partialAudioBuffers!, encode(pcm)];
+      checkpoint({
+        partialAudioBuffers,
+        completedChunks: partialAudioBuffers.length,
+        partialTranscript: buildTimeline(timelineParts({ ...job, partialAudioBuffers })).transcript,
+        progress: progressAt(i, 1),
+      });
+    }
+
+    checkpoint({ state: 'FINALIZING', progress: 0.97 });
+    const { chapters, transcript } = buildTimeline(timelineParts(job));
+    const pcmChunks = job.partialAudioBuffers!.map(decode);
+    const merged = new Uint8Array(pcmChunks.reduce((acc, c) => acc + c.length, 0));
+    let offset = 0;
+    for (const data of pcmChunks) { merged.set(data, offset); offset += data.length; }
+
+    // The merged audio supersedes the per-chunk checkpoints.
+    checkpoint({
+      state: 'READY', progress: 1, activeEngine: null, retryCount: 0,
+      audio: { audio: encode(merged), chapters, transcript, artworkUrl: job.artworkUrl },
+      partialAudioBuffers: [], partialTranscript: [], scripts: [],
+    });
+  } catch (e: any) {
+    if (e instanceof JobCancelledError || signal?.aborted) {
+      checkpoint({ state: 'CANCELLED', activeEngine: null, retryCount: 0, error: undefined });
+      return job;
+    }
+    console.warn("[AXIOM PODCAST] Job failed", e);
+    const reason = e instanceof PodcastJobError ? e.message : 'Something went wrong while generating the overview.';
+    checkpoint({ state: 'FAILED', activeEngine: null, error: reason });
+  }
+  return job;
+}
@@ -0,0 +1,199 @@
+import { zipSync, strToU8 } from 'fflate';
+import { Slide } from '../types';
+import { COLORS } from '../design/tokens';
+import { SLIDE_HEIGHT, SLIDE_LAYOUT, SLIDE_TYPE, SLIDE_WIDTH, SlideTheme, citationFooter } from './slideDeck';
+import { escapeXml } from '../utils/xml';
+
+/**
+ * 📽️ PPTX EXPORT
+ * A minimal PresentationML package: one master, one blank layout, and text
+ * boxes placed exactly where the in-app viewer draws them. Speaker notes go
+ * into notes slides; citations are the footer of each slide and are
+ * repeated at the end of its notes.
+ */
+
+const EMU_PER_PX = 9525;
+const emu = (value: number) => Math.round(value * EMU_PER_PX);
+/** Font sizes are in hundredths of a point; 1px = 0.75pt. */
+const fontSize = (pxSize: number) => Math.round(pxSize * 75);
+const hex = (color: string) => color.replace('#', '').toUpperCase();
+
+const FONT = 'Inter';
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument';
+
+const relationships = (rels: { type: string; target: string }[]) =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels.map((r, i) => `<Relationship Id="rId${i + 1}" Type="${r.type}" Target="${r.target}"/>`).join('')}</Relationships>`;
+
+const groupProps = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>';
+const solidFill = (color: string) => `<a:solidFill><a:srgbClr val="${hex(color)}"/></a:solidFill>`;
+const background = (color: string) => `<p:bg><p:bgPr>${solidFill(color)}<a:effectLst/></p:bgPr></p:bg>`;
+
+interface Box { x: number; y: number; w: number; h: number }
+
+const transform = ({ x, y, w, h }: Box) => `<a:xfrm><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${emu(w)}" cy="${emu(h)}"/></a:xfrm>`;
+
+const run = (text: string, size: number, color: string, bold = false) =>
+  `<a:r><a:rPr lang="en-US" sz="${fontSize(size)}"${bold ? ' b="1"' : ''} dirty="0">${solidFill(color)}<a:latin typeface="${FONT}"/></a:rPr><a:t>${escapeXml(text)}</a:t></a:r>`;
+
+function textBox(id: number, name: string, box: Box, paragraphs: string[], anchor: 't' | 'b' = 't'): string {
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>`
+    + `<p:spPr>${transform(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>`
+    + `<p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" anchor="${anchor}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs.join('')}</p:txBody></p:sp>`;
+}
+
+function rect(id: number, box: Box, color: string): string {
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Accent ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>`
+    + `<p:spPr>${transform(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${solidFill(color)}<a:ln><a:noFill/></a:ln></p:spPr></p:sp>`;
+}
+
+function slideXml(slide: Slide, theme: SlideTheme): string {
+  const { margin, titleTop, ruleTop, bodyTop, footerTop, coverTitleTop } = SLIDE_LAYOUT;
+  const width = SLIDE_WIDTH - margin * 2;
+  const shapes: string[] = [];
+
+  if (slide.bullets.length === 0) {
+    shapes.push(textBox(2, 'Title', { x: margin, y: coverTitleTop - SLIDE_TYPE.cover * 2, w: width, h: SLIDE_TYPE.cover * 2.6 }, [`<a:p>${run(slide.title, SLIDE_TYPE.cover, theme.text, true)}</a:p>`], 'b'));
+    shapes.push(rect(3, { x: margin, y: coverTitleTop + 24, w: 96, h: 6 }, theme.accent));
+    if (slide.subtitle) shapes.push(textBox(4, 'Subtitle', { x: margin, y: coverTitleTop + 56, w: width, h: SLIDE_TYPE.body * 2 }, [`<a:p>${run(slide.subtitle, SLIDE_TYPE.body, theme.muted)}</a:p>`]));
+  } else {
+    shapes.push(textBox(2, 'Title', { x: margin, y: titleTop, w: width, h: ruleTop - titleTop - 12 }, [`<a:p>${run(slide.title, SLIDE_TYPE.title, theme.text, true)}</a:p>`], 'b'));
+    shapes.push(rect(3, { x: margin, y: ruleTop, w: 64, h: 4 }, theme.accent));
+    const indent = emu(SLIDE_TYPE.body * 1.2);
+    const bullets = slide.bullets.map(b =>
+      `<a:p><a:pPr marL="${indent}" indent="-${indent}"><a:lnSpc><a:spcPct val="${Math.round(SLIDE_TYPE.lineHeight * 100000)}"/></a:lnSpc><a:spcBef><a:spcPts val="1200"/></a:spcBef>`
+      + `<a:buClr><a:srgbClr val="${hex(theme.accent)}"/></a:buClr><a:buFont typeface="Arial"/><a:buChar char="•"/></a:pPr>${run(b, SLIDE_TYPE.body, theme.text)}</a:p>`);
+    shapes.push(textBox(4, 'Body', { x: margin, y: bodyTop, w: width, h: footerTop - bodyTop - 16 }, bullets));
+    const footer = citationFooter(slide);
+    if (footer) shapes.push(textBox(5, 'Sources', { x: margin, y: footerTop, w: width, h: SLIDE_HEIGHT - footerTop - 16 }, [`<a:p>${run(footer, SLIDE_TYPE.caption, theme.muted)}</a:p>`]));
+  }
+
+  return `${XML_HEADER}<p:sld ${NS}><p:cSld>${background(theme.background)}<p:spTree>${groupProps}${shapes.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+}
+
+function notesXml(slide: Slide): string {
+  const footer = citationFooter(slide);
+  const lines = [...slide.speakerNotes.split(/\n+/).filter(Boolean), ...(footer ? [footer] : [])];
+  const paragraphs = (lines.length ? lines : ['']).map(line => `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>`).join('');
+  return `${XML_HEADER}<p:notes ${NS}><p:cSld><p:spTree>${groupProps}`
+    + `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>`
+    + `<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody></p:sp>`
+    + `</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`;
+}
+
+const NOTES_WIDTH = 6858000;
+const NOTES_HEIGHT = 9144000;
+
+function notesMasterXml(): string {
+  const placeholder = (id: number, name: string, ph: string, x: number, y: number, cx: number, cy: number) =>
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr>${ph}</p:nvPr></p:nvSpPr>`
+    + `<p:spPr><a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>`
+    + (ph.includes('body') ? '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody>' : '') + '</p:sp>';
+  return `${XML_HEADER}<p:notesMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${groupProps}`
+    + placeholder(2, 'Slide Image', '<p:ph type="sldImg" idx="2"/>', 381000, 685800, 6096000, 3429000)
+    + placeholder(3, 'Notes', '<p:ph type="body" sz="quarter" idx="3"/>', 685800, 4343400, 5486400, 4114800)
+    + `</p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/></p:notesMaster>`;
+}
+
+function themeXml(theme: SlideTheme): string {
+  const color = (name: string, value: string) => `<a:${name}><a:srgbClr val="${hex(value)}"/></a:${name}>`;
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const line = '<a:ln w="9525"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>';
+  const effect = '<a:effectStyle><a:effectLst/></a:effectStyle>';
+  const fonts = `<a:latin typeface="${FONT}"/><a:ea typeface=""/><a:cs typeface=""/>`;
+  return `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Axiom"><a:themeElements>`
+    + `<a:clrScheme name="Axiom">${color('dk1', theme.background)}${color('lt1', theme.text)}${color('dk2', theme.surface)}${color('lt2', theme.muted)}`
+    + `${color('accent1', theme.accent)}${color('accent2', COLORS.accent)}${color('accent3', COLORS.secondary)}${color('accent4', COLORS.primary)}${color('accent5', COLORS.error)}${color('accent6', COLORS.textSecondary)}`
+    + `${color('hlink', theme.accent)}${color('folHlink', COLORS.accent)}</a:clrScheme>`
+    + `<a:fontScheme name="Axiom"><a:majorFont>${fonts}</a:majorFont><a:minorFont>${fonts}</a:minorFont></a:fontScheme>`
+    + `<a:fmtScheme name="Axiom"><a:fillStyleLst>${fill}${fill}${fill}</a:fillStyleLst><a:lnStyleLst>${line}${line}${line}</a:lnStyleLst>`
+    + `<a:effectStyleLst>${effect}${effect}${effect}</a:effectStyleLst><a:bgFillStyleLst>${fill}${fill}${fill}</a:bgFillStyleLst></a:fmtScheme>`
+    + `</a:themeElements></a:theme>`;
+}
+
+/**
+ * Packages the deck as a .pptx. Colours come from the slide theme, so the
+ * file matches the viewer.
+ */
+export function exportPptx(slides: Slide[], theme: SlideTheme, title: string): Blob {
+  const files: Record<string, Uint8Array> = {};
+  const put = (path: string, xml: string) => { files[path] = strToU8(xml); };
+  const slideIds = slides.map((_, i) => i + 1);
+
+  put('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>'
+    + `<Override PartName="/ppt/presentation.xml" ContentType="${CONTENT_TYPE}.presentationml.presentation.main+xml"/>`
+    + `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CONTENT_TYPE}.presentationml.slideMaster+xml"/>`
+    + `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CONTENT_TYPE}.presentationml.slideLayout+xml"/>`
+    + `<Override PartName="/ppt/notesMasters/notesMaster1.xml" ContentType="${CONTENT_TYPE}.presentationml.notesMaster+xml"/>`
+    + `<Override PartName="/ppt/theme/theme1.xml" ContentType="${CONTENT_TYPE}.theme+xml"/>`
+    + `<Override PartName="/ppt/theme/theme2.xml" ContentType="${CONTENT_TYPE}.theme+xml"/>`
+    + `<Override PartName="/ppt/presProps.xml" ContentType="${CONTENT_TYPE}.presentationml.presProps+xml"/>`
+    + `<Override PartName="/ppt/viewProps.xml" ContentType="${CONTENT_TYPE}.presentationml.viewProps+xml"/>`
+    + `<Override PartName="/ppt/tableStyles.xml" ContentType="${CONTENT_TYPE}.presentationml.tableStyles+xml"/>`
+    + slideIds.map(n => `<Override PartName="/ppt/slides/slide${n}.xml" ContentType="${CONTENT_TYPE}.presentationml.slide+xml"/>`
+      + `<Override PartName="/ppt/notesSlides/notesSlide${n}.xml" ContentType="${CONTENT_TYPE}.presentationml.notesSlide+xml"/>`).join('')
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + `<Override PartName="/docProps/app.xml" ContentType="${CONTENT_TYPE}.extended-properties+xml"/>`
+    + '</Types>');
+
+  put('_rels/.rels', relationships([
+    { type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+    { type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+    { type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+  ]));
+  put('docProps/core.xml', `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+    + `<dc:title>${escapeXml(title)}</dc:title><dc:creator>Axiom</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created></cp:coreProperties>`);
+  put('docProps/app.xml', `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Axiom</Application><Slides>${slides.length}</Slides><Notes>${slides.length}</Notes></Properties>`);
+
+  // Fixed relationship ids 1-6; slides follow from rId7.
+  put('ppt/presentation.xml', `${XML_HEADER}<p:presentation ${NS} saveSubsetFonts="1">`
+    + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+    + '<p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst>'
+    + `<p:sldIdLst>${slideIds.map(n => `<p:sldId id="${255 + n}" r:id="rId${6 + n}"/>`).join('')}</p:sldIdLst>`
+    + `<p:sldSz cx="${emu(SLIDE_WIDTH)}" cy="${emu(SLIDE_HEIGHT)}"/><p:notesSz cx="${NOTES_WIDTH}" cy="${NOTES_HEIGHT}"/></p:presentation>`);
+  put('ppt/_rels/presentation.xml.rels', relationships([
+    { type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+    { type: `${REL}/notesMaster`, target: 'notesMasters/notesMaster1.xml' },
+    { type: `${REL}/theme`, target: 'theme/theme1.xml' },
+    { type: `${REL}/presProps`, target: 'presProps.xml' },
+    { type: `${REL}/viewProps`, target: 'viewProps.xml' },
+    { type: `${REL}/tableStyles`, target: 'tableStyles.xml' },
+    ...slideIds.map(n => ({ type: `${REL}/slide`, target: `slides/slide${n}.xml` })),
+  ]));
+  put('ppt/presProps.xml', `${XML_HEADER}<p:presentationPr ${NS}/>`);
+  put('ppt/viewProps.xml', `${XML_HEADER}<p:viewPr ${NS}><p:normalViewPr><p:restoredLeft sz="15620"/><p:restoredTop sz="94660"/></p:normalViewPr></p:viewPr>`);
+  put('ppt/tableStyles.xml', `${XML_HEADER}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`);
+
+  put('ppt/theme/theme1.xml', themeXml(theme));
+  put('ppt/theme/theme2.xml', themeXml(theme));
+  put('ppt/slideMasters/slideMaster1.xml', `${XML_HEADER}<p:sldMaster ${NS}><p:cSld>${background(theme.background)}<p:spTree>${groupProps}</p:spTree></p:cSld>`
+    + '<p:clrMap bg1="dk1" tx1="lt1" bg2="dk2" tx2="lt2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+    + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>');
+  put('ppt/slideMasters/_rels/slideMaster1.xml.rels', relationships([
+    { type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+    { type: `${REL}/theme`, target: '../theme/theme1.xml' },
+  ]));
+  put('ppt/slideLayouts/slideLayout1.xml', `${XML_HEADER}<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${groupProps}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`);
+  put('ppt/slideLayouts/_rels/slideLayout1.xml.rels', relationships([{ type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }]));
+  put('ppt/notesMasters/notesMaster1.xml', notesMasterXml());
+  put('ppt/notesMasters/_rels/notesMaster1.xml.rels', relationships([{ type: `${REL}/theme`, target: '../theme/theme2.xml' }]));
+
+  slides.forEach((slide, i) => {
+    const n = i + 1;
+    put(`ppt/slides/slide${n}.xml`, slideXml(slide, theme));
+    put(`ppt/slides/_rels/slide${n}.xml.rels`, relationships([
+      { type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+      { type: `${REL}/notesSlide`, target: `../notesSlides/notesSlide${n}.xml` },
+    ]));
+    put(`ppt/notesSlides/notesSlide${n}.xml`, notesXml(slide));
+    put(`ppt/notesSlides/_rels/notesSlide${n}.xml.rels`, relationships([
+      { type: `${REL}/notesMaster`, target: '../notesMasters/notesMaster1.xml' },
+      { type: `${REL}/slide`, target: `../slides/slide${n}.xml` },
+    ]));
+  });
+
+  return new Blob([zipSync(files)], { type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' });
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Citation, QuizAttempt, QuizQuestion } from '../types';
+import { LabeledPassage } from './citations';
+import { appendAttempt, bestScore, formatScore, gradeAttempt, gradeChoice, PASS_SCORE, questionsFromModel, RawQuizQuestion, ShortAnswerGrader, stubGradeShortAnswer } from './quiz';
+
+const citation: Citation = { label: 'S1:p1', passageId: 'src-1:p1', sourceId: 'src-1', sourceTitle: 'Tidal Energy', start: 0, end: 100 };
+
+const choice: QuizQuestion = {
+  id: 'q-1', kind: 'multiple_choice', prompt: 'What drives tidal turbines?',
+  choices: ['Wind', 'Moving water', 'Sunlight'], answerIndex: 1, answer: 'Moving water',
+  explanation: '', citation,
+};
+
+const short: QuizQuestion = {
+  id: 'q-2', kind: 'short_answer', prompt: 'Why is tidal power easy to plan for?',
+  answer: 'Tides are predictable.',
+  rubric: ['tidal turbines convert moving water', 'forecast years in advance'],
+  explanation: '', citation,
+};
+
+const stubGrader: ShortAnswerGrader = async (question, response) => stubGradeShortAnswer(question, response);
+
+const attempt = (id: string, score: number): QuizAttempt => ({ id, completedAt: 0, answers: [], score });
+
+describe('stubGradeShortAnswer', () => {
+  it('meets a rubric point when the answer has half of its content words', () => {
+    const answer = stubGradeShortAnswer(short, 'Turbines turn moving water into power');
+    expect(answer.rubricMet).toEqual([true, false]);
+    expect(answer.score).toBe(0.5);
+    expect(answer.feedback).toBe('Missing: forecast years in advance');
+  });
+
+  it(`counts as correct from ${PASS_SCORE * 100}% of the rubric`, () => {
+    expect(stubGradeShortAnswer(short, 'Turbines turn moving water into power').correct).toBe(false);
+    const full = stubGradeShortAnswer(short, 'Moving water drives tidal turbines, and tides can be forecast years ahead.');
+    expect(full).toMatchObject({ correct: true, score: 1, feedback: 'Covers every point.' });
+  });
+
+  it('grades against the model answer when there is no rubric', () => {
+    const question = { ...short, rubric: undefined };
+    expect(stubGradeShortAnswer(question, 'Because tides are predictable').rubricMet).toEqual([true]);
+  });
+
+  it('scores an empty answer zero', () => {
+    expect(stubGradeShortAnswer(short, '  ')).toMatchObject({ correct: false, score: 0, feedback: 'No answer given.' });
+  });
+});
+
+describe('gradeChoice', () => {
+  it('scores the correct choice and records its text', () => {
+    expect(gradeChoice(choice, 1)).toEqual({ questionId: 'q-1', response: 'Moving water', correct: true, score: 1 });
+    expect(gradeChoice(choice, 0)).toMatchObject({ response: 'Wind', correct: false, score: 0 });
+    expect(gradeChoice(choice, undefined)).toMatchObject({ response: '', correct: false, score: 0 });
+  });
+});
+
+describe('gradeAttempt', () => {
+  it('averages answer scores, with partial credit for short answers', async () => {
+    const result = await gradeAttempt([choice, short], {
+      'q-1': { choiceIndex: 1 },
+      'q-2': { text: 'Turbines turn moving water into power' },
+    }, stubGrader);
+    expect(result.answers.map(a => a.score)).toEqual([1, 0.5]);
+    expect(result.score).toBe(0.75);
+    expect(formatScore(result.score)).toBe('75%');
+  });
+
+  it('passes the trimmed answer and the signal to the grader', async () => {
+    const grader = vi.fn(stubGrader);
+    const signal = new AbortController().signal;
+    await gradeAttempt([short], { 'q-2': { text: '  forecast years in advance  ' } }, grader, signal);
+    expect(grader).toHaveBeenCalledWith(short, 'forecast years in advance', signal);
+  });
+
+  it('scores unanswered questions zero without calling the grader', async () => {
+    const grader = vi.fn(stubGrader);
+    const result = await gradeAttempt([choice, short], {}, grader);
+    expect(grader).not.toHaveBeenCalled();
+    expect(result.score).toBe(0);
+    expect(result.answers.every(a => !a.correct)).toBe(true);
+  });
+
+  it('scores an empty quiz zero', async () => {
+    expect((await gradeAttempt([], {}, stubGrader)).score).toBe(0);
+  });
+});
+
+describe('attempt history', () => {
+  it('appends attempts oldest first without touching the saved history', () => {
+    const saved = [attempt('a-1', 0.4)];
+    const history = appendAttempt(saved, attempt('a-2', 0.8));
+    expect(history.map(a => a.id)).toEqual(['a-1', 'a-2']);
+    expect(saved).toHaveLength(1);
+    expect(appendAttempt(undefined, attempt('a-1', 0.4)).map(a => a.id)).toEqual(['a-1']);
+  });
+
+  it('keeps the best score across attempts', () => {
+    expect(bestScore([])).toBe(0);
+    expect(bestScore([attempt('a-1', 0.4), attempt('a-2', 0.9), attempt('a-3', 0.6)])).toBe(0.9);
+  });
+
+  it('formats scores as whole percentages', () => {
+    expect(formatScore(2 / 3)).toBe('67%');
+    expect(formatScore(0)).toBe('0%');
+  });
+});
+
+describe('questionsFromModel', () => {
+  const labeled: LabeledPassage[] = [{
+    label: 'S1:p1',
+    passage: { id: 'src-1:p1', sourceId: 'src-1', sourceTitle: 'Tidal Energy', ordinal: 1, text: 'Tidal turbines are driven by moving water.', start: 0, end: 42 },
+  }];
+  const mc = (answer: RawQuizQuestion['answer']): RawQuizQuestion =>
+    ({ type: 'multiple_choice', question: 'What drives tidal turbines?', choices: ['Wind', 'Moving water', 'Sunlight'], answer, cite: '[S1:p1]' });
+
+  it('accepts the answer as an index or as the choice text', () => {
+    expect(questionsFromModel([mc(1)], labeled, 'q')[0]).toMatchObject({ answerIndex: 1, answer: 'Moving water' });
+    expect(questionsFromModel([mc('Moving water')], labeled, 'q')[0]).toMatchObject({ answerIndex: 1 });
+  });
+
+  it('drops questions whose answer index is not a whole number in range', () => {
+    expect(questionsFromModel([mc(1.5), mc(3), mc(-1), mc(NaN), mc('Tides')], labeled, 'q')).toEqual([]);
+  });
+
+  it('drops questions citing a passage that was not retrieved', () => {
+    expect(questionsFromModel([{ ...mc(1), cite: 'S2:p1' }], labeled, 'q')).toEqual([]);
+  });
+});
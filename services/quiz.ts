@@ -0,0 +1,173 @@
+import { QuizAnswer, QuizAttempt, QuizDifficulty, QuizQuestion } from '../types';
+import { LabeledPassage, toCitation } from './citations';
+import { blankOut, clozeAnswer, quizzableSentences } from './flashcards';
+import { tokenize } from './retrieval';
+
+/**
+ * 📝 QUIZZES
+ * Grounded multiple-choice and short-answer questions. Every question cites
+ * the passage that answers it, and its explanation is shown next to that
+ * passage after grading. Multiple choice is graded here; short answers go
+ * through a ShortAnswerGrader (the model, or the deterministic stub below).
+ */
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+export const QUIZ_COUNTS = [5, 10, 15];
+export const DEFAULT_QUIZ_COUNT = 10;
+/** Share of a short-answer response's rubric it must meet to count as correct. */
+export const PASS_SCORE = 0.6;
+
+const SHORT_ANSWER_SHARE: Record<QuizDifficulty, number> = { easy: 0.25, medium: 0.4, hard: 0.5 };
+
+export const DIFFICULTY_GUIDANCE: Record<QuizDifficulty, string> = {
+  easy: 'recall of facts stated directly in a single passage',
+  medium: 'understanding: explain, compare or apply ideas from a passage',
+  hard: 'analysis: infer consequences, connect ideas or spot subtle distinctions; distractors must be plausible',
+};
+
+/** Short answers to write for a quiz of `count` questions. */
+export const shortAnswerCount = (count: number, difficulty: QuizDifficulty) => Math.round(count * SHORT_ANSWER_SHARE[difficulty]);
+
+export interface RawQuizQuestion {
+  type?: string;
+  question?: string;
+  choices?: string[];
+  /** Index of the correct choice, or the model answer for short answers. */
+  answer?: number | string;
+  rubric?: string[];
+  explanation?: string;
+  cite?: string;
+}
+
+/**
+ * Keeps well-formed questions that cite a retrieved passage. A short answer
+ * without a rubric is graded against its model answer alone.
+ */
+export function questionsFromModel(raw: RawQuizQuestion[], labeled: LabeledPassage[], idPrefix: string): QuizQuestion[] {
+  const byLabel = new Map(labeled.map(l => [l.label, l.passage]));
+  const questions: QuizQuestion[] = [];
+  raw.forEach(r => {
+    const prompt = r.question?.trim();
+    const label = r.cite?.replace(/[[\]]/g, '').trim() || '';
+    const passage = byLabel.get(label);
+    if (!prompt || !passage) return;
+    const base = { id: `${idPrefix}-${questions.length + 1}`, prompt, explanation: r.explanation?.trim() || '', citation: toCitation(label, passage) };
+
+    if (r.type === 'short_answer') {
+      const answer = String(r.answer ?? '').trim();
+      if (!answer) return;
+      const rubric = (r.rubric || []).map(p => String(p).trim()).filter(Boolean);
+      questions.push({ ...base, kind: 'short_answer', answer, rubric: rubric.length > 0 ? rubric : [answer] });
+      return;
+    }
+
+    const choices = (r.choices || []).map(c => String(c).trim()).filter(Boolean);
+    const answerIndex = typeof r.answer === 'number' ? (Number.isInteger(r.answer) ? r.answer : -1) : choices.indexOf(String(r.answer ?? '').trim());
+    if (choices.length < 2 || choices.length > 6 || !(answerIndex >= 0 && answerIndex < choices.length)) return;
+    questions.push({ ...base, kind: 'multiple_choice', choices, answerIndex, answer: choices[answerIndex] });
+  });
+  return questions;
+}
+
+/**
+ * Cloze questions cut from the passages. Multiple choice takes its
+ * distractors from the other blanks; the difficulty only changes the
+ * short-answer share.
+ */
+export function generateLocalQuiz(labeled: LabeledPassage[], count: number, difficulty: QuizDifficulty, keywords: string[], idPrefix: string): QuizQuestion[] {
+  const keywordSet = new Set(keywords.map(k => k.toLowerCase()));
+  const clozes: { label: string; sentence: string; answer: string }[] = [];
+  for (let round = 0; clozes.length < count && round < 3; round++) {
+    labeled.forEach(({ label, passage }) => {
+      const sentence = quizzableSentences(passage.text)[round];
+      const answer = sentence && clozeAnswer(sentence, keywordSet);
+      if (clozes.length < count && answer && !clozes.some(c => c.sentence === sentence)) clozes.push({ label, sentence, answer });
+    });
+  }
+
+  const passages = new Map(labeled.map(l => [l.label, l.passage]));
+  const shortEvery = SHORT_ANSWER_SHARE[difficulty] > 0 ? Math.round(1 / SHORT_ANSWER_SHARE[difficulty]) : Infinity;
+
+  return clozes.map(({ label, sentence, answer }, i) => {
+    const base = {
+      id: `${idPrefix}-${i + 1}`,
+      explanation: `The source states: "${sentence}"`,
+      citation: toCitation(label, passages.get(label)!),
+    };
+    const distractors = Array.from(new Set(clozes.map(c => c.answer).filter(a => a.toLowerCase() !== answer.toLowerCase()))).slice(0, 3);
+
+    if ((i + 1) % shortEvery === 0 || distractors.length < 2) {
+      return { ...base, kind: 'short_answer' as const, prompt: `Fill in the blank: ${blankOut(sentence, answer)}`, answer, rubric: [answer] };
+    }
+    const answerIndex = i % (distractors.length + 1);
+    const choices = [...distractors.slice(0, answerIndex), answer, ...distractors.slice(answerIndex)];
+    return { ...base, kind: 'multiple_choice' as const, prompt: blankOut(sentence, answer), choices, answerIndex, answer };
+  });
+}
+
+/* ---------- Grading ---------- */
+
+/** What the user entered for one question. */
+export interface QuizResponse {
+  choiceIndex?: number;
+  text?: string;
+}
+
+export type ShortAnswerGrader = (question: QuizQuestion, response: string, signal?: AbortSignal) => Promise<QuizAnswer>;
+
+export function gradeChoice(question: QuizQuestion, choiceIndex: number | undefined): QuizAnswer {
+  const correct = choiceIndex !== undefined && choiceIndex === question.answerIndex;
+  return {
+    questionId: question.id,
+    response: choiceIndex !== undefined ? question.choices?.[choiceIndex] || '' : '',
+    correct, score: correct ? 1 : 0,
+  };
+}
+
+/** Scores a short answer from the rubric points it met. */
+export function rubricAnswer(question: QuizQuestion, response: string, rubricMet: boolean[], feedback?: string): QuizAnswer {
+  const score = rubricMet.length > 0 ? rubricMet.filter(Boolean).length / rubricMet.length : 0;
+  return { questionId: question.id, response, correct: score >= PASS_SCORE, score, rubricMet, feedback };
+}
+
+/**
+ * Deterministic grader used offline and in tests: a rubric point is met when
+ * the answer contains at least half of its content words.
+ */
+export function stubGradeShortAnswer(question: QuizQuestion, response: string): QuizAnswer {
+  const words = new Set(tokenize(response));
+  const rubric = question.rubric?.length ? question.rubric : [question.answer];
+  const rubricMet = rubric.map(point => {
+    const needed = tokenize(point);
+    if (needed.length === 0) return response.toLowerCase().includes(point.toLowerCase());
+    return needed.filter(t => words.has(t)).length >= Math.ceil(needed.length / 2);
+  });
+  const missed = rubric.filter((_, i) => !rubricMet[i]);
+  const feedback = !response.trim() ? 'No answer given.'
+    : missed.length === 0 ? 'Covers every point.'
+    : `Missing: ${missed.join('; ')}`;
+  return rubricAnswer(question, response, rubricMet, feedback);
+}
+
+/**
+ * Grades a whole attempt. Unanswered questions score zero without calling
+ * the grader.
+ */
+export async function gradeAttempt(questions: QuizQuestion[], responses: Record<string, QuizResponse>, gradeShortAnswer: ShortAnswerGrader, signal?: AbortSignal): Promise<QuizAttempt> {
+  const answers = await Promise.all(questions.map(q => {
+    const response = responses[q.id] || {};
+    if (q.kind === 'multiple_choice') return gradeChoice(q, response.choiceIndex);
+    const text = response.text?.trim() || '';
+    return text ? gradeShortAnswer(q, text, signal) : stubGradeShortAnswer(q, '');
+  }));
+  const score = answers.length > 0 ? answers.reduce((sum, a) => sum + a.score, 0) / answers.length : 0;
+  return { id: `attempt-${Date.now()}`, completedAt: Date.now(), answers, score };
+}
+
+export const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+/** A quiz's attempt history with a new attempt appended, oldest first. */
+export const appendAttempt = (attempts: QuizAttempt[] | undefined, attempt: QuizAttempt): QuizAttempt[] => [...(attempts || []), attempt];
+
+/** Highest score across attempts; zero before the first one. */
+export const bestScore = (attempts: QuizAttempt[]) => attempts.reduce((max, a) => Math.max(max, a.score), 0);
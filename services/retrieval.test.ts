@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Notebook, Source } from '../types';
+import { chunkSource, createIndex, indexSource, isGroundingSource, retrievePassages, searchIndex, syncIndex } from './retrieval';
+
+const source = (id: string, content: string, extra: Partial<Source> = {}): Source =>
+  ({ id, type: 'text', title: `Title ${id}`, content, status: 'indexed', indexed: true, ...extra });
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `w${i + 1}`).join('  ');
+
+describe('chunkSource', () => {
+  it('splits into overlapping word windows', () => {
+    const passages = chunkSource(source('s', words(10)), 4, 2);
+    expect(passages.map(p => p.text)).toEqual([
+      'w1  w2  w3  w4',
+      'w3  w4  w5  w6',
+      'w5  w6  w7  w8',
+      'w7  w8  w9  w10',
+    ]);
+    expect(passages.map(p => p.id)).toEqual(['s:p1', 's:p2', 's:p3', 's:p4']);
+    expect(passages.map(p => p.ordinal)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('points offsets into the source content', () => {
+    const src = source('s', `  ${words(9)}\n`);
+    chunkSource(src, 4, 1).forEach(p => {
+      expect(src.content.slice(p.start, p.end)).toBe(p.text);
+    });
+  });
+
+  it('maps passages to the page they start on', () => {
+    const content = 'alpha beta gamma delta';
+    const src = source('s', content, { pages: [{ page: 1, start: 0, end: 10 }, { page: 2, start: 11, end: content.length }] });
+    expect(chunkSource(src, 2, 0).map(p => p.page)).toEqual([1, 2]);
+  });
+
+  it('returns nothing for empty content', () => {
+    expect(chunkSource(source('s', '  \n '))).toEqual([]);
+  });
+});
+
+describe('searchIndex', () => {
+  const index = createIndex();
+  indexSource(index, source('a', 'Tidal turbines sit in strong tidal currents. Turbine blades turn slowly.'));
+  indexSource(index, source('b', 'Tidal energy is predictable because tides follow the moon.'));
+  indexSource(index, source('c', 'Solar panels convert sunlight into electricity.'));
+
+  it('ranks passages with more occurrences of a term higher', () => {
+    expect(searchIndex(index, 'tidal').map(h => h.passage.sourceId)).toEqual(['a', 'b']);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const hits = searchIndex(index, 'tidal moon');
+    expect(hits[0].passage.sourceId).toBe('b');
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('ignores stopwords and returns nothing without a match', () => {
+    expect(searchIndex(index, 'the and of')).toEqual([]);
+    expect(searchIndex(index, 'geothermal')).toEqual([]);
+  });
+
+  it('caps the result count at k', () => {
+    expect(searchIndex(index, 'tidal electricity', 1)).toHaveLength(1);
+  });
+});
+
+describe('syncIndex', () => {
+  it('re-chunks an edited source', () => {
+    const index = syncIndex(createIndex(), [source('s', 'Salmon swim upstream.')]);
+    syncIndex(index, [source('s', 'Trout swim upstream.')]);
+    expect(searchIndex(index, 'salmon')).toEqual([]);
+    expect(searchIndex(index, 'trout').map(h => h.passage.text)).toEqual(['Trout swim upstream.']);
+  });
+
+  it('drops removed sources and their postings', () => {
+    const index = syncIndex(createIndex(), [source('a', 'Salmon swim upstream.'), source('b', 'Trout swim upstream.')]);
+    syncIndex(index, [source('b', 'Trout swim upstream.')]);
+    expect(searchIndex(index, 'salmon')).toEqual([]);
+    expect(Array.from(index.passages.values()).map(p => p.sourceId)).toEqual(['b']);
+    expect(index.signatures.has('a')).toBe(false);
+  });
+
+  it('leaves unchanged sources alone', () => {
+    const src = source('a', 'Salmon swim upstream.');
+    const index = syncIndex(createIndex(), [src]);
+    const passage = index.passages.get('a:p1');
+    syncIndex(index, [{ ...src }]);
+    expect(index.passages.get('a:p1')).toBe(passage);
+  });
+});
+
+describe('retrievePassages', () => {
+  const notebook = (id: string, sources: Source[]) => ({ id, title: 'Tides', createdAt: 0, sources } as unknown as Notebook);
+
+  it('only grounds on indexed, included sources', () => {
+    const nb = notebook('nb-retrieval-grounding', [
+      source('ok', 'Tides rise twice a day.'),
+      source('off', 'Tides are switched off here.', { excluded: true }),
+      source('queued', 'Tides still waiting to be indexed.', { status: 'queued', indexed: false }),
+      source('failed', 'Tides that failed to extract.', { status: 'failed', indexed: false }),
+    ]);
+    expect(retrievePassages(nb, 'tides').map(h => h.passage.sourceId)).toEqual(['ok']);
+  });
+
+  it('falls back to the opening passages of grounding sources', () => {
+    const nb = notebook('nb-retrieval-fallback', [
+      source('off', 'Excluded opening.', { excluded: true }),
+      source('a', 'First opening.'),
+      source('b', 'Second opening.'),
+    ]);
+    const hits = retrievePassages(nb, 'volcanoes');
+    expect(hits.map(h => h.passage.sourceId)).toEqual(['a', 'b']);
+    expect(hits.every(h => h.score === 0)).toBe(true);
+  });
+
+  it('treats sources saved before statuses existed as indexed', () => {
+    expect(isGroundingSource(source('old', 'x', { status: undefined }))).toBe(true);
+    expect(isGroundingSource(source('new', 'x', { status: 'extracting' }))).toBe(false);
+  });
+});
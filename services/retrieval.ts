@@ -0,0 +1,304 @@
+import { Notebook, Source, Passage, SourcePage, SourceSegment } from '../types';
+
+/**
+ * 🛡️ RETRIEVAL ENGINE (BM25)
+ * Pure module: no Gemini client, no DOM. Sources are split into overlapping
+ * passages, indexed per notebook, and ranked with Okapi BM25.
+ */
+
+export const PASSAGE_WORDS = 160;
+export const PASSAGE_OVERLAP = 40;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your', 'about', 'can', 'does',
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Maps a character offset in an extracted source back to its 1-based page.
+ */
+export function pageAtOffset(pages: SourcePage[] | undefined, offset: number): number | undefined {
+  if (!pages || pages.length === 0) return undefined;
+  const hit = pages.find(p => offset >= p.start && offset <= p.end);
+  if (hit) return hit.page;
+  // Offsets in the blank gap between pages belong to the following page.
+  const next = pages.find(p => p.start > offset);
+  return (next || pages[pages.length - 1]).page;
+}
+
+/**
+ * Start time of the media segment containing a character offset.
+ */
+export function timestampAtOffset(segments: SourceSegment[] | undefined, offset: number): number | undefined {
+  if (!segments || segments.length === 0) return undefined;
+  const hit = segments.find(s => offset >= s.start && offset <= s.end) || segments.find(s => s.start > offset);
+  return (hit || segments[segments.length - 1]).startMs;
+}
+
+/**
+ * Splits a source into word windows of PASSAGE_WORDS, each overlapping the
+ * previous one by PASSAGE_OVERLAP words. Offsets point into `source.content`.
+ */
+export function chunkSource(source: Source, size = PASSAGE_WORDS, overlap = PASSAGE_OVERLAP): Passage[] {
+  const words: { start: number; end: number }[] = [];
+  const re = /\S+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source.content)) !== null) {
+    words.push({ start: m.index, end: m.index + m[0].length });
+  }
+  if (words.length === 0) return [];
+
+  const stride = Math.max(1, size - overlap);
+  const passages: Passage[] = [];
+  for (let i = 0; i < words.length; i += stride) {
+    const window = words.slice(i, i + size);
+    const start = window[0].start;
+    const end = window[window.length - 1].end;
+    passages.push({
+      id: `${source.id}:p${passages.length + 1}`,
+      sourceId: source.id,
+      sourceTitle: source.title,
+      ordinal: passages.length + 1,
+      text: source.content.slice(start, end),
+      start,
+      end,
+      page: pageAtOffset(source.pages, start),
+      timestampMs: timestampAtOffset(source.segments, start),
+    });
+    if (i + size >= words.length) break;
+  }
+  return passages;
+}
+
+export interface NotebookIndex {
+  passages: Map<string, Passage>;
+  /** term -> passageId -> term frequency */
+  postings: Map<string, Map<string, number>>;
+  lengths: Map<string, number>;
+  totalLength: number;
+  /** sourceId -> content signature, used to skip unchanged sources */
+  signatures: Map<string, string>;
+}
+
+export interface ScoredPassage {
+  passage: Passage;
+  score: number;
+}
+
+export function createIndex(): NotebookIndex {
+  return { passages: new Map(), postings: new Map(), lengths: new Map(), totalLength: 0, signatures: new Map() };
+}
+
+function signatureOf(source: Source): string {
+  // FNV-1a over title + content: cheap enough to run on every retrieval.
+  const text = `${source.title}\u0000${source.content}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length}:${(hash >>> 0).toString(16)}`;
+}
+
+export function removeSource(index: NotebookIndex, sourceId: string): void {
+  index.passages.forEach((p, id) => {
+    if (p.sourceId !== sourceId) return;
+    index.totalLength -= index.lengths.get(id) || 0;
+    index.lengths.delete(id);
+    index.passages.delete(id);
+  });
+  index.postings.forEach((docs, term) => {
+    docs.forEach((_, id) => { if (!index.passages.has(id)) docs.delete(id); });
+    if (docs.size === 0) index.postings.delete(term);
+  });
+  index.signatures.delete(sourceId);
+}
+
+/**
+ * Chunks a source and tokenizes each passage. This is the expensive half of
+ * indexing and is what the indexing worker runs off the main thread.
+ */
+export function prepareSource(source: Source): { passages: Passage[]; terms: string[][] } {
+  const passages = chunkSource(source);
+  return { passages, terms: passages.map(p => tokenize(p.text)) };
+}
+
+/**
+ * Inserts pre-tokenized passages (see prepareSource) into an index.
+ */
+export function applyPreparedSource(index: NotebookIndex, source: Source, passages: Passage[], terms: string[][]): void {
+  if (index.signatures.has(source.id)) removeSource(index, source.id);
+  passages.forEach((p, i) => {
+    index.passages.set(p.id, p);
+    index.lengths.set(p.id, terms[i].length);
+    index.totalLength += terms[i].length;
+    terms[i].forEach(term => {
+      let docs = index.postings.get(term);
+      if (!docs) { docs = new Map(); index.postings.set(term, docs); }
+      docs.set(p.id, (docs.get(p.id) || 0) + 1);
+    });
+  });
+  index.signatures.set(source.id, signatureOf(source));
+}
+
+export function indexSource(index: NotebookIndex, source: Source): Passage[] {
+  const { passages, terms } = prepareSource(source);
+  applyPreparedSource(index, source, passages, terms);
+  return passages;
+}
+
+/**
+ * 🏷️ KEYWORD EXTRACTION
+ * Ranks unigrams and repeated bigrams by TF-IDF across a notebook's sources
+ * and returns them in their most common original casing.
+ */
+export function extractKeywords(docs: string[], limit: number = 8): string[] {
+  const df = new Map<string, number>();
+  const tf = new Map<string, number>();
+  const surface = new Map<string, Map<string, number>>();
+
+  const note = (key: string, form: string) => {
+    let forms = surface.get(key);
+    if (!forms) { forms = new Map(); surface.set(key, forms); }
+    forms.set(form, (forms.get(form) || 0) + 1);
+  };
+
+  docs.forEach(doc => {
+    const words = (doc.match(/[\p{L}\p{N}][\p{L}\p{N}.+-]*[\p{L}\p{N}+]|[\p{L}\p{N}]/gu) || []);
+    const seen = new Set<string>();
+    let prev: string | null = null;
+    let prevForm = '';
+    words.forEach(form => {
+      const key = form.toLowerCase();
+      const usable = key.length > 2 && !STOPWORDS.has(key) && !/^[\d.,+-]+$/.test(key);
+      if (usable) {
+        tf.set(key, (tf.get(key) || 0) + 1);
+        note(key, form);
+        seen.add(key);
+        if (prev) {
+          const bigram = `${prev} ${key}`;
+          tf.set(bigram, (tf.get(bigram) || 0) + 1);
+          note(bigram, `${prevForm} ${form}`);
+          seen.add(bigram);
+        }
+      }
+      prev = usable ? key : null;
+      prevForm = form;
+    });
+    seen.forEach(k => df.set(k, (df.get(k) || 0) + 1));
+  });
+
+  const n = Math.max(1, docs.length);
+  const ranked = Array.from(tf.entries())
+    .filter(([key, count]) => !key.includes(' ') || count >= 2)
+    .map(([key, count]) => ({ key, score: (key.includes(' ') ? 1.5 : 1) * count * Math.log(1 + n / (df.get(key) || 1)) }))
+    .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+
+  const picked: string[] = [];
+  for (const { key } of ranked) {
+    if (picked.length >= limit) break;
+    // Skip words already covered by a chosen phrase and vice versa.
+    if (picked.some(p => p.includes(key) || key.includes(p))) continue;
+    picked.push(key);
+  }
+
+  return picked.map(key => {
+    const forms = Array.from(surface.get(key)?.entries() || []).sort((a, b) => b[1] - a[1]);
+    return forms[0]?.[0] || key;
+  });
+}
+
+/**
+ * Brings an index in line with a source list: new or edited sources are
+ * (re)chunked, removed sources are dropped, unchanged sources are left alone.
+ */
+export function syncIndex(index: NotebookIndex, sources: Source[]): NotebookIndex {
+  const live = new Set(sources.map(s => s.id));
+  Array.from(index.signatures.keys()).forEach(id => { if (!live.has(id)) removeSource(index, id); });
+  sources.forEach(s => {
+    if (index.signatures.get(s.id) !== signatureOf(s)) indexSource(index, s);
+  });
+  return index;
+}
+
+export function searchIndex(index: NotebookIndex, query: string, k: number = 8): ScoredPassage[] {
+  const n = index.passages.size;
+  if (n === 0) return [];
+  const avgLength = index.totalLength / n || 1;
+  const scores = new Map<string, number>();
+
+  new Set(tokenize(query)).forEach(term => {
+    const docs = index.postings.get(term);
+    if (!docs) return;
+    const idf = Math.log(1 + (n - docs.size + 0.5) / (docs.size + 0.5));
+    docs.forEach((tf, id) => {
+      const len = index.lengths.get(id) || 0;
+      const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * len / avgLength));
+      scores.set(id, (scores.get(id) || 0) + idf * norm);
+    });
+  });
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ passage: index.passages.get(id)!, score }))
+    .sort((a, b) => b.score - a.score || a.passage.id.localeCompare(b.passage.id))
+    .slice(0, k);
+}
+
+const notebookIndexes = new Map<string, NotebookIndex>();
+
+/**
+ * Whether a source may ground answers, outlines and summaries: it must have
+ * finished indexing and not be switched off by the user.
+ */
+export function isGroundingSource(source: Source): boolean {
+  return !source.excluded && (!source.status || source.status === 'indexed');
+}
+
+/**
+ * Returns the cached index for a notebook, re-syncing it against the
+ * notebook's current sources first.
+ */
+export function getNotebookIndex(notebook: Notebook): NotebookIndex {
+  let index = notebookIndexes.get(notebook.id);
+  if (!index) { index = createIndex(); notebookIndexes.set(notebook.id, index); }
+  // Sources still moving through the indexing queue are not retrievable yet.
+  return syncIndex(index, notebook.sources.filter(isGroundingSource));
+}
+
+/**
+ * Adds a source prepared by the indexing worker to its notebook's cached index.
+ */
+export function applyNotebookSource(notebookId: string, source: Source, passages: Passage[], terms: string[][]): void {
+  let index = notebookIndexes.get(notebookId);
+  if (!index) { index = createIndex(); notebookIndexes.set(notebookId, index); }
+  applyPreparedSource(index, source, passages, terms);
+}
+
+export function dropNotebookIndex(notebookId: string): void {
+  notebookIndexes.delete(notebookId);
+}
+
+/**
+ * Top-k passages for a query. When nothing matches, falls back to the
+ * opening passages of the first few sources so the model still has context.
+ */
+export function retrievePassages(notebook: Notebook, query: string, k: number = 8): ScoredPassage[] {
+  const index = getNotebookIndex(notebook);
+  const hits = searchIndex(index, query, k);
+  if (hits.length > 0) return hits;
+
+  return notebook.sources.filter(isGroundingSource).slice(0, 3)
+    .map(s => Array.from(index.passages.values()).find(p => p.sourceId === s.id))
+    .filter((p): p is Passage => !!p)
+    .map(passage => ({ passage, score: 0 }));
+}
@@ -0,0 +1,138 @@
+import { Notebook, PodcastOutlinePart, Slide } from '../types';
+import { CITATION_MARKER, LabeledPassage, describeLocation, parseCitations, toCitation } from './citations';
+import { quizzableSentences } from './flashcards';
+import { isGroundingSource } from './retrieval';
+import { COLORS, TYPE } from '../design/tokens';
+
+/**
+ * 🖼️ SLIDE DECKS
+ * One slide per outline part (the same outline audio overviews use) after a
+ * cover. Bullets carry the passages they rely on; the viewer, the PPTX and
+ * the PDF all lay slides out on the same 960×540 canvas below.
+ */
+
+export const SLIDE_WIDTH = 960;
+export const SLIDE_HEIGHT = 540;
+export const MAX_CONTENT_SLIDES = 10;
+export const MAX_BULLETS = 5;
+
+/** Positions on the canvas, in px. */
+export const SLIDE_LAYOUT = {
+  margin: 64,
+  titleTop: 56,
+  ruleTop: 120,
+  bodyTop: 152,
+  footerTop: 492,
+  coverTitleTop: 196,
+};
+
+const SLIDE_TYPE_SCALE = 1.6;
+const px = (value: string) => parseFloat(value);
+
+/** The app's type scale, enlarged for the slide canvas. Sizes in px. */
+export const SLIDE_TYPE = {
+  cover: Math.round(px(TYPE.title.fontSize) * SLIDE_TYPE_SCALE * 1.5),
+  title: Math.round(px(TYPE.title.fontSize) * SLIDE_TYPE_SCALE),
+  body: Math.round(px(TYPE.body.fontSize) * SLIDE_TYPE_SCALE),
+  caption: Math.round(px(TYPE.caption.fontSize) * 1.2),
+  lineHeight: parseFloat(TYPE.body.lineHeight),
+};
+
+export interface SlideTheme {
+  background: string;
+  surface: string;
+  accent: string;
+  text: string;
+  muted: string;
+}
+
+/** Notebook fingerprint colours, falling back to the design tokens. */
+export function slideTheme(notebook: Notebook): SlideTheme {
+  const fingerprint = notebook.visualFingerprint;
+  return {
+    background: fingerprint?.bgColor || COLORS.background,
+    surface: fingerprint?.bgColorAlt || COLORS.surface,
+    accent: fingerprint?.accent || COLORS.primary,
+    text: COLORS.textPrimary,
+    muted: COLORS.textSecondary,
+  };
+}
+
+/** "Sources: Paper A (p. 3, p. 5) · Interview" */
+export function citationFooter(slide: Slide): string {
+  const bySource = new Map<string, { title: string; where: string[] }>();
+  slide.citations.forEach(c => {
+    const entry = bySource.get(c.sourceId) || { title: c.sourceTitle, where: [] };
+    const where = describeLocation(c);
+    if (where && !entry.where.includes(where)) entry.where.push(where);
+    bySource.set(c.sourceId, entry);
+  });
+  if (bySource.size === 0) return '';
+  return `Sources: ${Array.from(bySource.values()).map(s => s.where.length ? `${s.title} (${s.where.join(', ')})` : s.title).join(' · ')}`;
+}
+
+export function coverSlide(notebook: Notebook, parts: PodcastOutlinePart[]): Slide {
+  const sourceCount = notebook.sources.filter(isGroundingSource).length;
+  const titles = parts.map(p => p.title).filter(Boolean);
+  return {
+    title: notebook.title,
+    subtitle: `${sourceCount} source${sourceCount === 1 ? '' : 's'} · ${new Date().toLocaleDateString([], { month: 'long', day: 'numeric', year: 'numeric' })}`,
+    bullets: [],
+    speakerNotes: titles.length ? `This deck covers ${titles.join(', ')}.` : '',
+    citations: [],
+  };
+}
+
+export interface RawSlide {
+  title?: string;
+  bullets?: string[];
+  notes?: string;
+}
+
+const stripMarkers = (text: string) => text.replace(CITATION_MARKER, '').replace(/[ \t]+([.,;:!?])/g, '$1').trim();
+
+/**
+ * Bullets keep only the passages they cite; a bullet that cites nothing that
+ * was retrieved is dropped, and so is a slide left without bullets.
+ */
+export function slidesFromModel(raw: RawSlide[], labeled: LabeledPassage[]): Slide[] {
+  const slides: Slide[] = [];
+  raw.forEach(r => {
+    const title = r.title?.trim();
+    if (!title) return;
+    const citations = new Map<string, Slide['citations'][number]>();
+    const bullets: string[] = [];
+    (r.bullets || []).slice(0, MAX_BULLETS).forEach(bullet => {
+      const parsed = parseCitations(String(bullet), labeled);
+      const text = stripMarkers(parsed.text);
+      if (!text || parsed.citations.length === 0) return;
+      bullets.push(text);
+      parsed.citations.forEach(c => citations.set(c.label, c));
+    });
+    if (bullets.length === 0) return;
+    slides.push({ title, bullets, speakerNotes: stripMarkers(r.notes || ''), citations: Array.from(citations.values()) });
+  });
+  return slides;
+}
+
+const MAX_LOCAL_BULLET_CHARS = 120;
+
+/**
+ * Each part's bullets are the opening sentences of the passages retrieved
+ * for it.
+ */
+export function generateLocalSlides(parts: { part: PodcastOutlinePart; labeled: LabeledPassage[] }[]): Slide[] {
+  return parts.map(({ part, labeled }, i) => {
+    const used = labeled.slice(0, MAX_BULLETS - 1);
+    const bullets = used.map(({ passage }) => {
+      const sentence = quizzableSentences(passage.text)[0] || passage.text.trim();
+      return sentence.length > MAX_LOCAL_BULLET_CHARS ? `${sentence.slice(0, MAX_LOCAL_BULLET_CHARS).replace(/\s+\S*$/, '')}…` : sentence;
+    });
+    return {
+      title: part.title || `Part ${i + 1}`,
+      bullets,
+      speakerNotes: part.summary || '',
+      citations: used.map(({ label, passage }) => toCitation(label, passage)),
+    };
+  }).filter(s => s.bullets.length > 0);
+}
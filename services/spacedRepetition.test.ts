@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CardSchedule, Flashcard, ReviewGrade } from '../types';
+import { applyReview, dueCards, formatInterval, INITIAL_EASE, MIN_EASE, scheduleReview } from './spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Schedule after grading a new card with each grade in turn. */
+const review = (grades: ReviewGrade[], now = 0) =>
+  grades.reduce<CardSchedule | undefined>((schedule, grade) => scheduleReview(schedule, grade, now), undefined)!;
+
+const card = (id: string, schedule?: CardSchedule): Flashcard => ({
+  id, front: `Front ${id}`, back: `Back ${id}`, schedule,
+  citation: { label: 'S1:p1', passageId: 'src-1:p1', sourceId: 'src-1', sourceTitle: 'Tides', start: 0, end: 10 },
+});
+
+describe('scheduleReview', () => {
+  it('grows successful intervals 1 → 6 → interval × ease', () => {
+    expect(review([4]).intervalDays).toBe(1);
+    expect(review([4, 4]).intervalDays).toBe(6);
+    expect(review([4, 4, 4]).intervalDays).toBe(15);
+    expect(review([4, 4, 4, 4]).intervalDays).toBe(38);
+    expect(review([4, 4, 4]).repetitions).toBe(3);
+  });
+
+  it('moves ease with the grade', () => {
+    expect(review([4]).easeFactor).toBeCloseTo(INITIAL_EASE);
+    expect(review([5]).easeFactor).toBeCloseTo(2.6);
+    expect(review([3]).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('resets the interval and repetitions on a lapse', () => {
+    const lapsed = review([4, 4, 4, 1]);
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.intervalDays).toBe(1);
+    expect(lapsed.easeFactor).toBeCloseTo(INITIAL_EASE - 0.54);
+    // Relearning starts from the top of the ladder again.
+    expect(scheduleReview(lapsed, 4).intervalDays).toBe(1);
+    expect(scheduleReview(scheduleReview(lapsed, 4), 4).intervalDays).toBe(6);
+  });
+
+  it('never lets ease fall below the floor', () => {
+    expect(review([0, 0, 0, 0]).easeFactor).toBe(MIN_EASE);
+    expect(review([1, 1, 1, 3]).easeFactor).toBe(MIN_EASE);
+  });
+
+  it('sets the due date from the interval', () => {
+    const now = 1_700_000_000_000;
+    const schedule = scheduleReview({ easeFactor: 2.5, intervalDays: 6, repetitions: 2, dueAt: 0, lastReviewedAt: 0 }, 4, now);
+    expect(schedule.intervalDays).toBe(15);
+    expect(schedule.dueAt).toBe(now + 15 * DAY_MS);
+    expect(schedule.lastReviewedAt).toBe(now);
+  });
+});
+
+describe('applyReview', () => {
+  it('updates the card and appends to the log without mutating either', () => {
+    const cards = [card('a'), card('b')];
+    const result = applyReview(cards, [], 'b', 4, 1000);
+    expect(result.cards[1].schedule?.intervalDays).toBe(1);
+    expect(result.cards[0]).toBe(cards[0]);
+    expect(cards[1].schedule).toBeUndefined();
+    expect(result.log).toEqual([{ cardId: 'b', grade: 4, reviewedAt: 1000, intervalDays: 1, easeFactor: INITIAL_EASE }]);
+  });
+
+  it('ignores unknown cards', () => {
+    const cards = [card('a')];
+    expect(applyReview(cards, [], 'missing', 4).cards).toBe(cards);
+  });
+});
+
+describe('dueCards', () => {
+  it('puts the most overdue first and new cards after them', () => {
+    const at = (dueAt: number): CardSchedule => ({ easeFactor: 2.5, intervalDays: 1, repetitions: 1, dueAt, lastReviewedAt: 0 });
+    const cards = [card('new'), card('later', at(500)), card('future', at(5000)), card('overdue', at(100))];
+    expect(dueCards(cards, 1000).map(c => c.id)).toEqual(['overdue', 'later', 'new']);
+  });
+});
+
+describe('formatInterval', () => {
+  it('labels days, months and years', () => {
+    expect(formatInterval(1)).toBe('1 day');
+    expect(formatInterval(6)).toBe('6 days');
+    expect(formatInterval(90)).toBe('3 mo');
+    expect(formatInterval(400)).toBe('1.1 yr');
+  });
+});
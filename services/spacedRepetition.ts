@@ -0,0 +1,61 @@
+import { CardReview, CardSchedule, Flashcard, ReviewGrade } from '../types';
+
+/**
+ * 🔁 SPACED REPETITION (SM-2)
+ * Classic SuperMemo-2: a lapse (grade < 3) resets the card to a one-day
+ * interval, successes grow it 1 → 6 → interval × ease. Ease moves with every
+ * grade and never drops below 1.3.
+ */
+
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The four answer buttons and the SM-2 grade each one records. */
+export const REVIEW_BUTTONS: { label: string; grade: ReviewGrade }[] = [
+  { label: 'Again', grade: 1 },
+  { label: 'Hard', grade: 3 },
+  { label: 'Good', grade: 4 },
+  { label: 'Easy', grade: 5 },
+];
+
+export function scheduleReview(previous: CardSchedule | undefined, grade: ReviewGrade, now: number = Date.now()): CardSchedule {
+  const easeFactor = Math.max(MIN_EASE, (previous?.easeFactor ?? INITIAL_EASE) + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+  const lapsed = grade < 3;
+  const repetitions = lapsed ? 0 : (previous?.repetitions ?? 0) + 1;
+  const intervalDays = lapsed || repetitions === 1 ? 1
+    : repetitions === 2 ? 6
+    : Math.round((previous?.intervalDays ?? 1) * easeFactor);
+  return { easeFactor, intervalDays, repetitions, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+}
+
+export function isDue(card: Flashcard, now: number = Date.now()): boolean {
+  return !card.schedule || card.schedule.dueAt <= now;
+}
+
+/** Due cards, most overdue first; new cards keep deck order after them. */
+export function dueCards(cards: Flashcard[], now: number = Date.now()): Flashcard[] {
+  return cards
+    .filter(c => isDue(c, now))
+    .sort((a, b) => (a.schedule?.dueAt ?? Infinity) - (b.schedule?.dueAt ?? Infinity));
+}
+
+/**
+ * Applies one review to the deck and returns the updated cards and log.
+ */
+export function applyReview(cards: Flashcard[], log: CardReview[], cardId: string, grade: ReviewGrade, now: number = Date.now()): { cards: Flashcard[]; log: CardReview[] } {
+  const card = cards.find(c => c.id === cardId);
+  if (!card) return { cards, log };
+  const schedule = scheduleReview(card.schedule, grade, now);
+  return {
+    cards: cards.map(c => c.id === cardId ? { ...c, schedule } : c),
+    log: [...log, { cardId, grade, reviewedAt: now, intervalDays: schedule.intervalDays, easeFactor: schedule.easeFactor }],
+  };
+}
+
+/** "1 day", "6 days", "3 mo" — the label under each answer button. */
+export function formatInterval(days: number): string {
+  if (days < 30) return `${days} day${days === 1 ? '' : 's'}`;
+  if (days < 365) return `${Math.round(days / 30)} mo`;
+  return `${(days / 365).toFixed(1)} yr`;
+}
@@ -0,0 +1,43 @@
+import { SourceSegment } from '../types';
+import { formatTimestamp } from '../utils/timecode';
+
+/**
+ * 🕰️ TIMED TRANSCRIPTS
+ * Shared layout for media sources (captions, audio transcription):
+ * `[mm:ss] Speaker: text` paragraphs with their offsets recorded as segments.
+ */
+
+export interface TimedCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+  speaker?: string;
+}
+
+/** Consecutive cues from the same speaker are merged into segments of roughly this length. */
+export const SEGMENT_TARGET_MS = 20000;
+
+export function buildTranscript(cues: TimedCue[], targetMs: number = SEGMENT_TARGET_MS): { content: string; segments: SourceSegment[] } {
+  const segments: SourceSegment[] = [];
+  let content = '';
+  let group: TimedCue[] = [];
+
+  const flush = () => {
+    if (group.length === 0) return;
+    const { startMs, speaker } = group[0];
+    const endMs = group[group.length - 1].endMs;
+    if (content) content += '\n\n';
+    const start = content.length;
+    content += `[${formatTimestamp(startMs)}] ${speaker ? `${speaker}: ` : ''}${group.map(c => c.text).join(' ')}`;
+    segments.push({ startMs, endMs, start, end: content.length, ...(speaker ? { speaker } : {}) });
+    group = [];
+  };
+
+  for (const cue of cues) {
+    const head = group[0];
+    if (head && (cue.speaker !== head.speaker || cue.startMs - head.startMs >= targetMs)) flush();
+    group.push(cue);
+  }
+  flush();
+  return { content, segments };
+}
@@ -0,0 +1,73 @@
+import { AudioChapter, TranscriptSegment } from '../types';
+import { formatTimestamp } from '../utils/timecode';
+
+/**
+ * 📜 TRANSCRIPT EXPORT
+ * Audio overview transcripts as SubRip, WebVTT or plain text. Cue times come
+ * straight from the PCM-aligned timeline, so captions line up with the
+ * exported audio.
+ */
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt';
+
+export const TRANSCRIPT_MIME_TYPES: Record<TranscriptFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain',
+};
+
+/** "hh:mm:ss,mmm" for SRT, "hh:mm:ss.mmm" for WebVTT. */
+function cueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+}
+
+/** Cue text must not contain blank lines, which would end the cue early. */
+const cueText = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+export function toSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((seg, i) => `${i + 1}\n${cueTime(seg.startMs, ',')} --> ${cueTime(seg.endMs, ',')}\n${seg.speaker}: ${cueText(seg.text)}`)
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Speakers are tagged with `<v>` voice spans so players can style them;
+ * `<`, `>` and `&` in the text are escaped as the spec requires.
+ */
+export function toVtt(segments: TranscriptSegment[]): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const cues = segments.map(seg =>
+    `${seg.id}\n${cueTime(seg.startMs, '.')} --> ${cueTime(seg.endMs, '.')}\n<v ${seg.speaker}>${escape(cueText(seg.text))}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * Readable transcript with timestamps, grouped under chapter headings when
+ * chapters are available.
+ */
+export function toPlainText(segments: TranscriptSegment[], chapters: AudioChapter[] = [], title?: string): string {
+  const lines: string[] = title ? [title, ''] : [];
+  let chapterIndex = -1;
+  segments.forEach(seg => {
+    let next = chapterIndex;
+    while (next + 1 < chapters.length && seg.startMs >= chapters[next + 1].startMs) next++;
+    if (next !== chapterIndex) {
+      chapterIndex = next;
+      if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+      lines.push(`${chapterIndex + 1}. ${chapters[chapterIndex].title} (${formatTimestamp(chapters[chapterIndex].startMs)})`, '');
+    }
+    lines.push(`[${formatTimestamp(seg.startMs)}] ${seg.speaker}: ${cueText(seg.text)}`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function exportTranscript(format: TranscriptFormat, segments: TranscriptSegment[], chapters: AudioChapter[] = [], title?: string): Blob {
+  const text = format === 'srt' ? toSrt(segments) : format === 'vtt' ? toVtt(segments) : toPlainText(segments, chapters, title);
+  return new Blob([text], { type: `${TRANSCRIPT_MIME_TYPES[format]};charset=utf-8` });
+}
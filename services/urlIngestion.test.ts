@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { extractReadable, ingestUrl, resolveProxyUrl } from './urlIngestion';
+import { ExtractionError } from './extractionError';
+
+const ARTICLE_HTML = `<!doctype html>
+<html>
+<head>
+  <title>Fallback Title</title>
+  <meta property="og:title" content="Tidal Energy Explained">
+  <link rel="canonical" href="/articles/tidal-energy">
+  <script>window.tracking = "should not appear";</script>
+  <style>.x { color: red; }</style>
+</head>
+<body>
+  <nav><a href="/">Home</a> <a href="/news">News navigation link</a></nav>
+  <div class="ad-banner">Buy one get one free advert</div>
+  <article>
+    <h1>Tidal Energy Explained</h1>
+    <p>Tidal power converts the energy of moving water into electricity using turbines placed in strong currents.</p>
+    <div id="newsletter-signup">Subscribe to our newsletter today</div>
+    <ul><li>Predictable output</li><li>Long turbine life</li></ul>
+    <p>Unlike wind or solar, the tides can be forecast years in advance, which makes grid planning easier.</p>
+  </article>
+  <footer>Copyright footer text</footer>
+  <script>console.log("trailing script")</script>
+</body>
+</html>`;
+
+const EMPTY_HTML = '<html><head><title>Empty</title></head><body><nav>Only navigation here</nav></body></html>';
+
+let server: Server;
+let base: string;
+let proxied: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname === '/article') {
+      res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+      res.end(ARTICLE_HTML);
+    } else if (url.pathname === '/empty') {
+      res.writeHead(200, { 'content-type': 'text/html' });
+      res.end(EMPTY_HTML);
+    } else if (url.pathname === '/image') {
+      res.writeHead(200, { 'content-type': 'image/png' });
+      res.end('not html');
+    } else if (url.pathname === '/slow') {
+      setTimeout(() => { res.writeHead(200, { 'content-type': 'text/html' }); res.end(ARTICLE_HTML); }, 1000);
+    } else if (url.pathname === '/proxy') {
+      proxied.push(url.searchParams.get('url') || '');
+      res.writeHead(200, { 'content-type': 'text/html' });
+      res.end(ARTICLE_HTML);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('resolveProxyUrl', () => {
+  it('fetches directly without a proxy', () => {
+    expect(resolveProxyUrl('https://example.com/a', '')).toBe('https://example.com/a');
+  });
+
+  it('substitutes the encoded target for {url}', () => {
+    expect(resolveProxyUrl('https://example.com/a?b=1', 'https://proxy.test/fetch/{url}'))
+      .toBe('https://proxy.test/fetch/https%3A%2F%2Fexample.com%2Fa%3Fb%3D1');
+  });
+
+  it('appends the target as a url parameter', () => {
+    expect(resolveProxyUrl('https://example.com/a', 'https://proxy.test/get')).toBe('https://proxy.test/get?url=https%3A%2F%2Fexample.com%2Fa');
+    expect(resolveProxyUrl('https://example.com/a', 'https://proxy.test/get?key=1')).toBe('https://proxy.test/get?key=1&url=https%3A%2F%2Fexample.com%2Fa');
+  });
+});
+
+describe('extractReadable', () => {
+  it('keeps the article and strips nav, ads and scripts', () => {
+    const page = extractReadable(parse(ARTICLE_HTML), 'https://example.com/raw?id=7');
+    expect(page.content).toContain('Tidal power converts the energy of moving water');
+    expect(page.content).toContain('- Predictable output\n- Long turbine life');
+    expect(page.content).not.toMatch(/navigation link|advert|newsletter|footer text|tracking|trailing script|color: red/);
+  });
+
+  it('takes the og:title and resolves the canonical URL against the page', () => {
+    const page = extractReadable(parse(ARTICLE_HTML), 'https://example.com/raw?id=7');
+    expect(page.title).toBe('Tidal Energy Explained');
+    expect(page.canonicalUrl).toBe('https://example.com/articles/tidal-energy');
+  });
+
+  it('falls back to the document title and the fetched URL', () => {
+    const page = extractReadable(parse('<html><head><title> Plain </title></head><body><p>Text</p></body></html>'), 'https://example.com/p');
+    expect(page.title).toBe('Plain');
+    expect(page.canonicalUrl).toBe('https://example.com/p');
+  });
+});
+
+describe('ingestUrl', () => {
+  it('fetches from the fixture server and records fetchedAt', async () => {
+    const before = Date.now();
+    const source = await ingestUrl(`${base}/article`, { proxyUrl: '' });
+    expect(source.title).toBe('Tidal Energy Explained');
+    expect(source.url).toBe(`${base}/articles/tidal-energy`);
+    expect(source.content).toContain('tides can be forecast years in advance');
+    expect(source.fetchedAt).toBeGreaterThanOrEqual(before);
+    expect(source.fetchedAt).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('goes through the configured proxy', async () => {
+    proxied = [];
+    await ingestUrl('https://example.com/story', { proxyUrl: `${base}/proxy` });
+    expect(proxied).toEqual(['https://example.com/story']);
+  });
+
+  it('reports HTTP errors', async () => {
+    await expect(ingestUrl(`${base}/missing`, { proxyUrl: '' })).rejects.toMatchObject({ code: 'fetch-failed', message: 'Could not fetch page (HTTP 404).' });
+  });
+
+  it('rejects non-HTML responses', async () => {
+    await expect(ingestUrl(`${base}/image`, { proxyUrl: '' })).rejects.toMatchObject({ code: 'unreadable' });
+  });
+
+  it('rejects pages without article text', async () => {
+    await expect(ingestUrl(`${base}/empty`, { proxyUrl: '' })).rejects.toMatchObject({ code: 'empty' });
+  });
+
+  it('gives up when the page does not answer in time', async () => {
+    const error = await ingestUrl(`${base}/slow`, { proxyUrl: '', timeoutMs: 50 }).catch(e => e);
+    expect(error).toBeInstanceOf(ExtractionError);
+    expect(error.code).toBe('fetch-failed');
+  });
+
+  it('stops fetching when the caller aborts', async () => {
+    const controller = new AbortController();
+    const pending = ingestUrl(`${base}/slow`, { proxyUrl: '', signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ code: 'fetch-failed' });
+  });
+
+  it('rejects invalid URLs before fetching', async () => {
+    await expect(ingestUrl('http://exa mple', { proxyUrl: '' })).rejects.toMatchObject({ code: 'unreadable' });
+  });
+});
@@ -0,0 +1,194 @@
+import { Source } from '../types';
+import { ExtractionError } from './extractionError';
+
+/**
+ * 🌐 URL INGESTION PIPELINE
+ * fetch (through FETCH_PROXY_URL when configured) -> parse -> strip chrome
+ * (nav, ads, scripts) -> pick the article root -> serialise as Markdown-Lite.
+ */
+
+export interface UrlIngestOptions {
+  /**
+   * Proxy endpoint. `{url}` is replaced with the encoded target URL;
+   * otherwise the target is appended as `?url=`. Empty means fetch directly.
+   */
+  proxyUrl?: string;
+  fetchImpl?: typeof fetch;
+  /** Parses HTML into a Document; defaults to the browser DOMParser. */
+  parseHtml?: (html: string) => Document;
+  /** Gives up on the fetch after this long; defaults to FETCH_TIMEOUT_MS. */
+  timeoutMs?: number;
+  /** Cancels the fetch, e.g. when the source is cancelled while queued. */
+  signal?: AbortSignal;
+}
+
+export interface ReadablePage {
+  title: string;
+  canonicalUrl: string;
+  content: string;
+}
+
+const FETCH_TIMEOUT_MS = 15000;
+const MIN_ARTICLE_CHARS = 80;
+
+const STRIP_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]', '[hidden]',
+].join(',');
+
+const BOILERPLATE_HINT = /(^|[-_\s])(ads?|advert\w*|promo\w*|sponsor\w*|cookie\w*|banner|share|social|newsletter|subscribe|related|comments?|sidebar|popup|modal|breadcrumbs?|footer|menu)([-_\s]|$)/i;
+
+const BLOCK_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'LI', 'BLOCKQUOTE', 'PRE', 'TD', 'FIGCAPTION']);
+const STRUCTURAL_SELECTOR = 'p, h1, h2, h3, h4, li, blockquote, pre, td, figcaption, div, section, article, ul, ol, table';
+
+export function resolveProxyUrl(target: string, proxyUrl: string = process.env.FETCH_PROXY_URL || ''): string {
+  if (!proxyUrl) return target;
+  const encoded = encodeURIComponent(target);
+  if (proxyUrl.includes('{url}')) return proxyUrl.replace('{url}', encoded);
+  return `${proxyUrl}${proxyUrl.includes('?') ? '&' : '?'}url=${encoded}`;
+}
+
+export function normalizeUrl(input: string): string {
+  const trimmed = input.trim();
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    return new URL(withScheme).toString();
+  } catch {
+    throw new ExtractionError('unreadable', `"${trimmed}" is not a valid URL.`);
+  }
+}
+
+const textOf = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim();
+
+function stripBoilerplate(root: Element): void {
+  root.querySelectorAll(STRIP_SELECTORS).forEach(el => el.remove());
+  root.querySelectorAll('[class], [id]').forEach(el => {
+    const hint = `${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`;
+    if (BOILERPLATE_HINT.test(hint) && el.tagName !== 'BODY' && el.tagName !== 'ARTICLE' && el.tagName !== 'MAIN') el.remove();
+  });
+}
+
+/**
+ * Prefers semantic containers; otherwise picks the element whose direct
+ * paragraphs carry the most text.
+ */
+function findArticleRoot(doc: Document): Element {
+  const semantic = doc.querySelector('article, main, [role="main"]');
+  if (semantic && textOf(semantic).length >= MIN_ARTICLE_CHARS) return semantic;
+
+  let best: Element = doc.body;
+  let bestScore = 0;
+  const scores = new Map<Element, number>();
+  doc.body.querySelectorAll('p').forEach(p => {
+    const parent = p.parentElement;
+    if (!parent) return;
+    const score = (scores.get(parent) || 0) + textOf(p).length;
+    scores.set(parent, score);
+    if (score > bestScore) { best = parent; bestScore = score; }
+  });
+  return best;
+}
+
+function serialize(root: Element): string {
+  const blocks: string[] = [];
+  const walk = (el: Element) => {
+    if (BLOCK_TAGS.has(el.tagName)) {
+      const text = textOf(el);
+      if (!text) return;
+      if (/^H[1-4]$/.test(el.tagName)) blocks.push(`## ${text}`);
+      else if (el.tagName === 'LI') blocks.push(`- ${text}`);
+      else blocks.push(text);
+      return;
+    }
+    // Inline-only containers (text mixed with links, spans...) are one block.
+    if (!el.querySelector(STRUCTURAL_SELECTOR)) {
+      const text = textOf(el);
+      if (text) blocks.push(text);
+      return;
+    }
+    Array.from(el.children).forEach(walk);
+  };
+  walk(root);
+
+  // List items sit on consecutive lines so Markdown-Lite keeps them in one list.
+  return blocks.reduce((out, block, i) => {
+    if (i === 0) return block;
+    const joiner = block.startsWith('- ') && blocks[i - 1].startsWith('- ') ? '\n' : '\n\n';
+    return out + joiner + block;
+  }, '');
+}
+
+export function extractReadable(doc: Document, pageUrl: string): ReadablePage {
+  const meta = (selector: string) => doc.querySelector(selector)?.getAttribute('content')?.trim() || '';
+  const title = meta('meta[property="og:title"]') || (doc.title || '').trim() || textOf(doc.querySelector('h1') || doc.body) || pageUrl;
+
+  const canonicalHref = doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || meta('meta[property="og:url"]');
+  let canonicalUrl = pageUrl;
+  if (canonicalHref) {
+    try { canonicalUrl = new URL(canonicalHref, pageUrl).toString(); } catch { /* keep the fetched URL */ }
+  }
+
+  stripBoilerplate(doc.body);
+  const content = serialize(findArticleRoot(doc));
+  return { title: title.slice(0, 200), canonicalUrl, content };
+}
+
+/**
+ * Runs a fetch, body included, under one signal that fires on the caller's
+ * abort or after `timeoutMs` (FETCH_TIMEOUT_MS by default).
+ */
+export async function withFetchTimeout<T>(options: Pick<UrlIngestOptions, 'timeoutMs' | 'signal'>, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? FETCH_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort);
+  if (options.signal?.aborted) controller.abort();
+  try {
+    return await run(controller.signal);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export async function fetchHtml(url: string, options: UrlIngestOptions = {}): Promise<string> {
+  const fetchImpl = options.fetchImpl || fetch;
+  try {
+    return await withFetchTimeout(options, async signal => {
+      const res = await fetchImpl(resolveProxyUrl(url, options.proxyUrl), { signal });
+      if (!res.ok) throw new ExtractionError('fetch-failed', `Could not fetch page (HTTP ${res.status}).`);
+      const type = res.headers.get('content-type') || '';
+      if (type && !/html|xml/i.test(type)) {
+        throw new ExtractionError('unreadable', `Unsupported content type: ${type.split(';')[0]}.`);
+      }
+      return res.text();
+    });
+  } catch (e: any) {
+    if (e instanceof ExtractionError) throw e;
+    throw new ExtractionError('fetch-failed', 'Could not reach this page. Check the URL or the fetch proxy.');
+  }
+}
+
+/**
+ * Fetches a URL and returns the Source fields for it. `fetchedAt` records when
+ * the HTML was retrieved so stale web sources can be spotted later.
+ */
+export async function ingestUrl(input: string, options: UrlIngestOptions = {}): Promise<Partial<Source>> {
+  const url = normalizeUrl(input);
+  const html = await fetchHtml(url, options);
+  const parse = options.parseHtml || ((h: string) => new DOMParser().parseFromString(h, 'text/html'));
+  const page = extractReadable(parse(html), url);
+
+  if (page.content.length < MIN_ARTICLE_CHARS) {
+    throw new ExtractionError('empty', 'No readable article text was found on this page.');
+  }
+
+  return {
+    title: page.title,
+    content: page.content,
+    url: page.canonicalUrl,
+    fetchedAt: Date.now(),
+  };
+}
@@ -0,0 +1,216 @@
+import { Notebook, PodcastJob, GeneratedMedia } from '../types';
+
+/**
+ * 🗄️ VAULT STORE (INDEXEDDB)
+ * Durable storage behind Notebook / Source / GeneratedMedia.
+ * Large payloads (PCM audio, artwork data URLs) live in a separate blob store
+ * so notebook records stay small and fast to hydrate.
+ */
+
+const DB_NAME = 'axiom-vault';
+
+const STORES = {
+  notebooks: 'notebooks',
+  blobs: 'blobs',
+  jobs: 'jobs',
+} as const;
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * 🔒 SCHEMA MIGRATIONS (APPEND-ONLY)
+ * Entry N upgrades a database from version N to N + 1.
+ * Never edit a shipped migration; add a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  (db) => {
+    db.createObjectStore(STORES.notebooks, { keyPath: 'id' });
+    db.createObjectStore(STORES.blobs);
+    const jobs = db.createObjectStore(STORES.jobs, { keyPath: 'jobId' });
+    jobs.createIndex('notebookId', 'notebookId');
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openVault(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion; v < SCHEMA_VERSION; v++) {
+        MIGRATIONS[v](db, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: release our handle so it can proceed.
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    request.onerror = () => { dbPromise = null; reject(request.error); };
+    request.onblocked = () => console.warn('[AXIOM VAULT] Upgrade blocked by another tab');
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const blobKey = (blobId: string, field: 'audio' | 'artwork') => `media:${blobId}:${field}`;
+
+/** Copies share their original's blobs, so several items can point at one id. */
+export const mediaBlobId = (media: GeneratedMedia) => media.blobId ?? media.id;
+
+const isDataUrl = (value?: string) => !!value && value.startsWith('data:');
+
+/**
+ * Splits heavy fields off generated media so they can be written to the blob store.
+ */
+function dehydrateMedia(media: GeneratedMedia, blobs: Map<string, string>): GeneratedMedia {
+  const { audioBase64, artworkUrl, ...rest } = media;
+  if (audioBase64) blobs.set(blobKey(mediaBlobId(media), 'audio'), audioBase64);
+  if (isDataUrl(artworkUrl)) blobs.set(blobKey(mediaBlobId(media), 'artwork'), artworkUrl!);
+  return { ...rest, artworkUrl: isDataUrl(artworkUrl) ? undefined : artworkUrl };
+}
+
+type BlobReader = (key: string) => Promise<string | undefined>;
+
+/** Reads each key once, so items sharing a blob also share it in memory. */
+function blobReader(store: IDBObjectStore): BlobReader {
+  const reads = new Map<string, Promise<string | undefined>>();
+  return (key) => {
+    if (!reads.has(key)) reads.set(key, promisify<string | undefined>(store.get(key)));
+    return reads.get(key)!;
+  };
+}
+
+async function hydrateMedia(media: GeneratedMedia, read: BlobReader): Promise<GeneratedMedia> {
+  const [audioBase64, artwork] = await Promise.all([
+    read(blobKey(mediaBlobId(media), 'audio')),
+    read(blobKey(mediaBlobId(media), 'artwork')),
+  ]);
+  return {
+    ...media,
+    audioBase64: audioBase64 || media.audioBase64,
+    artworkUrl: artwork || media.artworkUrl,
+  };
+}
+
+/**
+ * Returns every stored notebook, or null when the vault has never been written.
+ */
+export async function loadNotebooks(): Promise<Notebook[] | null> {
+  const db = await openVault();
+  const tx = db.transaction([STORES.notebooks, STORES.blobs], 'readonly');
+  const records = await promisify<Notebook[]>(tx.objectStore(STORES.notebooks).getAll());
+  if (records.length === 0) return null;
+
+  const read = blobReader(tx.objectStore(STORES.blobs));
+  const notebooks = await Promise.all(records.map(async (n) => ({
+    ...n,
+    // Transient UI flags never survive a reload.
+    isGeneratingSummary: false,
+    generatedMedia: await Promise.all((n.generatedMedia || []).map(m => hydrateMedia(m, read))),
+  })));
+
+  return notebooks.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveNotebook(notebook: Notebook): Promise<void> {
+  const db = await openVault();
+  const tx = db.transaction([STORES.notebooks, STORES.blobs], 'readwrite');
+  const blobs = new Map<string, string>();
+  const record: Notebook = {
+    ...notebook,
+    generatedMedia: (notebook.generatedMedia || []).map(m => dehydrateMedia(m, blobs)),
+  };
+
+  tx.objectStore(STORES.notebooks).put(record);
+  const blobStore = tx.objectStore(STORES.blobs);
+  blobs.forEach((value, key) => blobStore.put(value, key));
+  return complete(tx);
+}
+
+const deleteBlobs = (store: IDBObjectStore, blobId: string) => {
+  store.delete(blobKey(blobId, 'audio'));
+  store.delete(blobKey(blobId, 'artwork'));
+};
+
+/** Drops the audio and artwork filed under `blobId` once no item uses them. */
+export async function deleteMediaBlobs(blobId: string): Promise<void> {
+  const db = await openVault();
+  const tx = db.transaction(STORES.blobs, 'readwrite');
+  deleteBlobs(tx.objectStore(STORES.blobs), blobId);
+  return complete(tx);
+}
+
+/**
+ * Drops blobs that no saved item points at: a tab closed during an undo
+ * window leaves its deleted item's audio and artwork behind. Returns how many
+ * keys were removed.
+ */
+export async function sweepOrphanBlobs(): Promise<number> {
+  const db = await openVault();
+  const tx = db.transaction([STORES.notebooks, STORES.blobs], 'readwrite');
+  const records = await promisify<Notebook[]>(tx.objectStore(STORES.notebooks).getAll());
+  const live = new Set(records.flatMap(n => (n.generatedMedia || []).flatMap(m => [blobKey(mediaBlobId(m), 'audio'), blobKey(mediaBlobId(m), 'artwork')])));
+  const blobStore = tx.objectStore(STORES.blobs);
+  const orphans = (await promisify(blobStore.getAllKeys())).filter(k => !live.has(String(k)));
+  orphans.forEach(k => blobStore.delete(k));
+  await complete(tx);
+  return orphans.length;
+}
+
+export async function deleteNotebook(notebook: Notebook): Promise<void> {
+  const db = await openVault();
+  const tx = db.transaction([STORES.notebooks, STORES.blobs, STORES.jobs], 'readwrite');
+  tx.objectStore(STORES.notebooks).delete(notebook.id);
+  const blobStore = tx.objectStore(STORES.blobs);
+  (notebook.generatedMedia || []).forEach(m => deleteBlobs(blobStore, mediaBlobId(m)));
+  const jobs = tx.objectStore(STORES.jobs);
+  const keys = await promisify(jobs.index('notebookId').getAllKeys(notebook.id));
+  keys.forEach(k => jobs.delete(k));
+  return complete(tx);
+}
+
+/**
+ * 🎧 JOB CHECKPOINTS
+ * Podcast jobs are written on every state change so a crashed tab
+ * can see what was in flight and how far it got.
+ */
+export async function saveJob(job: PodcastJob): Promise<void> {
+  const db = await openVault();
+  const tx = db.transaction(STORES.jobs, 'readwrite');
+  tx.objectStore(STORES.jobs).put(job);
+  return complete(tx);
+}
+
+export async function loadJobs(): Promise<PodcastJob[]> {
+  const db = await openVault();
+  const tx = db.transaction(STORES.jobs, 'readonly');
+  return promisify<PodcastJob[]>(tx.objectStore(STORES.jobs).getAll());
+}
+
+export async function deleteJob(jobId: string): Promise<void> {
+  const db = await openVault();
+  const tx = db.transaction(STORES.jobs, 'readwrite');
+  tx.objectStore(STORES.jobs).delete(jobId);
+  return complete(tx);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { fetchCaptions, ingestYouTube, parseCaptions, parseYouTubeId } from './youtubeTranscript';
+
+const VTT = `WEBVTT
+
+00:00:01.000 --> 00:00:03.000
+Tides rise twice a day.
+
+00:00:03.000 --> 00:00:05.500 align:start
+<c>Tides rise twice a day.</c>
+
+00:00:05.500 --> 00:00:08.000
+They follow the &amp; moon.`;
+
+/** A fetch that only settles when its signal aborts, and records that signal. */
+const hangingFetch = (seen: AbortSignal[]) => ((_url: string, init?: RequestInit) => new Promise<Response>((_, reject) => {
+  seen.push(init!.signal!);
+  init!.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+})) as typeof fetch;
+
+describe('parseYouTubeId', () => {
+  it('reads ids from watch, short and embed URLs', () => {
+    expect(parseYouTubeId('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=10')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeId('youtu.be/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeId('https://youtube.com/embed/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeId('https://example.com/watch?v=dQw4w9WgXcQ')).toBeNull();
+  });
+});
+
+describe('parseCaptions', () => {
+  it('merges rolling repeats and cleans cue markup', () => {
+    expect(parseCaptions(VTT)).toEqual([
+      { startMs: 1000, endMs: 5500, text: 'Tides rise twice a day.' },
+      { startMs: 5500, endMs: 8000, text: 'They follow the & moon.' },
+    ]);
+  });
+});
+
+describe('fetchCaptions', () => {
+  it('stops the request when the caller aborts', async () => {
+    const seen: AbortSignal[] = [];
+    const controller = new AbortController();
+    const pending = fetchCaptions('dQw4w9WgXcQ', 'en', { proxyUrl: '', fetchImpl: hangingFetch(seen), signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ code: 'fetch-failed' });
+    expect(seen[0].aborted).toBe(true);
+  });
+
+  it('gives up when captions do not arrive in time', async () => {
+    const seen: AbortSignal[] = [];
+    await expect(fetchCaptions('dQw4w9WgXcQ', 'en', { proxyUrl: '', fetchImpl: hangingFetch(seen), timeoutMs: 20 }))
+      .rejects.toMatchObject({ code: 'fetch-failed' });
+    expect(seen[0].aborted).toBe(true);
+  });
+
+  it('reports a video without captions', async () => {
+    const fetchImpl = (async () => new Response('', { status: 404 })) as typeof fetch;
+    await expect(fetchCaptions('dQw4w9WgXcQ', 'en', { proxyUrl: '', fetchImpl })).rejects.toMatchObject({ code: 'empty' });
+  });
+});
+
+describe('ingestYouTube', () => {
+  it('passes the signal through to the caption fetch', async () => {
+    const seen: AbortSignal[] = [];
+    const controller = new AbortController();
+    const pending = ingestYouTube('youtu.be/dQw4w9WgXcQ', undefined, { proxyUrl: '', fetchImpl: hangingFetch(seen), signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ code: 'fetch-failed' });
+    expect(seen[0].aborted).toBe(true);
+  });
+
+  it('prefers an uploaded captions file', async () => {
+    const seen: AbortSignal[] = [];
+    const source = await ingestYouTube('youtu.be/dQw4w9WgXcQ', VTT, { fetchImpl: hangingFetch(seen) });
+    expect(seen).toHaveLength(0);
+    expect(source.videoId).toBe('dQw4w9WgXcQ');
+    expect(source.content).toContain('They follow the & moon.');
+    expect(source.segments![0].startMs).toBe(1000);
+  });
+});
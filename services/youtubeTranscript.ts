@@ -0,0 +1,102 @@
+import { Source } from '../types';
+import { ExtractionError } from './extractionError';
+import { resolveProxyUrl, UrlIngestOptions, withFetchTimeout } from './urlIngestion';
+import { buildTranscript, TimedCue } from './timedTranscript';
+import { parseTimestamp } from '../utils/timecode';
+
+/**
+ * ▶️ YOUTUBE TRANSCRIPT INGESTION
+ * Captions come from a provided .vtt/.srt file or from YouTube's timedtext
+ * endpoint through FETCH_PROXY_URL. Each cue becomes a timestamped segment
+ * whose character range in `Source.content` is recorded.
+ */
+
+export function parseYouTubeId(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^[\w-]{11}$/.test(trimmed)) return trimmed;
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const host = url.hostname.replace(/^www\.|^m\./, '');
+    if (host === 'youtu.be') return url.pathname.slice(1, 12) || null;
+    if (host === 'youtube.com' || host === 'music.youtube.com') {
+      const v = url.searchParams.get('v');
+      if (v) return v;
+      const path = url.pathname.match(/^\/(?:embed|shorts|live|v)\/([\w-]{11})/);
+      return path ? path[1] : null;
+    }
+  } catch { /* fall through */ }
+  return null;
+}
+
+const cleanCueText = (text: string) => text
+  .replace(/<[^>]+>/g, '')
+  .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&#39;/g, "'").replace(/&quot;/g, '"')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Parses WebVTT or SRT. Both are blocks separated by blank lines with a
+ * `start --> end` timing line; cue ids, NOTE/STYLE blocks and settings are ignored.
+ */
+export function parseCaptions(raw: string): TimedCue[] {
+  const cues: TimedCue[] = [];
+  const blocks = raw.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+    const [startRaw, rest] = lines[timingIndex].split('-->');
+    const startMs = parseTimestamp(startRaw);
+    const endMs = parseTimestamp((rest || '').trim().split(/\s+/)[0]);
+    const text = cleanCueText(lines.slice(timingIndex + 1).join(' '));
+    if (startMs === null || endMs === null || !text) continue;
+    // Auto-generated captions repeat the previous line as a rolling window.
+    const prev = cues[cues.length - 1];
+    if (prev && prev.text === text) { prev.endMs = Math.max(prev.endMs, endMs); continue; }
+    cues.push({ startMs, endMs, text });
+  }
+  return cues.sort((a, b) => a.startMs - b.startMs);
+}
+
+export type CaptionFetchOptions = Pick<UrlIngestOptions, 'proxyUrl' | 'fetchImpl' | 'timeoutMs' | 'signal'>;
+
+export async function fetchCaptions(videoId: string, lang: string = 'en', options: CaptionFetchOptions = {}): Promise<string> {
+  const target = `https://www.youtube.com/api/timedtext?v=${encodeURIComponent(videoId)}&lang=${encodeURIComponent(lang)}&fmt=vtt`;
+  const fetchImpl = options.fetchImpl || fetch;
+  let body: string;
+  try {
+    body = await withFetchTimeout(options, async signal => {
+      const res = await fetchImpl(resolveProxyUrl(target, options.proxyUrl), { signal });
+      return res.ok ? res.text() : '';
+    });
+  } catch {
+    throw new ExtractionError('fetch-failed', 'Could not reach YouTube captions. Upload a .vtt or .srt file instead.');
+  }
+  if (!body.trim()) {
+    throw new ExtractionError('empty', 'This video has no captions available. Upload a .vtt or .srt file instead.');
+  }
+  return body;
+}
+
+/**
+ * Builds the Source fields for a YouTube video, preferring an uploaded
+ * captions file over fetching.
+ */
+export async function ingestYouTube(input: string, captionsFile?: string, options: CaptionFetchOptions = {}): Promise<Partial<Source>> {
+  const videoId = parseYouTubeId(input);
+  if (!videoId) throw new ExtractionError('unreadable', 'That does not look like a YouTube video URL.');
+
+  const raw = captionsFile ?? await fetchCaptions(videoId, 'en', options);
+  const cues = parseCaptions(raw);
+  if (cues.length === 0) throw new ExtractionError('empty', 'No caption cues could be read from this track.');
+
+  const { content, segments } = buildTranscript(cues);
+  return {
+    type: 'youtube',
+    content,
+    segments,
+    videoId,
+    url: `https://www.youtube.com/watch?v=${videoId}`,
+    fetchedAt: Date.now(),
+  };
+}
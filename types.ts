@@ -1,10 +1,80 @@
 
+/**
+ * Character range of one page inside an extracted document's content.
+ */
+export interface SourcePage {
+  page: number;
+  start: number;
+  end: number;
+  headings?: string[];
+}
+
+/**
+ * A timed span of a media source (captions, transcripts). `start`/`end`
+ * are character offsets into `Source.content`.
+ */
+export interface SourceSegment {
+  startMs: number;
+  endMs: number;
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+/**
+ * Lifecycle of a source in the indexing queue. `failed` carries `Source.error`.
+ */
+export type SourceStatus = 'queued' | 'extracting' | 'indexing' | 'indexed' | 'failed';
+
 export interface Source {
   id: string;
-  type: 'text' | 'url' | 'pdf';
+  type: 'text' | 'url' | 'pdf' | 'youtube' | 'audio' | 'image' | 'note';
   title: string;
   content: string;
   indexed?: boolean;
+  status?: SourceStatus;
+  /** Per-page offsets for paginated sources (PDF). */
+  pages?: SourcePage[];
+  /** Timed segments for media sources (YouTube captions, audio transcripts). */
+  segments?: SourceSegment[];
+  videoId?: string;
+  /** Small JPEG data URL shown for image sources. */
+  thumbnailUrl?: string;
+  /** Canonical URL for web sources. */
+  url?: string;
+  /** When the web page HTML was fetched (epoch ms). */
+  fetchedAt?: number;
+  /** Extraction progress (0–1) for long-running ingestion such as transcription. */
+  progress?: number;
+  /** Set when extraction failed; the source is kept so the user sees why. */
+  error?: string;
+  /** Kept in the vault but left out of answers, outlines and summaries. */
+  excluded?: boolean;
+  /** The note this source was created from. */
+  noteId?: string;
+}
+
+/**
+ * Resolves the real content of a source added as a placeholder (PDF, URL,
+ * captions, audio). Long extractors may report progress between 0 and 1
+ * and should stop early once `signal` is aborted.
+ */
+export type SourceExtractor = (reportProgress: (progress: number) => void, signal: AbortSignal) => Promise<Partial<Source>>;
+
+/**
+ * A retrievable window of a Source. `start`/`end` are character offsets
+ * into `Source.content`; ids are stable as `<sourceId>:p<ordinal>`.
+ */
+export interface Passage {
+  id: string;
+  sourceId: string;
+  sourceTitle: string;
+  ordinal: number;
+  text: string;
+  start: number;
+  end: number;
+  page?: number;
+  timestampMs?: number;
 }
 
 export interface TranscriptSegment {
@@ -34,6 +104,133 @@ export interface GeneratedMedia {
   transcript?: TranscriptSegment[];
   chapters?: AudioChapter[];
   audioBase64?: string;
+  /** Vault key of the audio and artwork, when shared with the item this was copied from. */
+  blobId?: string;
+  flashcards?: Flashcard[];
+  /** Every flashcard review, oldest first. */
+  reviewLog?: CardReview[];
+  quiz?: QuizQuestion[];
+  difficulty?: QuizDifficulty;
+  /** Graded attempts at this quiz, oldest first. */
+  quizAttempts?: QuizAttempt[];
+  slides?: Slide[];
+  infographic?: InfographicSpec;
+  /** Host personality of an audio overview. */
+  personality?: HostPersonality;
+  /** Generator settings of a non-audio item, reused when it is regenerated. */
+  options?: MediaJobOptions;
+  /** Sources changed after this was generated. */
+  stale?: boolean;
+}
+
+/** SM-2 scheduling state of a card that has been reviewed at least once. */
+export interface CardSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  /** Consecutive successful reviews. */
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  /** The passage the card was built from. */
+  citation: Citation;
+  /** Absent until the first review; new cards are always due. */
+  schedule?: CardSchedule;
+}
+
+/** SM-2 quality grade: 0-2 is a lapse, 3 hard, 4 good, 5 easy. */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface CardReview {
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  /** Interval scheduled by this review. */
+  intervalDays: number;
+  easeFactor: number;
+}
+
+export interface Slide {
+  title: string;
+  /** Cover slide only. */
+  subtitle?: string;
+  /** Empty on the cover slide. */
+  bullets: string[];
+  speakerNotes: string;
+  /** Passages the bullets are drawn from. */
+  citations: Citation[];
+}
+
+/** A headline number, e.g. "42%" / "of respondents use it daily". */
+export interface InfographicStat {
+  value: string;
+  label: string;
+  citation: Citation;
+}
+
+export interface InfographicComparison {
+  title: string;
+  /** Shared unit of the values, e.g. "%" or "USD bn". */
+  unit?: string;
+  items: { label: string; value: number; citation: Citation }[];
+}
+
+export interface InfographicEvent {
+  date: string;
+  label: string;
+  citation: Citation;
+}
+
+/** Typed infographic layout input; every number in it is cited. */
+export interface InfographicSpec {
+  title: string;
+  subtitle?: string;
+  stats: InfographicStat[];
+  comparisons: InfographicComparison[];
+  timeline: InfographicEvent[];
+}
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizQuestion {
+  id: string;
+  kind: 'multiple_choice' | 'short_answer';
+  prompt: string;
+  /** Multiple choice only. */
+  choices?: string[];
+  answerIndex?: number;
+  /** Correct choice text, or the model answer for short answers. */
+  answer: string;
+  /** Points a short answer must make; graded one by one. */
+  rubric?: string[];
+  explanation: string;
+  /** The passage that answers the question. */
+  citation: Citation;
+}
+
+export interface QuizAnswer {
+  questionId: string;
+  /** Choice text or the typed answer. */
+  response: string;
+  correct: boolean;
+  /** 0-1; partial credit for short answers. */
+  score: number;
+  /** Which rubric points the answer met (short answers). */
+  rubricMet?: boolean[];
+  feedback?: string;
+}
+
+export interface QuizAttempt {
+  id: string;
+  completedAt: number;
+  answers: QuizAnswer[];
+  /** Mean answer score, 0-1. */
+  score: number;
 }
 
 export type HostPersonality = 'neutral' | 'curious' | 'analytical' | 'warm' | 'debate' | 'visionary';
@@ -47,8 +244,11 @@ export type PodcastJobState =
   | 'FINALIZING' 
   | 'READY' 
   | 'FAILED'
+  | 'CANCELLED'
   | 'INDEXING';
 
+export type JobPriority = 'high' | 'normal' | 'low';
+
 export type GenerationMode = 'PRIMARY' | 'OPTIMIZED' | 'FAILSAFE';
 
 /**
@@ -65,10 +265,14 @@ export enum TTSEngine {
 export interface PodcastJob {
   jobId: string;
   notebookId: string;
+  /** What the job produces; absent on jobs saved before other media could be queued. */
+  mediaType?: GeneratedMedia['type'];
+  priority?: JobPriority;
   state: PodcastJobState;
   progress: number;
   mode: GenerationMode;
   activeEngine: TTSEngine | null;
+  /** Merged result of a READY audio job; dropped once its library item is in the vault. */
   audio?: {
     audio: string;
     chapters: AudioChapter[];
@@ -80,8 +284,46 @@ export interface PodcastJob {
   personality: HostPersonality;
   completedChunks: number;
   totalChunks: number;
+  /** Base64 PCM per synthesized chunk, in order; its length equals `completedChunks`. */
   partialAudioBuffers?: string[];
+  /** Timed transcript of the synthesized chunks so far. */
   partialTranscript?: TranscriptSegment[];
+  /** Fixed at preflight so a resumed job keeps the same chunk boundaries. */
+  outline?: PodcastOutline;
+  /** Scripted chunks, in order; may run one ahead of the synthesized audio. */
+  scripts?: PodcastScriptCheckpoint[];
+  artworkUrl?: string;
+  /** Retries spent on the chunk currently being worked on. */
+  retryCount?: number;
+  /** Generator settings for non-audio jobs. */
+  options?: MediaJobOptions;
+}
+
+export interface MediaJobOptions {
+  /** Number of cards or questions to generate. */
+  count?: number;
+  /** Optional topic to narrow retrieval. */
+  focus?: string;
+  difficulty?: QuizDifficulty;
+}
+
+export interface PodcastOutlinePart {
+  part?: number;
+  title?: string;
+  summary?: string;
+  topics?: string[];
+}
+
+export interface PodcastOutline {
+  outline: PodcastOutlinePart[];
+}
+
+export interface PodcastScriptCheckpoint {
+  title: string;
+  summary: string;
+  /** Text sent to speech synthesis. */
+  script: string;
+  turns: { speaker: 'Alex' | 'Jordan'; text: string }[];
 }
 
 export type NotebookCategory =
@@ -131,11 +373,19 @@ export interface Notebook {
   createdAt: number;
   sources: Source[];
   summary?: string;
+  /** Sources changed since the summary was written. */
+  summaryStale?: boolean;
   keywords?: string[];
   audioOverviewUrl?: string;
   chapters?: AudioChapter[];
   hostPersonality?: HostPersonality;
   generatedMedia?: GeneratedMedia[];
+  /** When a source was last added, edited, excluded or removed (epoch ms). */
+  sourcesChangedAt?: number;
+  /** Public URL the exported podcast feed folder is hosted at. */
+  podcastFeedUrl?: string;
+  threads?: ChatThread[];
+  notes?: Note[];
   isGeneratingSummary?: boolean; 
   visualFingerprint: NotebookVisualFingerprint;
   isShared?: boolean;
@@ -152,7 +402,55 @@ export enum AppState {
   DETAIL = 'DETAIL'
 }
 
+/**
+ * An inline reference from a model answer to a retrieved passage.
+ * `start`/`end` locate the passage inside the cited source's content.
+ */
+export interface Citation {
+  label: string;
+  passageId: string;
+  sourceId: string;
+  sourceTitle: string;
+  start: number;
+  end: number;
+  page?: number;
+  timestampMs?: number;
+}
+
 export interface Message {
   role: 'user' | 'model';
   text: string;
+  citations?: Citation[];
+  /** Citation labels the model produced that matched no retrieved passage. */
+  unverifiedCitations?: string[];
+  /** The user stopped the reply before it finished streaming. */
+  stopped?: boolean;
+}
+
+/**
+ * A saved chat answer. `content` keeps its inline citation markers, which
+ * resolve through `citations`; `sourceId` is set once it is used as a source.
+ */
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  citations: Citation[];
+  createdAt: number;
+  updatedAt: number;
+  sourceId?: string;
+}
+
+/**
+ * A named conversation stored on its notebook. Branching copies the
+ * messages up to the chosen point into a new thread.
+ */
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Message[];
+  /** Thread this one was branched from, if any. */
+  branchedFrom?: string;
 }
@@ -77,3 +77,65 @@ export function createBlob(data: Float32Array): { data: string; mimeType: string
     mimeType: 'audio/pcm;rate=16000',
   };
 }
+
+export function floatTo16BitPCM(data: Float32Array): Uint8Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return new Uint8Array(int16.buffer);
+}
+
+/**
+ * Wraps raw little-endian PCM16 in a 44-byte RIFF/WAVE header.
+ */
+export function encodeWav(pcm: Uint8Array, sampleRate: number, numChannels: number = 1): Uint8Array {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  const blockAlign = numChannels * 2;
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);          // fmt chunk size
+  view.setUint16(20, 1, true);           // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);          // bits per sample
+  writeTag(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+
+  const out = new Uint8Array(44 + pcm.byteLength);
+  out.set(new Uint8Array(header), 0);
+  out.set(pcm, 44);
+  return out;
+}
+
+/**
+ * Decodes any browser-supported audio file (mp3, m4a, wav, ogg...) and
+ * renders it down to a single channel at `sampleRate`.
+ */
+export async function decodeFileToMono(data: ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await ctx.decodeAudioData(data);
+  } finally {
+    ctx.close();
+  }
+  const length = Math.ceil(decoded.duration * sampleRate);
+  const offline = new OfflineAudioContext(1, Math.max(1, length), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start(0);
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
@@ -0,0 +1,21 @@
+/**
+ * ⬇️ DOWNLOADS
+ * Saves a generated Blob through a temporary object URL.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** A filesystem-safe base name derived from a title. */
+export function toFileName(title: string, fallback: string = 'axiom-export'): string {
+  const name = title.normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_]+/g, '-').toLowerCase().slice(0, 80);
+  return name || fallback;
+}
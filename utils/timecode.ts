@@ -0,0 +1,23 @@
+/**
+ * ⏱️ TIMECODES
+ * Shared formatting for transcript timestamps ("04:31", "1:02:03").
+ */
+export function formatTimestamp(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+}
+
+/**
+ * Parses "hh:mm:ss.mmm", "mm:ss.mmm" or the SRT form "hh:mm:ss,mmm" into milliseconds.
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  const ms = frac ? parseInt(frac.padEnd(3, '0'), 10) : 0;
+  return ((parseInt(h || '0', 10) * 60 + parseInt(m, 10)) * 60 + parseInt(s, 10)) * 1000 + ms;
+}
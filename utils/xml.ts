@@ -0,0 +1,9 @@
+/**
+ * 🏷️ XML
+ * Escaping for text and attribute values in generated XML (feeds, PPTX parts, SVG).
+ */
+export const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+  // Control characters are not allowed anywhere in XML 1.0.
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
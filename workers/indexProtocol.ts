@@ -0,0 +1,29 @@
+import { Passage, Source } from '../types';
+import { prepareSource, extractKeywords } from '../services/retrieval';
+
+/**
+ * 🧵 INDEX WORKER PROTOCOL
+ * Requests carry an id so the queue can match replies; the same handler runs
+ * inline when Web Workers are unavailable.
+ */
+
+export type IndexRequest =
+  | { id: number; type: 'prepare'; source: Source }
+  | { id: number; type: 'keywords'; docs: string[]; limit: number };
+
+export type IndexResponse =
+  | { id: number; type: 'prepare'; passages: Passage[]; terms: string[][] }
+  | { id: number; type: 'keywords'; keywords: string[] }
+  | { id: number; type: 'error'; message: string };
+
+export function handleIndexRequest(req: IndexRequest): IndexResponse {
+  try {
+    if (req.type === 'prepare') {
+      const { passages, terms } = prepareSource(req.source);
+      return { id: req.id, type: 'prepare', passages, terms };
+    }
+    return { id: req.id, type: 'keywords', keywords: extractKeywords(req.docs, req.limit) };
+  } catch (e: any) {
+    return { id: req.id, type: 'error', message: e?.message || 'Indexing failed.' };
+  }
+}
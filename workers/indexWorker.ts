@@ -0,0 +1,11 @@
+import { handleIndexRequest, IndexRequest } from './indexProtocol';
+
+/**
+ * 🧵 INDEX WORKER
+ * Chunking, tokenization and keyword extraction off the main thread.
+ */
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<IndexRequest>) => {
+  ctx.postMessage(handleIndexRequest(event.data));
+};